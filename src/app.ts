@@ -7,10 +7,15 @@ import { logger } from './utils/logger';
 import config from './config';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import { rateLimiter } from './middleware/rateLimiter';
+import { authenticate, redactApiKey } from './middleware/auth';
+import { requestContext } from './utils/requestContext';
+import { getRouteLabel, httpRequests } from './metrics';
 
 // 导入路由
 import ttsRoutes from './routes/tts';
+import lexiconRoutes from './routes/lexicons';
 import healthRoutes from './routes/health';
+import metricsRoutes from './routes/metrics';
 
 // 创建Express应用
 const app: Application = express();
@@ -48,25 +53,41 @@ app.use(cors({
     'Accept',
     'Authorization',
     'Cache-Control',
+    'Last-Event-ID',
     'X-TTS-Session-ID'
   ],
   exposedHeaders: [
     'X-TTS-Session-ID',
     'X-TTS-Duration',
     'X-TTS-Audio-Size',
+    'X-TTS-Cache',
+    'X-TTS-Voice-ID',
+    'X-TTS-Speed',
+    'X-TTS-Sample-Rate',
+    'X-TTS-Channels',
+    'X-TTS-Format',
     'Content-Length',
     'Content-Type'
   ]
 }));
 
-// 压缩响应
-app.use(compression() as any);
+// 压缩响应（SSE 需要逐条推送给客户端，不压缩；原始音频流带 Cache-Control: no-transform，compression 同样跳过）
+app.use(compression({
+  filter: (req, res) => {
+    if (String(res.getHeader('Content-Type') || '').startsWith('text/event-stream')) {
+      return false;
+    }
+    return compression.filter(req, res);
+  }
+}) as any);
 
 // 请求体解析中间件
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// 请求日志中间件
+// 请求日志中间件（URL 中的 api_key 不写入日志）
+morgan.token('url', (req: Request) => redactApiKey(req.originalUrl || req.url));
+
 if (config.nodeEnv === 'development') {
   app.use(morgan('dev'));
 } else {
@@ -92,11 +113,14 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   // 监听响应完成事件
   res.on('finish', () => {
     const duration = Date.now() - startTime;
+
+    httpRequests.inc({ method: req.method, route: getRouteLabel(req), status: res.statusCode });
     
     logger.info('[Request] 请求完成', {
       requestId,
+      clientId: req.apiClient?.id ?? 'anonymous',
       method: req.method,
-      url: req.url,
+      url: redactApiKey(req.originalUrl),
       statusCode: res.statusCode,
       duration: `${duration}ms`,
       ip: req.ip,
@@ -104,9 +128,13 @@ app.use((req: Request, res: Response, next: NextFunction) => {
     });
   });
   
-  next();
+  // 请求处理期间的日志自动附带请求ID和客户端ID
+  requestContext.run({ requestId }, next);
 });
 
+// 识别 API 客户端（各路由按需要求认证和权限）
+app.use(authenticate);
+
 // 应用全局速率限制
 app.use(rateLimiter);
 
@@ -119,6 +147,7 @@ app.get('/', (req: Request, res: Response) => {
     timestamp: new Date().toISOString(),
     endpoints: {
       health: '/health',
+      metrics: '/metrics',
       tts: '/api/tts',
       docs: '/api/docs'
     }
@@ -128,6 +157,8 @@ app.get('/', (req: Request, res: Response) => {
 // API路由
 app.use('/health', healthRoutes);
 app.use('/api/health', healthRoutes);
+app.use('/metrics', metricsRoutes);
+app.use('/api/tts/lexicons', lexiconRoutes);
 app.use('/api/tts', ttsRoutes);
 
 // API文档路由（简单版本）
@@ -138,37 +169,184 @@ app.get('/api/docs', (req: Request, res: Response) => {
     version: '1.0.0',
     description: '基于Coze WebSocket API的流式文本转语音服务',
     baseUrl: `http://localhost:${config.port}`,
+    authentication: {
+      description: '配置 API_KEYS / API_KEYS_FILE 后启用；未携带或密钥无效返回 401，权限不足返回 403',
+      header: 'Authorization: Bearer <key>',
+      query: 'api_key=<key>（无法设置请求头的客户端，如浏览器 WebSocket / EventSource）',
+      scopes: {
+        synthesize: 'POST /api/tts/synthesize, POST /api/tts/batch, POST /api/tts/normalize, /api/tts/jobs',
+        stream: '/api/tts/synthesize-stream, /api/tts/stream.*, WS /api/tts/ws',
+        'admin:stop': 'POST /api/tts/stop，以及通过 /api/tts/sessions/:sessionId/stop 停止其他客户端的会话',
+        'admin:config': 'PUT /api/tts/config',
+        'admin:lexicons': '/api/tts/lexicons 下的 POST / PUT / DELETE',
+        'admin:usage': 'GET /api/tts/usage 返回全部客户端'
+      },
+      public: ['/', '/api/docs', '/health/*', '/metrics']
+    },
     endpoints: {
       'POST /api/tts/synthesize': {
         description: '语音合成（返回完整音频文件）',
         body: {
-          text: 'string (required) - 要合成的文本',
+          text: 'string (optional) - 要合成的文本（与 ssml 二选一）',
+          ssml: 'string (optional) - SSML 标记（与 text 二选一），支持 speak/p/s/break/prosody/emphasis/voice/say-as/sub',
           sessionId: 'string (optional) - 会话ID',
-          voiceId: 'string (optional) - 语音ID',
-          speed: 'number (optional) - 语速 0.5-2.0'
+          voiceId: 'string (optional) - 语音ID（仅作用于本次请求）',
+          speed: 'number (optional) - 语速 0.5-2.0（仅作用于本次请求）',
+          sampleRate: 'number (optional) - 输出采样率 8000/11025/12000/16000/22050/24000/32000/44100/48000（仅作用于本次请求）',
+          channels: 'number (optional) - 输出声道数 1/2（仅作用于本次请求）',
+          format: 'string (optional) - 输出格式 wav/pcm/mp3/opus/mulaw/alaw，也可通过 Accept 头协商',
+          normalize: 'boolean (optional) - 是否在合成前规范化文本（默认 TEXT_NORMALIZE）',
+          locale: 'string (optional) - 规范化语言 auto/zh/en（默认 TEXT_LOCALE）',
+          lexicons: 'string[] (optional) - 按顺序应用的发音词典ID（后面的词典优先）'
         },
-        response: 'audio/wav file'
+        response: 'audio file (Content-Type 与输出格式一致，X-TTS-Cache 响应头为缓存命中状态)'
       },
       'POST /api/tts/synthesize-stream': {
         description: '流式语音合成（Server-Sent Events）',
         body: {
-          text: 'string (required) - 要合成的文本',
+          text: 'string (optional) - 要合成的文本（与 ssml 二选一）',
+          ssml: 'string (optional) - SSML 标记（与 text 二选一），支持 speak/p/s/break/prosody/emphasis/voice/say-as/sub',
           sessionId: 'string (optional) - 会话ID',
-          voiceId: 'string (optional) - 语音ID',
-          speed: 'number (optional) - 语速 0.5-2.0'
+          voiceId: 'string (optional) - 语音ID（仅作用于本次请求）',
+          speed: 'number (optional) - 语速 0.5-2.0（仅作用于本次请求）',
+          sampleRate: 'number (optional) - 输出采样率 8000/11025/12000/16000/22050/24000/32000/44100/48000（仅作用于本次请求）',
+          channels: 'number (optional) - 输出声道数 1/2（仅作用于本次请求）',
+          format: 'string (optional) - 输出格式 wav/pcm/mp3/opus/mulaw/alaw',
+          normalize: 'boolean (optional) - 是否在合成前规范化文本（默认 TEXT_NORMALIZE）',
+          locale: 'string (optional) - 规范化语言 auto/zh/en（默认 TEXT_LOCALE）',
+          lexicons: 'string[] (optional) - 按顺序应用的发音词典ID（后面的词典优先）'
+        },
+        headers: {
+          'Last-Event-ID': 'string (optional) - 断线重连时最后收到的事件ID，流仍可恢复时从下一个事件继续（不重新合成、不重复计费）'
         },
-        response: 'Server-Sent Events stream'
+        response: 'Server-Sent Events stream（长文本按句切分流水线合成，audioChunk 带 segmentIndex，每句结束时发送 segmentComplete；每个事件带 id: <sessionId>:<序号>，空闲时发送心跳注释行）'
       },
-      'POST /api/tts/stop': {
-        description: '停止当前语音合成',
+      'GET /api/tts/synthesize-stream/:sessionId': {
+        description: '重新连接流式语音合成（断开后 SSE_RESUME_GRACE_MS 内有效，可直接用于 EventSource）',
+        headers: {
+          'Last-Event-ID': 'string (optional) - 最后收到的事件ID，也可使用 lastEventId 查询参数'
+        },
+        response: '先发送 resumed 事件，再重放之后的事件；流不存在返回 404，已全部收到返回 204，事件已移出重放缓冲区返回 410'
+      },
+      'WS /api/tts/ws': {
+        description: '增量文本语音合成（WebSocket，文本边生成边发送）',
+        messages: {
+          start: '{ type: "start", sessionId?, voiceId?, speed?, sampleRate?, channels?, format?, normalize?, locale?, lexicons? } - 开始会话',
+          append: '{ type: "append", text: string } - 追加文本片段，凑满一句即提交合成',
+          flush: '{ type: "flush" } - 提交尚未结束的句子',
+          end: '{ type: "end" } - 提交剩余文本并结束输入',
+          stop: '{ type: "stop", mode? } - 停止合成（mode 为 immediate 或 sentence，sentence 等当前句子输出完后停止）'
+        },
+        response: 'JSON事件 start/audioFormat/chunk/sentenceDone/complete/stopped/error，chunk 事件后跟二进制音频帧'
+      },
+      'POST /api/tts/normalize': {
+        description: '文本规范化预览（不合成）',
+        body: {
+          text: 'string (required) - 要规范化的文本',
+          locale: 'string (optional) - 规范化语言 auto/zh/en',
+          lexicons: 'string[] (optional) - 按顺序应用的发音词典ID'
+        },
+        response: '{ success: boolean, data: { text: string, normalized: string, locale: string, segments: Array<{ text, normalized }> } }'
+      },
+      'GET /api/tts/lexicons': {
+        description: '获取发音词典列表',
+        response: '{ success: boolean, data: Array<{ id, name, description, entryCount, createdAt, updatedAt }> }'
+      },
+      'POST /api/tts/lexicons': {
+        description: '创建发音词典',
+        body: {
+          id: 'string (optional) - 词典ID，未提供时自动生成',
+          name: 'string (optional) - 名称',
+          description: 'string (optional) - 描述',
+          entries: 'Array<{ grapheme: string, replacement?: string, pinyin?: string }> (optional) - 词条，replacement 与 pinyin（数字标调，如 "chong2 qing4"）二选一'
+        },
+        response: '{ success: boolean, data: Lexicon }'
+      },
+      'GET /api/tts/lexicons/:id': {
+        description: '获取发音词典（含词条）',
+        response: '{ success: boolean, data: Lexicon }'
+      },
+      'PUT /api/tts/lexicons/:id': {
+        description: '更新发音词典（提供 entries 时整体替换词条）',
+        body: {
+          name: 'string (optional) - 名称',
+          description: 'string (optional) - 描述',
+          entries: 'LexiconEntry[] (optional) - 词条'
+        },
+        response: '{ success: boolean, data: Lexicon }'
+      },
+      'DELETE /api/tts/lexicons/:id': {
+        description: '删除发音词典',
         response: '{ success: boolean, message: string }'
       },
+      'POST /api/tts/lexicons/:id/entries': {
+        description: '新增或覆盖词条（按 grapheme 合并）',
+        body: {
+          entries: 'LexiconEntry[] (required) - 词条'
+        },
+        response: '{ success: boolean, data: Lexicon }'
+      },
+      'DELETE /api/tts/lexicons/:id/entries/:grapheme': {
+        description: '删除词条（grapheme 需要 URL 编码）',
+        response: '{ success: boolean, data: Lexicon }'
+      },
+      'POST /api/tts/stop': {
+        description: '停止语音合成（指定sessionId时只停止该会话）',
+        body: {
+          sessionId: 'string (optional) - 会话ID'
+        },
+        response: '{ success: boolean, message: string, stopped: number }'
+      },
+      'POST /api/tts/sessions/:sessionId/stop': {
+        description: '停止单个会话（打断），只能停止自己创建的会话（admin:stop 可停止任意会话）',
+        body: {
+          mode: 'string (optional) - immediate（默认）立即停止；sentence 丢弃排队的句子，正在输出的句子输出完后停止'
+        },
+        response: '{ success: boolean, message: string, data: { sessionId, mode, state, deliveredMs, audioBytes, completedSegments, segmentCount } }（会话结束后返回，deliveredMs 为停止前已输出的音频时长）'
+      },
       'GET /api/tts/status': {
         description: '获取TTS服务状态',
         response: '{ success: boolean, data: object }'
       },
+      'GET|POST /api/tts/stream.{wav,mp3,ogg,pcm,ulaw,alaw}': {
+        description: '原始音频流（分块传输的音频字节，不经过 base64/SSE，不压缩）；扩展名决定输出格式',
+        body: '同 /synthesize；GET 请求使用同名查询参数（normalize=true|false，lexicons 以逗号分隔）',
+        response: 'chunked audio（开始输出前的错误返回 JSON，之后出错时中断连接）'
+      },
+      'POST /api/tts/batch': {
+        description: '批量合成（有界并发，单条失败不影响其余条目）',
+        body: {
+          items: 'Array<{ id, text, voiceId?, speed?, format? }> (required) - 1-BATCH_MAX_ITEMS 个条目，id 作为归档中的文件名',
+          '...': '其余合成参数同 /synthesize，作为各条目的默认值'
+        },
+        response: 'application/zip（manifest.json 及 <id>.<扩展名> 音频文件）'
+      },
+      'POST /api/tts/jobs': {
+        description: '提交异步合成任务（立即返回任务ID，请求体同 /synthesize，不接受 sessionId）',
+        body: {
+          callbackUrl: 'string (optional) - 任务结束后 POST 签名通知的地址，需配置 WEBHOOK_SECRET',
+          callbackAudio: 'string (optional) - 通知中的音频：url（下载地址，默认）/ inline（base64）'
+        },
+        response: '202 { success: boolean, data: { jobId, state, progress, queuePosition, ... } }'
+      },
+      'GET /api/tts/jobs/:id': {
+        description: '查询合成任务的状态和进度（queued/running/completed/failed/cancelled）',
+        response: '{ success: boolean, data: { jobId, state, progress, params, result, error, callback, createdAt, startedAt, finishedAt, expiresAt } }'
+      },
+      'GET /api/tts/jobs/:id/audio': {
+        description: '下载已完成任务的音频（未完成时返回 409）',
+        response: 'audio file'
+      },
+      'DELETE /api/tts/jobs/:id': {
+        description: '取消排队中或合成中的任务，已结束的任务删除其状态和音频',
+        response: '{ success: boolean, data: JobInfo }'
+      },
+      'GET /api/tts/usage': {
+        description: '获取用量配额的使用情况（admin:usage 权限或未启用认证时返回全部客户端）',
+        response: '{ success: boolean, data: { limits, windows, client, clients: Array<{ client, usage, remaining, totals, lastSeen }> } }'
+      },
       'PUT /api/tts/config': {
-        description: '更新TTS配置',
+        description: '更新TTS默认配置',
         body: {
           voiceId: 'string (optional) - 语音ID',
           speed: 'number (optional) - 语速',
@@ -181,8 +359,20 @@ app.get('/api/docs', (req: Request, res: Response) => {
         response: '{ status: string, timestamp: string, uptime: number }'
       },
       'GET /health/detailed': {
-        description: '详细健康检查',
+        description: '详细健康检查（含上游探测结果）',
         response: 'HealthStatus object'
+      },
+      'GET /health/readiness': {
+        description: '就绪检查（上游连续探测失败 HEALTH_FAILURE_THRESHOLD 次后返回 503）',
+        response: '{ ready: boolean, timestamp: string, checks: object, coze: UpstreamHealthStatus }'
+      },
+      'GET /health/liveness': {
+        description: '存活检查',
+        response: '{ alive: boolean, timestamp: string, uptime: number, pid: number }'
+      },
+      'GET /metrics': {
+        description: 'Prometheus 指标（请求数、合成延迟、字符数、音频时长、活动会话、上游错误、缓存命中率、限流和配额拒绝）',
+        response: 'text/plain; version=0.0.4'
       }
     },
     examples: {
@@ -0,0 +1,111 @@
+// 音频处理管线 - 将上游 PCM 流逐块转换为请求的音频规格和输出格式
+// 上游 PCM -> 声道转换 -> 重采样 -> 编码
+import { AudioSpec } from '../types/tts';
+import { OutputFormat } from './formats';
+import { AudioEncoder, createAudioEncoder } from './encoders';
+import { PcmFrameReader, deinterleave, interleave } from './pcm';
+import { StreamingResampler } from './resampler';
+import { getPcmDurationMs } from './wav';
+
+// 管线的输出要求，未指定的采样率/声道数沿用输入
+export interface PipelineOutput {
+  format: OutputFormat;
+  sampleRate?: number;
+  channels?: number;
+}
+
+export class AudioPipeline {
+  readonly inputSpec: AudioSpec;
+  readonly outputSpec: AudioSpec;
+  readonly format: OutputFormat;
+  private readonly encoder: AudioEncoder;
+  private readonly reader: PcmFrameReader | null;
+  private readonly resampler: StreamingResampler | null;
+  private pcmBytes: number = 0;
+  private closed: boolean = false;
+
+  private constructor(inputSpec: AudioSpec, outputSpec: AudioSpec, encoder: AudioEncoder) {
+    this.inputSpec = inputSpec;
+    this.outputSpec = outputSpec;
+    this.format = encoder.format;
+    this.encoder = encoder;
+
+    const convertChannels = inputSpec.channels !== outputSpec.channels;
+    const resample = inputSpec.sampleRate !== outputSpec.sampleRate;
+
+    // 规格一致时直接透传给编码器
+    this.reader = convertChannels || resample ? new PcmFrameReader(inputSpec.channels) : null;
+    this.resampler = resample
+      ? new StreamingResampler(inputSpec.sampleRate, outputSpec.sampleRate, outputSpec.channels)
+      : null;
+  }
+
+  // 创建管线（部分编码器需要异步加载）
+  static async create(inputSpec: AudioSpec, output: PipelineOutput): Promise<AudioPipeline> {
+    if (inputSpec.bitDepth !== 16) {
+      throw new Error(`不支持的PCM位深: ${inputSpec.bitDepth}`);
+    }
+
+    const outputSpec: AudioSpec = {
+      sampleRate: output.sampleRate ?? inputSpec.sampleRate,
+      channels: output.channels ?? inputSpec.channels,
+      bitDepth: 16
+    };
+    const encoder = await createAudioEncoder(output.format, outputSpec);
+    return new AudioPipeline(inputSpec, outputSpec, encoder);
+  }
+
+  get mimeType(): string {
+    return this.encoder.mimeType;
+  }
+
+  get extension(): string {
+    return this.encoder.extension;
+  }
+
+  // 处理一块上游 PCM，返回编码后的输出（可能为空）
+  process(pcm: Buffer): Buffer {
+    this.pcmBytes += pcm.length;
+
+    if (!this.reader) {
+      return this.encoder.encode(pcm);
+    }
+
+    const samples = this.reader.read(pcm);
+    if (samples.length === 0) {
+      return Buffer.alloc(0);
+    }
+
+    let planes = deinterleave(samples, this.inputSpec.channels, this.outputSpec.channels);
+    if (this.resampler) {
+      planes = this.resampler.process(planes);
+    }
+    return this.encoder.encode(interleave(planes));
+  }
+
+  // 输出剩余数据
+  flush(): Buffer {
+    const tail = this.resampler ? this.encoder.encode(interleave(this.resampler.flush())) : Buffer.alloc(0);
+    const output = Buffer.concat([tail, this.encoder.flush()]);
+    this.close();
+    return output;
+  }
+
+  // 修正完整输出的文件头
+  finalize(output: Buffer): Buffer {
+    return this.encoder.finalize(output);
+  }
+
+  // 已处理音频的时长（毫秒）
+  getDurationMs(): number {
+    return getPcmDurationMs(this.pcmBytes, this.inputSpec);
+  }
+
+  close(): void {
+    if (!this.closed) {
+      this.closed = true;
+      this.reader?.reset();
+      this.encoder.close();
+    }
+  }
+}
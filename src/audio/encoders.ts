@@ -0,0 +1,321 @@
+// 音频编码器 - 将上游 16 位 PCM 逐块转码为各输出格式
+import fs from 'fs';
+import OpusScript from 'opusscript';
+import { createEncoder, WasmMediaEncoder } from 'wasm-media-encoders';
+import { AudioSpec } from '../types/tts';
+import { OutputFormat, OPUS_SAMPLE_RATES, getMimeType, getFileExtension } from './formats';
+import { createStreamingWavHeader, patchWavSizes } from './wav';
+import { encodeG711 } from './g711';
+import { OggPageWriter } from './ogg';
+import { PcmFrameReader, samplesToBuffer } from './pcm';
+
+// 流式音频编码器
+export interface AudioEncoder {
+  readonly format: OutputFormat;
+  readonly mimeType: string;
+  readonly extension: string;
+  // 编码一段 PCM，数据不足一帧时可能返回空 Buffer
+  encode(pcm: Buffer): Buffer;
+  // 输出内部缓冲的剩余数据
+  flush(): Buffer;
+  // 根据完整输出修正文件头（如 WAV 的长度字段）
+  finalize(output: Buffer): Buffer;
+  // 释放编码器资源
+  close(): void;
+}
+
+const EMPTY = Buffer.alloc(0);
+
+// 编码器基类：负责把任意切分的字节流对齐到完整的采样帧
+abstract class PcmEncoder implements AudioEncoder {
+  readonly format: OutputFormat;
+  readonly mimeType: string;
+  readonly extension: string;
+  protected readonly spec: AudioSpec;
+  private readonly reader: PcmFrameReader;
+
+  constructor(format: OutputFormat, spec: AudioSpec) {
+    if (spec.bitDepth !== 16) {
+      throw new Error(`不支持的PCM位深: ${spec.bitDepth}`);
+    }
+
+    this.format = format;
+    this.spec = spec;
+    this.reader = new PcmFrameReader(spec.channels);
+    this.mimeType = getMimeType(format, spec);
+    this.extension = getFileExtension(format);
+  }
+
+  encode(pcm: Buffer): Buffer {
+    const samples = this.reader.read(pcm);
+    return samples.length > 0 ? this.encodeSamples(samples) : EMPTY;
+  }
+
+  flush(): Buffer {
+    // 不完整的采样帧直接丢弃
+    this.reader.reset();
+    return this.flushSamples();
+  }
+
+  finalize(output: Buffer): Buffer {
+    return output;
+  }
+
+  close(): void {
+    this.reader.reset();
+  }
+
+  protected abstract encodeSamples(samples: Int16Array): Buffer;
+
+  protected flushSamples(): Buffer {
+    return EMPTY;
+  }
+}
+
+// 原始 PCM（透传）
+class RawPcmEncoder extends PcmEncoder {
+  protected encodeSamples(samples: Int16Array): Buffer {
+    return samplesToBuffer(samples);
+  }
+}
+
+// WAV：首块带流式文件头，完整输出时回填长度
+class WavEncoder extends PcmEncoder {
+  private headerSent: boolean = false;
+
+  protected encodeSamples(samples: Int16Array): Buffer {
+    return this.withHeader(samplesToBuffer(samples));
+  }
+
+  protected flushSamples(): Buffer {
+    // 没有任何音频时也要输出合法的文件头
+    return this.withHeader(EMPTY);
+  }
+
+  finalize(output: Buffer): Buffer {
+    return patchWavSizes(output);
+  }
+
+  private withHeader(data: Buffer): Buffer {
+    if (this.headerSent) {
+      return data;
+    }
+
+    this.headerSent = true;
+    return Buffer.concat([createStreamingWavHeader(this.spec), data]);
+  }
+}
+
+// G.711 μ-law / A-law
+class G711Encoder extends PcmEncoder {
+  protected encodeSamples(samples: Int16Array): Buffer {
+    return encodeG711(samples, this.format === 'alaw' ? 'alaw' : 'mulaw');
+  }
+}
+
+// MP3（LAME，WebAssembly）
+class Mp3Encoder extends PcmEncoder {
+  private readonly encoder: WasmMediaEncoder<'audio/mpeg'>;
+
+  constructor(spec: AudioSpec, encoder: WasmMediaEncoder<'audio/mpeg'>) {
+    super('mp3', spec);
+    if (spec.channels !== 1 && spec.channels !== 2) {
+      throw new Error(`MP3不支持${spec.channels}声道`);
+    }
+
+    this.encoder = encoder;
+    this.encoder.configure({
+      channels: spec.channels,
+      sampleRate: spec.sampleRate,
+      bitrate: spec.channels === 1 ? 64 : 128
+    });
+  }
+
+  protected encodeSamples(samples: Int16Array): Buffer {
+    const channels = this.spec.channels;
+    const frames = samples.length / channels;
+    const planes = Array.from({ length: channels }, () => new Float32Array(frames));
+
+    for (let i = 0; i < frames; i++) {
+      for (let ch = 0; ch < channels; ch++) {
+        planes[ch][i] = samples[i * channels + ch] / 32768;
+      }
+    }
+
+    // 编码器复用内部输出缓冲区，必须立即复制
+    return Buffer.from(this.encoder.encode(planes));
+  }
+
+  protected flushSamples(): Buffer {
+    return Buffer.from(this.encoder.finalize());
+  }
+}
+
+// Opus 编码参数
+type OpusSampleRate = 8000 | 12000 | 16000 | 24000 | 48000;
+const OPUS_FRAME_MS = 20;
+const OPUS_PRE_SKIP = 312;
+const OPUS_VENDOR = 'streaming-tts-service';
+
+// Ogg/Opus（RFC 7845），每个 Opus 包 20ms
+class OggOpusEncoder extends PcmEncoder {
+  private readonly opus: OpusScript;
+  private readonly ogg: OggPageWriter = new OggPageWriter();
+  private readonly frameSamples: number;
+  private readonly granuleStep: bigint;
+  private pending: Int16Array = new Int16Array(0);
+  private heldPacket: Buffer | null = null;
+  private packets: number = 0;
+  private inputFrames: number = 0;
+  private headersSent: boolean = false;
+  private released: boolean = false;
+
+  constructor(spec: AudioSpec) {
+    super('opus', spec);
+    if (!OPUS_SAMPLE_RATES.includes(spec.sampleRate)) {
+      throw new Error(`Opus不支持采样率 ${spec.sampleRate}Hz，可用采样率: ${OPUS_SAMPLE_RATES.join('/')}`);
+    }
+    if (spec.channels !== 1 && spec.channels !== 2) {
+      throw new Error(`Opus不支持${spec.channels}声道`);
+    }
+
+    this.opus = new OpusScript(spec.sampleRate as OpusSampleRate, spec.channels, OpusScript.Application.VOIP);
+    this.opus.setBitrate(spec.channels === 1 ? 32000 : 64000);
+    this.frameSamples = (spec.sampleRate * OPUS_FRAME_MS) / 1000;
+    // Ogg/Opus 的 granule position 始终以 48kHz 计数
+    this.granuleStep = BigInt((48000 * OPUS_FRAME_MS) / 1000);
+  }
+
+  protected encodeSamples(samples: Int16Array): Buffer {
+    this.inputFrames += samples.length / this.spec.channels;
+
+    const data = new Int16Array(this.pending.length + samples.length);
+    data.set(this.pending);
+    data.set(samples, this.pending.length);
+
+    const frameLength = this.frameSamples * this.spec.channels;
+    const pages: Buffer[] = [this.headers()];
+    let offset = 0;
+
+    while (data.length - offset >= frameLength) {
+      pages.push(this.pushPacket(this.encodeFrame(data.subarray(offset, offset + frameLength))));
+      offset += frameLength;
+    }
+
+    this.pending = data.slice(offset);
+    return Buffer.concat(pages);
+  }
+
+  protected flushSamples(): Buffer {
+    const pages: Buffer[] = [this.headers()];
+
+    // 不足一帧的尾部补零后编码
+    if (this.pending.length > 0) {
+      const frame = new Int16Array(this.frameSamples * this.spec.channels);
+      frame.set(this.pending);
+      this.pending = new Int16Array(0);
+      pages.push(this.pushPacket(this.encodeFrame(frame)));
+    }
+
+    // 编码器有前瞻延迟，补静音帧直到输入的全部采样都已输出
+    const endGranule = BigInt(OPUS_PRE_SKIP) +
+      BigInt(Math.round((this.inputFrames * 48000) / this.spec.sampleRate));
+    while (this.inputFrames > 0 && BigInt(this.packets) * this.granuleStep < endGranule) {
+      pages.push(this.pushPacket(this.encodeFrame(new Int16Array(this.frameSamples * this.spec.channels))));
+    }
+
+    // 最后一个包带 EOS 标志，granule position 裁掉补零部分
+    if (this.heldPacket) {
+      pages.push(this.ogg.writePacket(this.heldPacket, endGranule, { eos: true }));
+      this.heldPacket = null;
+    }
+
+    this.close();
+    return Buffer.concat(pages);
+  }
+
+  close(): void {
+    super.close();
+    if (!this.released) {
+      this.released = true;
+      this.opus.delete();
+    }
+  }
+
+  private encodeFrame(frame: Int16Array): Buffer {
+    return Buffer.from(this.opus.encode(samplesToBuffer(frame), this.frameSamples));
+  }
+
+  // 始终保留最后一个包，以便结束时为其加上 EOS 标志
+  private pushPacket(packet: Buffer): Buffer {
+    const previous = this.heldPacket;
+    this.heldPacket = packet;
+    this.packets++;
+
+    if (!previous) {
+      return EMPTY;
+    }
+
+    return this.ogg.writePacket(previous, BigInt(this.packets - 1) * this.granuleStep);
+  }
+
+  // OpusHead 与 OpusTags 头页
+  private headers(): Buffer {
+    if (this.headersSent) {
+      return EMPTY;
+    }
+    this.headersSent = true;
+
+    const head = Buffer.alloc(19);
+    head.write('OpusHead', 0, 'ascii');
+    head.writeUInt8(1, 8);
+    head.writeUInt8(this.spec.channels, 9);
+    head.writeUInt16LE(OPUS_PRE_SKIP, 10);
+    head.writeUInt32LE(this.spec.sampleRate, 12);
+    head.writeInt16LE(0, 16);
+    head.writeUInt8(0, 18);
+
+    const vendor = Buffer.from(OPUS_VENDOR, 'utf8');
+    const tags = Buffer.alloc(8 + 4 + vendor.length + 4);
+    tags.write('OpusTags', 0, 'ascii');
+    tags.writeUInt32LE(vendor.length, 8);
+    vendor.copy(tags, 12);
+    tags.writeUInt32LE(0, 12 + vendor.length);
+
+    return Buffer.concat([
+      this.ogg.writePacket(head, BigInt(0), { bos: true }),
+      this.ogg.writePacket(tags, BigInt(0))
+    ]);
+  }
+}
+
+// MP3 编码器的 WebAssembly 模块只编译一次，之后复用
+let mp3Wasm: Parameters<typeof createEncoder>[1] | null = null;
+
+const createMp3WasmEncoder = (): Promise<WasmMediaEncoder<'audio/mpeg'>> => {
+  if (mp3Wasm) {
+    return createEncoder('audio/mpeg', mp3Wasm);
+  }
+
+  const wasmBytes = fs.readFileSync(require.resolve('wasm-media-encoders/wasm/mp3'));
+  return createEncoder('audio/mpeg', wasmBytes, (module) => {
+    mp3Wasm = module;
+  });
+};
+
+// 创建指定输出格式的编码器
+export const createAudioEncoder = async (format: OutputFormat, spec: AudioSpec): Promise<AudioEncoder> => {
+  switch (format) {
+    case 'wav':
+      return new WavEncoder(format, spec);
+    case 'pcm':
+      return new RawPcmEncoder(format, spec);
+    case 'mulaw':
+    case 'alaw':
+      return new G711Encoder(format, spec);
+    case 'mp3':
+      return new Mp3Encoder(spec, await createMp3WasmEncoder());
+    case 'opus':
+      return new OggOpusEncoder(spec);
+  }
+};
@@ -0,0 +1,115 @@
+// 音频输出格式与 MIME 类型映射
+import { AudioSpec } from '../types/tts';
+
+// 支持的输出格式
+export type OutputFormat = 'wav' | 'pcm' | 'mp3' | 'opus' | 'mulaw' | 'alaw';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['wav', 'pcm', 'mp3', 'opus', 'mulaw', 'alaw'];
+
+// 上游统一使用的音频格式，其他输出格式均由服务端转码得到
+export const UPSTREAM_FORMAT = 'pcm';
+
+// 可请求的输出采样率
+export const OUTPUT_SAMPLE_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000];
+
+// Opus 编码器只支持的采样率
+export const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+
+// 可请求的输出声道数
+export const OUTPUT_CHANNELS = [1, 2];
+
+// 格式别名
+const FORMAT_ALIASES: Record<string, OutputFormat> = {
+  wave: 'wav',
+  raw: 'pcm',
+  ogg: 'opus',
+  ogg_opus: 'opus',
+  ulaw: 'mulaw',
+  pcmu: 'mulaw',
+  pcma: 'alaw'
+};
+
+// 可通过 Accept 头协商的 MIME 类型
+const MIME_TYPE_FORMATS: Record<string, OutputFormat> = {
+  'audio/wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/pcm': 'pcm',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/ogg': 'opus',
+  'audio/opus': 'opus',
+  'audio/basic': 'mulaw',
+  'audio/pcmu': 'mulaw',
+  'audio/pcma': 'alaw'
+};
+
+const FORMAT_EXTENSIONS: Record<OutputFormat, string> = {
+  wav: 'wav',
+  pcm: 'pcm',
+  mp3: 'mp3',
+  opus: 'ogg',
+  mulaw: 'ulaw',
+  alaw: 'alaw'
+};
+
+// 规范化格式名称，不支持的格式返回 null
+export const normalizeFormat = (format: unknown): OutputFormat | null => {
+  if (typeof format !== 'string') {
+    return null;
+  }
+
+  const name = format.trim().toLowerCase();
+  if ((OUTPUT_FORMATS as string[]).includes(name)) {
+    return name as OutputFormat;
+  }
+
+  return FORMAT_ALIASES[name] || null;
+};
+
+// 可用于 req.accepts() 的 MIME 类型列表
+export const ACCEPTABLE_MIME_TYPES = Object.keys(MIME_TYPE_FORMATS);
+
+// 根据 MIME 类型获取输出格式
+export const getFormatFromMimeType = (mimeType: string): OutputFormat | null => {
+  return MIME_TYPE_FORMATS[mimeType.split(';')[0].trim().toLowerCase()] || null;
+};
+
+// 获取输出格式的 MIME 类型（无文件头的格式附带采样率和声道参数）
+export const getMimeType = (format: OutputFormat, spec: AudioSpec): string => {
+  switch (format) {
+    case 'wav':
+      return 'audio/wav';
+    case 'pcm':
+      return `audio/pcm;rate=${spec.sampleRate};channels=${spec.channels};encoding=s${spec.bitDepth}le`;
+    case 'mp3':
+      return 'audio/mpeg';
+    case 'opus':
+      return 'audio/ogg; codecs=opus';
+    case 'mulaw':
+      return `audio/PCMU;rate=${spec.sampleRate};channels=${spec.channels}`;
+    case 'alaw':
+      return `audio/PCMA;rate=${spec.sampleRate};channels=${spec.channels}`;
+  }
+};
+
+export const getFileExtension = (format: OutputFormat): string => {
+  return FORMAT_EXTENSIONS[format];
+};
+
+// 检查输出格式与音频规格的组合是否可用，不可用时返回原因
+export const checkOutputSpec = (format: OutputFormat, sampleRate: number, channels: number): string | null => {
+  if (!OUTPUT_SAMPLE_RATES.includes(sampleRate)) {
+    return `不支持的采样率 ${sampleRate}Hz，可用采样率: ${OUTPUT_SAMPLE_RATES.join(', ')}`;
+  }
+
+  if (!OUTPUT_CHANNELS.includes(channels)) {
+    return `不支持的声道数 ${channels}，可用声道数: ${OUTPUT_CHANNELS.join(', ')}`;
+  }
+
+  if (format === 'opus' && !OPUS_SAMPLE_RATES.includes(sampleRate)) {
+    return `Opus不支持采样率 ${sampleRate}Hz，可用采样率: ${OPUS_SAMPLE_RATES.join(', ')}`;
+  }
+
+  return null;
+};
@@ -0,0 +1,46 @@
+// G.711 μ-law / A-law 编码（ITU-T G.711），用于电话信道
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+// 16 位线性 PCM 采样 -> 8 位 μ-law
+export const linearToMulaw = (sample: number): number => {
+  const sign = sample < 0 ? 0x80 : 0;
+  let magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+};
+
+// 16 位线性 PCM 采样 -> 8 位 A-law
+export const linearToAlaw = (sample: number): number => {
+  const sign = sample >= 0 ? 0x80 : 0;
+  const magnitude = Math.min(sample >= 0 ? sample : -sample - 1, 32767) >> 3;
+
+  let compressed: number;
+  if (magnitude < 32) {
+    compressed = magnitude >> 1;
+  } else {
+    let exponent = 1;
+    while ((magnitude >> (exponent + 5)) > 0 && exponent < 7) {
+      exponent++;
+    }
+    compressed = (exponent << 4) | ((magnitude >> exponent) & 0x0f);
+  }
+
+  return (sign | compressed) ^ 0x55;
+};
+
+// 批量编码 16 位 PCM 采样
+export const encodeG711 = (samples: Int16Array, law: 'mulaw' | 'alaw'): Buffer => {
+  const encode = law === 'mulaw' ? linearToMulaw : linearToAlaw;
+  const output = Buffer.alloc(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    output[i] = encode(samples[i]);
+  }
+  return output;
+};
@@ -0,0 +1,66 @@
+// Ogg 容器封装（RFC 3533），每个 Ogg 页只承载一个数据包以便流式输出
+
+// Ogg 使用的 CRC32（多项式 0x04c11db7，不反转）
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let j = 0; j < 8; j++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc32 = (data: Buffer): number => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+};
+
+// 页头标志位
+const FLAG_BOS = 0x02;
+const FLAG_EOS = 0x04;
+
+export class OggPageWriter {
+  private readonly serialNumber: number;
+  private sequence: number = 0;
+
+  constructor(serialNumber: number = Math.floor(Math.random() * 0xffffffff)) {
+    this.serialNumber = serialNumber >>> 0;
+  }
+
+  // 将一个数据包写为一个 Ogg 页
+  writePacket(packet: Buffer, granulePosition: bigint, options: { bos?: boolean; eos?: boolean } = {}): Buffer {
+    // 分段表：每段最多 255 字节，恰为 255 整数倍时需要一个 0 长度段结束数据包
+    const segments: number[] = [];
+    let remaining = packet.length;
+    while (remaining >= 255) {
+      segments.push(255);
+      remaining -= 255;
+    }
+    segments.push(remaining);
+
+    if (segments.length > 255) {
+      throw new Error(`Ogg数据包过大: ${packet.length} 字节`);
+    }
+
+    const header = Buffer.alloc(27 + segments.length);
+    header.write('OggS', 0, 'ascii');
+    header.writeUInt8(0, 4);
+    header.writeUInt8((options.bos ? FLAG_BOS : 0) | (options.eos ? FLAG_EOS : 0), 5);
+    header.writeBigUInt64LE(granulePosition, 6);
+    header.writeUInt32LE(this.serialNumber, 14);
+    header.writeUInt32LE(this.sequence++, 18);
+    header.writeUInt32LE(0, 22);
+    header.writeUInt8(segments.length, 26);
+    segments.forEach((size, index) => header.writeUInt8(size, 27 + index));
+
+    const page = Buffer.concat([header, packet]);
+    page.writeUInt32LE(oggCrc32(page), 22);
+    return page;
+  }
+}
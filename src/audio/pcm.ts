@@ -0,0 +1,73 @@
+// 16 位 PCM 采样处理工具
+
+// 将任意切分的字节流对齐为完整的采样帧，不完整的帧留到下一块
+export class PcmFrameReader {
+  private readonly frameBytes: number;
+  private remainder: Buffer = Buffer.alloc(0);
+
+  constructor(channels: number) {
+    this.frameBytes = channels * 2;
+  }
+
+  read(pcm: Buffer): Int16Array {
+    const data = this.remainder.length > 0 ? Buffer.concat([this.remainder, pcm]) : pcm;
+    const usable = data.length - (data.length % this.frameBytes);
+    this.remainder = Buffer.from(data.subarray(usable));
+
+    // 复制到新的 Buffer 以保证 Int16Array 的字节对齐
+    const aligned = Buffer.alloc(usable);
+    data.copy(aligned, 0, 0, usable);
+    return new Int16Array(aligned.buffer, aligned.byteOffset, usable / 2);
+  }
+
+  // 丢弃不完整的采样帧
+  reset(): void {
+    this.remainder = Buffer.alloc(0);
+  }
+}
+
+export const samplesToBuffer = (samples: Int16Array): Buffer => {
+  return Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+};
+
+// 交错的 16 位采样 -> 各声道的浮点采样，同时完成声道转换
+// 单声道复制到所有声道，多声道下混为单声道时取平均，其他情况按声道序号循环映射
+export const deinterleave = (samples: Int16Array, inputChannels: number, outputChannels: number): Float32Array[] => {
+  const frames = samples.length / inputChannels;
+  const planes = Array.from({ length: outputChannels }, () => new Float32Array(frames));
+
+  for (let i = 0; i < frames; i++) {
+    const offset = i * inputChannels;
+
+    if (outputChannels === 1 && inputChannels > 1) {
+      let sum = 0;
+      for (let ch = 0; ch < inputChannels; ch++) {
+        sum += samples[offset + ch];
+      }
+      planes[0][i] = sum / inputChannels / 32768;
+      continue;
+    }
+
+    for (let ch = 0; ch < outputChannels; ch++) {
+      planes[ch][i] = samples[offset + (ch % inputChannels)] / 32768;
+    }
+  }
+
+  return planes;
+};
+
+// 各声道的浮点采样 -> 交错的 16 位 PCM（四舍五入并限幅）
+export const interleave = (planes: Float32Array[]): Buffer => {
+  const channels = planes.length;
+  const frames = channels > 0 ? planes[0].length : 0;
+  const samples = new Int16Array(frames * channels);
+
+  for (let i = 0; i < frames; i++) {
+    for (let ch = 0; ch < channels; ch++) {
+      const value = Math.round(planes[ch][i] * 32768);
+      samples[i * channels + ch] = value > 32767 ? 32767 : value < -32768 ? -32768 : value;
+    }
+  }
+
+  return samplesToBuffer(samples);
+};
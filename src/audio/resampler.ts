@@ -0,0 +1,135 @@
+// 流式重采样器 - 带限 sinc 插值（Blackman 窗）
+// 跨块保留输入历史和输出相位，块边界处与整段一次性重采样的结果一致，不会产生爆音
+
+// 卷积核覆盖的 sinc 过零点数（单侧）
+const ZERO_CROSSINGS = 8;
+// 截止频率相对奈奎斯特频率的余量，留出过渡带以抑制混叠
+const ROLLOFF = 0.92;
+// 卷积核查找表每个输入采样间隔的细分数
+const TABLE_RESOLUTION = 128;
+
+export class StreamingResampler {
+  private readonly inputRate: number;
+  private readonly outputRate: number;
+  private readonly halfWidth: number;
+  private readonly kernel: Float32Array;
+  private history: Float32Array[];
+  // 已从历史缓冲区丢弃的输入采样数
+  private dropped: number = 0;
+  // 已输入的采样总数（不含起始补零）
+  private inputFrames: number = 0;
+  // 已输出的采样总数
+  private outputFrames: number = 0;
+
+  constructor(inputRate: number, outputRate: number, channels: number) {
+    this.inputRate = inputRate;
+    this.outputRate = outputRate;
+
+    // 降采样时按输出采样率的奈奎斯特频率低通，升采样时按输入采样率
+    const cutoff = 0.5 * Math.min(1, outputRate / inputRate) * ROLLOFF;
+    this.halfWidth = Math.ceil(ZERO_CROSSINGS / (2 * cutoff));
+    this.kernel = buildKernel(cutoff, this.halfWidth);
+
+    // 起始补零，使第一个输出采样位于第一个输入采样处
+    this.history = Array.from({ length: channels }, () => new Float32Array(this.halfWidth));
+  }
+
+  // 处理一块各声道的浮点采样
+  process(planes: Float32Array[]): Float32Array[] {
+    this.append(planes);
+    this.inputFrames += planes.length > 0 ? planes[0].length : 0;
+    return this.produce(Infinity);
+  }
+
+  // 输入结束：补零冲洗尾部，输出总长度与输入时长严格对应
+  flush(): Float32Array[] {
+    const expected = Math.round((this.inputFrames * this.outputRate) / this.inputRate);
+    this.append(this.history.map(() => new Float32Array(this.halfWidth + 1)));
+    return this.produce(expected);
+  }
+
+  private append(planes: Float32Array[]): void {
+    this.history = this.history.map((history, ch) => {
+      const merged = new Float32Array(history.length + planes[ch].length);
+      merged.set(history);
+      merged.set(planes[ch], history.length);
+      return merged;
+    });
+  }
+
+  // 第 n 个输出采样在历史缓冲区中的位置（用绝对序号计算，避免浮点累加误差）
+  private positionOf(outputIndex: number): number {
+    return (outputIndex * this.inputRate) / this.outputRate + this.halfWidth - this.dropped;
+  }
+
+  private produce(limit: number): Float32Array[] {
+    const available = this.history[0]?.length ?? 0;
+    const outputs: number[][] = this.history.map(() => []);
+
+    while (this.outputFrames < limit) {
+      const position = this.positionOf(this.outputFrames);
+      const center = Math.floor(position);
+      if (center + this.halfWidth >= available) {
+        break;
+      }
+
+      for (let ch = 0; ch < this.history.length; ch++) {
+        outputs[ch].push(this.convolve(this.history[ch], position, center));
+      }
+      this.outputFrames++;
+    }
+
+    // 丢弃后续输出不再需要的历史采样
+    const keepFrom = Math.floor(this.positionOf(this.outputFrames)) - this.halfWidth + 1;
+    if (keepFrom > 0) {
+      const drop = Math.min(keepFrom, available);
+      this.history = this.history.map(history => history.slice(drop));
+      this.dropped += drop;
+    }
+
+    return outputs.map(values => Float32Array.from(values));
+  }
+
+  private convolve(history: Float32Array, position: number, center: number): number {
+    let sum = 0;
+    for (let k = center - this.halfWidth + 1; k <= center + this.halfWidth; k++) {
+      if (k >= 0) {
+        sum += history[k] * this.kernelAt(position - k);
+      }
+    }
+    return sum;
+  }
+
+  // 查表并线性插值得到卷积核取值
+  private kernelAt(offset: number): number {
+    const index = Math.abs(offset) * TABLE_RESOLUTION;
+    const i = Math.floor(index);
+    if (i + 1 >= this.kernel.length) {
+      return 0;
+    }
+    const frac = index - i;
+    return this.kernel[i] + (this.kernel[i + 1] - this.kernel[i]) * frac;
+  }
+}
+
+// 预计算单侧卷积核：加窗的低通 sinc
+const buildKernel = (cutoff: number, halfWidth: number): Float32Array => {
+  const size = halfWidth * TABLE_RESOLUTION + 2;
+  const kernel = new Float32Array(size);
+
+  for (let i = 0; i < size; i++) {
+    const x = i / TABLE_RESOLUTION;
+    if (x >= halfWidth) {
+      kernel[i] = 0;
+      continue;
+    }
+
+    const arg = 2 * cutoff * x;
+    const sinc = arg === 0 ? 1 : Math.sin(Math.PI * arg) / (Math.PI * arg);
+    const u = x / halfWidth;
+    const window = 0.42 + 0.5 * Math.cos(Math.PI * u) + 0.08 * Math.cos(2 * Math.PI * u);
+    kernel[i] = 2 * cutoff * sinc * window;
+  }
+
+  return kernel;
+};
@@ -0,0 +1,58 @@
+// WAV (RIFF/WAVE) 容器封装
+import { AudioSpec } from '../types/tts';
+
+export const WAV_HEADER_SIZE = 44;
+
+// 生成 PCM WAV 文件头
+export const createWavHeader = (spec: AudioSpec, dataLength: number): Buffer => {
+  const blockAlign = spec.channels * (spec.bitDepth / 8);
+  const byteRate = spec.sampleRate * blockAlign;
+  const header = Buffer.alloc(WAV_HEADER_SIZE);
+
+  // RIFF 块
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataLength, 4);
+  header.write('WAVE', 8, 'ascii');
+
+  // fmt 子块（PCM）
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(spec.channels, 22);
+  header.writeUInt32LE(spec.sampleRate, 24);
+  header.writeUInt32LE(byteRate, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(spec.bitDepth, 34);
+
+  // data 子块
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataLength, 40);
+
+  return header;
+};
+
+// 流式输出使用的 WAV 文件头：总长度未知，长度字段填最大值
+export const createStreamingWavHeader = (spec: AudioSpec): Buffer => {
+  const header = createWavHeader(spec, 0);
+  header.writeUInt32LE(0xffffffff, 4);
+  header.writeUInt32LE(0xffffffff, 40);
+  return header;
+};
+
+// 在完整的 WAV 数据上回填 RIFF 与 data 块的实际长度
+export const patchWavSizes = (wav: Buffer): Buffer => {
+  if (wav.length < WAV_HEADER_SIZE) {
+    return wav;
+  }
+
+  const dataLength = wav.length - WAV_HEADER_SIZE;
+  wav.writeUInt32LE(36 + dataLength, 4);
+  wav.writeUInt32LE(dataLength, 40);
+  return wav;
+};
+
+// 计算 PCM 数据的播放时长（毫秒）
+export const getPcmDurationMs = (byteLength: number, spec: AudioSpec): number => {
+  const bytesPerSecond = spec.sampleRate * spec.channels * (spec.bitDepth / 8);
+  return bytesPerSecond > 0 ? Math.round((byteLength / bytesPerSecond) * 1000) : 0;
+};
@@ -0,0 +1,118 @@
+// API 密钥 - 从 API_KEYS 环境变量和 API_KEYS_FILE 文件加载客户端及其权限范围
+// 只在内存中保存密钥的 SHA-256 摘要，校验时按固定时间比较
+import crypto from 'crypto';
+import fs from 'fs';
+
+// 权限范围：'*' 表示全部权限
+export const API_SCOPES = ['synthesize', 'stream', 'admin:config', 'admin:stop', 'admin:lexicons', 'admin:usage'] as const;
+export type ApiScope = typeof API_SCOPES[number];
+
+// 通过认证的客户端
+export interface ApiClient {
+  id: string;
+  scopes: string[];
+}
+
+// 密钥定义：key 为明文密钥，keySha256 为密钥的 SHA-256 十六进制摘要（文件中推荐使用），二选一
+export interface ApiKeyDefinition {
+  id: string;
+  key?: string;
+  keySha256?: string;
+  scopes: string[];
+}
+
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+const digest = (key: string): Buffer => crypto.createHash('sha256').update(key).digest();
+
+// 解析 API_KEYS：逗号分隔的 "客户端ID:密钥:权限1|权限2"，权限省略时为全部权限
+export const parseApiKeys = (spec: string): ApiKeyDefinition[] => {
+  return spec.split(',').map(item => item.trim()).filter(Boolean).map((item) => {
+    // 权限名本身含冒号（admin:config），只按前两个冒号切分
+    const [id, key, ...rest] = item.split(':');
+    const scopes = rest.join(':');
+    if (!id || !key) {
+      throw new Error(`API_KEYS 格式错误: "${id || item}"，应为 客户端ID:密钥[:权限1|权限2]`);
+    }
+    return { id, key, scopes: scopes ? scopes.split('|').filter(Boolean) : ['*'] };
+  });
+};
+
+// 读取 API_KEYS_FILE：JSON 数组 [{ id, key | keySha256, scopes }]
+export const loadApiKeysFile = (filePath: string): ApiKeyDefinition[] => {
+  const definitions = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  if (!Array.isArray(definitions)) {
+    throw new Error(`API密钥文件 ${filePath} 必须是数组`);
+  }
+  return definitions;
+};
+
+export const hasScope = (client: ApiClient, scope: ApiScope): boolean => {
+  return client.scopes.includes('*') || client.scopes.includes(scope);
+};
+
+export class ApiKeyRegistry {
+  private readonly records: { client: ApiClient; digest: Buffer }[];
+
+  // 定义无效（客户端ID重复、未知权限、缺少密钥）时抛出错误，服务拒绝启动
+  constructor(definitions: ApiKeyDefinition[]) {
+    const ids = new Set<string>();
+    this.records = definitions.map((definition) => {
+      if (!definition || typeof definition.id !== 'string' || !CLIENT_ID_PATTERN.test(definition.id)) {
+        throw new Error(`无效的API客户端ID: ${definition?.id}`);
+      }
+      if (ids.has(definition.id)) {
+        throw new Error(`API客户端ID重复: ${definition.id}`);
+      }
+      ids.add(definition.id);
+
+      const scopes = Array.isArray(definition.scopes) ? definition.scopes : [];
+      const unknown = scopes.filter(scope => scope !== '*' && !(API_SCOPES as readonly string[]).includes(scope));
+      if (scopes.length === 0 || unknown.length > 0) {
+        throw new Error(`API客户端 ${definition.id} 的权限无效: ${unknown.join(', ') || '(空)'}，可用权限: *, ${API_SCOPES.join(', ')}`);
+      }
+
+      let keyDigest: Buffer;
+      if (typeof definition.key === 'string' && definition.key.length > 0) {
+        keyDigest = digest(definition.key);
+      } else if (typeof definition.keySha256 === 'string' && /^[0-9a-f]{64}$/i.test(definition.keySha256)) {
+        keyDigest = Buffer.from(definition.keySha256, 'hex');
+      } else {
+        throw new Error(`API客户端 ${definition.id} 缺少 key 或有效的 keySha256`);
+      }
+
+      return { client: { id: definition.id, scopes: [...scopes] }, digest: keyDigest };
+    });
+  }
+
+  // 未配置任何密钥时不启用认证
+  get enabled(): boolean {
+    return this.records.length > 0;
+  }
+
+  get size(): number {
+    return this.records.length;
+  }
+
+  // 校验密钥，返回对应的客户端，无效时返回 null
+  authenticate(key: string): ApiClient | null {
+    const keyDigest = digest(key);
+    let matched: ApiClient | null = null;
+    // 逐一比较全部记录，耗时与匹配位置无关
+    for (const record of this.records) {
+      if (crypto.timingSafeEqual(record.digest, keyDigest)) {
+        matched = record.client;
+      }
+    }
+    return matched;
+  }
+}
+
+// 合并环境变量和文件中的密钥定义
+export const createApiKeyRegistry = (options: { keys: string; file: string }): ApiKeyRegistry => {
+  const definitions = [
+    ...parseApiKeys(options.keys),
+    ...(options.file ? loadApiKeysFile(options.file) : [])
+  ];
+  return new ApiKeyRegistry(definitions);
+};
@@ -0,0 +1,198 @@
+// 批量合成 - 一次请求合成多条文本，按有界并发依次创建会话，单条失败不影响其余条目
+// 结果打包为 ZIP 归档：每条成功的音频一个文件，另附 manifest.json 记录每条的结果或错误
+import { logger } from '../utils/logger';
+import { createZip } from '../utils/zip';
+import { ApplicationError } from '../middleware/errorHandler';
+import { getErrorDetails, TTSErrorCode } from '../services/TTSError';
+import type { StreamingTTSService } from '../services/StreamingTTSService';
+import type { TTSSession } from '../services/TTSSession';
+import type { SynthesisOptions, SynthesisParams, SynthesisResult } from '../types/tts';
+
+// 批量合成的一条（id 由调用方提供，同时作为归档中的文件名）
+export interface BatchItem {
+  id: string;
+  text: string;
+  options: SynthesisOptions;
+}
+
+export interface BatchItemResult {
+  id: string;
+  status: 'completed' | 'failed';
+  result: SynthesisResult | null;
+  error: { message: string; statusCode: number; code?: TTSErrorCode; upstreamCode?: number | string } | null;
+  elapsedMs: number;
+}
+
+export interface BatchOptions {
+  batchId: string;
+  concurrency: number;
+  onSession?: (session: TTSSession) => void;   // 会话创建后调用（用于计费）
+  signal?: AbortSignal;                        // 客户端断开时中止：停止合成中的会话，未开始的条目不再合成
+}
+
+// manifest.json 的内容
+export interface BatchManifest {
+  batchId: string;
+  createdAt: string;
+  elapsedMs: number;
+  succeeded: number;
+  failed: number;
+  items: Array<{
+    id: string;
+    status: BatchItemResult['status'];
+    file: string | null;               // 归档中的音频文件名
+    format: string | null;
+    mimeType: string | null;
+    size: number | null;
+    durationMs: number | null;
+    cacheStatus: string | null;
+    params: SynthesisParams | null;
+    error: BatchItemResult['error'];
+    elapsedMs: number;
+  }>;
+}
+
+export const MANIFEST_FILE = 'manifest.json';
+
+// 会话管理器的并发名额被占满时，等待多久后重试创建条目的会话（ms）
+const BUSY_RETRY_DELAY = 1000;
+
+// 等待重试间隔，批量合成中止时立即返回
+const waitForRetry = (signal?: AbortSignal): Promise<void> => {
+  return new Promise(resolve => {
+    const done = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, BUSY_RETRY_DELAY);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+};
+
+// 合成全部条目，结果与输入顺序一致
+export const runBatch = async (
+  service: StreamingTTSService,
+  items: BatchItem[],
+  options: BatchOptions
+): Promise<BatchItemResult[]> => {
+  const results: BatchItemResult[] = new Array(items.length);
+  const active: Set<TTSSession> = new Set();
+  let next = 0;
+
+  const abort = (): void => {
+    for (const session of active) {
+      session.stop();
+    }
+  };
+  options.signal?.addEventListener('abort', abort, { once: true });
+
+  // 创建条目的会话；并发名额被实时请求占满时等待后重试，直到创建成功或批量合成中止
+  const createItemSession = async (item: BatchItem, index: number): Promise<TTSSession> => {
+    for (;;) {
+      if (options.signal?.aborted) {
+        throw new ApplicationError('批量合成已中止', 409);
+      }
+      try {
+        return await service.createSession(item.text, { ...item.options, sessionId: `${options.batchId}_${index}` });
+      } catch (error) {
+        if (!(error instanceof ApplicationError) || error.statusCode !== 429) {
+          throw error;
+        }
+        await waitForRetry(options.signal);
+      }
+    }
+  };
+
+  const runItem = async (item: BatchItem, index: number): Promise<BatchItemResult> => {
+    const startTime = Date.now();
+    let session: TTSSession | null = null;
+
+    try {
+      session = await createItemSession(item, index);
+      active.add(session);
+      options.onSession?.(session);
+      // 创建会话期间客户端已断开
+      if (options.signal?.aborted) {
+        session.stop();
+      }
+
+      const result = await session.start();
+      return { id: item.id, status: 'completed', result, error: null, elapsedMs: Date.now() - startTime };
+    } catch (error) {
+      const failure = {
+        message: error instanceof Error ? error.message : String(error),
+        statusCode: error instanceof ApplicationError ? error.statusCode : 500,
+        ...getErrorDetails(error)
+      };
+      logger.warn('[Batch] 批量合成条目失败', { batchId: options.batchId, id: item.id, error: failure });
+      return { id: item.id, status: 'failed', result: null, error: failure, elapsedMs: Date.now() - startTime };
+    } finally {
+      if (session) {
+        active.delete(session);
+      }
+    }
+  };
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await runItem(items[index], index);
+    }
+  };
+
+  try {
+    const workers = Math.max(1, Math.min(options.concurrency, items.length));
+    await Promise.all(Array.from({ length: workers }, () => worker()));
+  } finally {
+    options.signal?.removeEventListener('abort', abort);
+  }
+
+  return results;
+};
+
+// 归档中的音频文件名
+const getFileName = (result: BatchItemResult): string | null => {
+  return result.result ? `${result.id}.${result.result.extension}` : null;
+};
+
+// 生成清单
+export const createManifest = (batchId: string, results: BatchItemResult[], elapsedMs: number): BatchManifest => {
+  const succeeded = results.filter(result => result.status === 'completed').length;
+
+  return {
+    batchId,
+    createdAt: new Date().toISOString(),
+    elapsedMs,
+    succeeded,
+    failed: results.length - succeeded,
+    items: results.map(result => ({
+      id: result.id,
+      status: result.status,
+      file: getFileName(result),
+      format: result.result?.format ?? null,
+      mimeType: result.result?.mimeType ?? null,
+      size: result.result?.audioData.length ?? null,
+      durationMs: result.result?.durationMs ?? null,
+      cacheStatus: result.result?.cacheStatus ?? null,
+      params: result.result?.params ?? null,
+      error: result.error,
+      elapsedMs: result.elapsedMs
+    }))
+  };
+};
+
+// 打包为 ZIP：manifest.json 在前，其后为各条音频
+export const createBatchArchive = (manifest: BatchManifest, results: BatchItemResult[]): Buffer => {
+  const modifiedAt = new Date(manifest.createdAt);
+  const entries = [{ name: MANIFEST_FILE, data: Buffer.from(JSON.stringify(manifest, null, 2)), modifiedAt }];
+
+  for (const result of results) {
+    const name = getFileName(result);
+    if (name && result.result) {
+      entries.push({ name, data: result.result.audioData, modifiedAt });
+    }
+  }
+
+  return createZip(entries);
+};
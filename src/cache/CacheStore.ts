@@ -0,0 +1,31 @@
+// 合成缓存存储接口 - 内存、磁盘等存储实现可互相替换
+import type { SynthesisOutput } from '../types/tts';
+
+// 存储统计信息
+export interface CacheStoreStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+export interface CacheStore {
+  readonly name: string;
+  // 读取缓存，不存在或已过期时返回 null
+  get(key: string): Promise<SynthesisOutput | null>;
+  // 写入缓存，超出容量时按最近最少使用淘汰
+  set(key: string, output: SynthesisOutput): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  getStats(): CacheStoreStats;
+}
+
+// 存储配置
+export interface CacheStoreOptions {
+  maxBytes: number;    // 音频数据的总字节预算
+  ttlMs: number;       // 过期时间，0 表示不过期
+}
+
+// 估算缓存条目占用的字节数（以音频数据为主）
+export const getEntrySize = (output: SynthesisOutput): number => {
+  return output.audioData.length + output.segments.reduce((sum, segment) => sum + segment.text.length * 2, 0);
+};
@@ -0,0 +1,222 @@
+// 磁盘缓存存储 - 每个条目保存为音频文件和元数据文件，进程重启后仍然有效
+// 索引保存在内存中，启动后首次访问时扫描缓存目录重建；按字节预算做 LRU 淘汰
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { SynthesisOutput } from '../types/tts';
+import { logger } from '../utils/logger';
+import { CacheStore, CacheStoreOptions, CacheStoreStats, getEntrySize } from './CacheStore';
+
+// 元数据文件内容（音频数据单独保存）
+type DiskMetadata = Omit<SynthesisOutput, 'audioData'> & {
+  size: number;
+  expiresAt: number | null;
+};
+
+interface DiskEntry {
+  size: number;
+  expiresAt: number;
+}
+
+// 缓存键只允许十六进制摘要，避免路径穿越
+const KEY_PATTERN = /^[0-9a-f]{16,128}$/;
+
+export class DiskCacheStore implements CacheStore {
+  readonly name = 'disk';
+  private readonly options: CacheStoreOptions;
+  private readonly directory: string;
+  private entries: Map<string, DiskEntry> = new Map();
+  private bytes: number = 0;
+  private ready: Promise<void> | null = null;
+
+  constructor(directory: string, options: CacheStoreOptions) {
+    this.directory = path.resolve(directory);
+    this.options = options;
+  }
+
+  async get(key: string): Promise<SynthesisOutput | null> {
+    await this.init();
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return null;
+    }
+
+    try {
+      const [metadataJson, audioData] = await Promise.all([
+        fs.promises.readFile(this.metadataPath(key), 'utf8'),
+        fs.promises.readFile(this.audioPath(key))
+      ]);
+      const { size, expiresAt, ...metadata } = JSON.parse(metadataJson) as DiskMetadata;
+
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return { ...metadata, audioData };
+    } catch (error) {
+      logger.warn('[DiskCacheStore] 读取缓存条目失败，已移除', { key, error });
+      await this.delete(key);
+      return null;
+    }
+  }
+
+  async set(key: string, output: SynthesisOutput): Promise<void> {
+    this.checkKey(key);
+    await this.init();
+
+    const size = getEntrySize(output);
+    if (size > this.options.maxBytes) {
+      return;
+    }
+
+    const expiresAt = this.options.ttlMs > 0 ? Date.now() + this.options.ttlMs : Infinity;
+    const { audioData, ...rest } = output;
+    const metadata: DiskMetadata = {
+      ...rest,
+      size,
+      expiresAt: Number.isFinite(expiresAt) ? expiresAt : null
+    };
+
+    // 先写音频，最后写元数据：重建索引时只认有元数据的条目；写入失败时移除该键已写入的文件
+    try {
+      await this.writeAtomic(this.audioPath(key), audioData);
+      await this.writeAtomic(this.metadataPath(key), JSON.stringify(metadata));
+    } catch (error) {
+      await this.delete(key);
+      throw error;
+    }
+
+    this.forget(key);
+    this.entries.set(key, { size, expiresAt });
+    this.bytes += size;
+
+    for (const oldest of Array.from(this.entries.keys())) {
+      if (this.bytes <= this.options.maxBytes) {
+        break;
+      }
+      await this.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.checkKey(key);
+    this.forget(key);
+    await Promise.all([
+      fs.promises.rm(this.metadataPath(key), { force: true }),
+      fs.promises.rm(this.audioPath(key), { force: true })
+    ]);
+  }
+
+  async clear(): Promise<void> {
+    await this.init();
+    for (const key of Array.from(this.entries.keys())) {
+      await this.delete(key);
+    }
+  }
+
+  getStats(): CacheStoreStats {
+    return {
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.options.maxBytes
+    };
+  }
+
+  // 创建缓存目录并扫描已有条目（按修改时间从旧到新排列，作为初始的 LRU 顺序）
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.loadIndex().catch((error) => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  private async loadIndex(): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const allFiles = await fs.promises.readdir(this.directory);
+    const files = allFiles.filter(file => file.endsWith('.json'));
+    const metadataFiles = new Set(files);
+    const found: Array<{ key: string; entry: DiskEntry; mtime: number }> = [];
+
+    // 移除写入中断留下的临时文件和没有元数据的音频文件，它们不计入字节预算
+    const orphans = allFiles.filter(file => file.endsWith('.tmp') ||
+      (file.endsWith('.audio') && !metadataFiles.has(`${file.slice(0, -'.audio'.length)}.json`)));
+    for (const file of orphans) {
+      await fs.promises.rm(path.join(this.directory, file), { force: true });
+    }
+    if (orphans.length > 0) {
+      logger.warn('[DiskCacheStore] 已移除残留的缓存文件', { directory: this.directory, files: orphans.length });
+    }
+
+    for (const file of files) {
+      const key = file.slice(0, -'.json'.length);
+      if (!KEY_PATTERN.test(key)) {
+        continue;
+      }
+
+      try {
+        const stat = await fs.promises.stat(this.metadataPath(key));
+        const metadata = JSON.parse(await fs.promises.readFile(this.metadataPath(key), 'utf8')) as DiskMetadata;
+        found.push({
+          key,
+          entry: { size: metadata.size, expiresAt: metadata.expiresAt ?? Infinity },
+          mtime: stat.mtimeMs
+        });
+      } catch {
+        await this.delete(key);
+      }
+    }
+
+    found.sort((a, b) => a.mtime - b.mtime);
+    for (const { key, entry } of found) {
+      this.entries.set(key, entry);
+      this.bytes += entry.size;
+    }
+
+    logger.info('[DiskCacheStore] 缓存索引已加载', {
+      directory: this.directory,
+      entries: this.entries.size,
+      bytes: this.bytes
+    });
+  }
+
+  private forget(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.bytes -= entry.size;
+    }
+  }
+
+  private async writeAtomic(file: string, data: Buffer | string): Promise<void> {
+    // 同一个键的并发写入各自使用独立的临时文件
+    const temp = `${file}.${process.pid}.${crypto.randomUUID()}.tmp`;
+    try {
+      await fs.promises.writeFile(temp, data);
+      await fs.promises.rename(temp, file);
+    } catch (error) {
+      await fs.promises.rm(temp, { force: true });
+      throw error;
+    }
+  }
+
+  private checkKey(key: string): void {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`无效的缓存键: ${key}`);
+    }
+  }
+
+  private metadataPath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+
+  private audioPath(key: string): string {
+    return path.join(this.directory, `${key}.audio`);
+  }
+}
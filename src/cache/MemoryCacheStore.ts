@@ -0,0 +1,84 @@
+// 内存缓存存储 - 按字节预算的 LRU，支持过期时间
+import type { SynthesisOutput } from '../types/tts';
+import { CacheStore, CacheStoreOptions, CacheStoreStats, getEntrySize } from './CacheStore';
+
+interface MemoryEntry {
+  output: SynthesisOutput;
+  size: number;
+  expiresAt: number;
+}
+
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory';
+  private readonly options: CacheStoreOptions;
+  // Map 按插入顺序遍历，最近使用的条目移到末尾，淘汰时从头部开始
+  private entries: Map<string, MemoryEntry> = new Map();
+  private bytes: number = 0;
+
+  constructor(options: CacheStoreOptions) {
+    this.options = options;
+  }
+
+  async get(key: string): Promise<SynthesisOutput | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key);
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.output;
+  }
+
+  async set(key: string, output: SynthesisOutput): Promise<void> {
+    const size = getEntrySize(output);
+    if (size > this.options.maxBytes) {
+      return;
+    }
+
+    this.remove(key);
+    this.entries.set(key, {
+      output,
+      size,
+      expiresAt: this.options.ttlMs > 0 ? Date.now() + this.options.ttlMs : Infinity
+    });
+    this.bytes += size;
+
+    for (const oldest of this.entries.keys()) {
+      if (this.bytes <= this.options.maxBytes) {
+        break;
+      }
+      this.remove(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  getStats(): CacheStoreStats {
+    return {
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.options.maxBytes
+    };
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.bytes -= entry.size;
+    }
+  }
+}
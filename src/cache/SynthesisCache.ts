@@ -0,0 +1,121 @@
+// 合成缓存 - 以规范化文本和影响输出的合成参数为键，缓存完整的合成输出
+import crypto from 'crypto';
+import type { SynthesisOutput, SynthesisParams } from '../types/tts';
+import { logger } from '../utils/logger';
+import { CacheStore, CacheStoreStats } from './CacheStore';
+import { MemoryCacheStore } from './MemoryCacheStore';
+import { DiskCacheStore } from './DiskCacheStore';
+
+// 缓存配置
+export interface SynthesisCacheConfig {
+  store: string;       // memory / disk / none
+  maxBytes: number;
+  ttlMs: number;
+  directory: string;   // 磁盘存储目录
+}
+
+// 缓存统计信息
+export interface SynthesisCacheStats extends CacheStoreStats {
+  store: string;
+  ttlMs: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+// 中日韩文字及标点（其间的空白不影响合成结果）
+const CJK_CHARS = '\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef';
+const CJK_SPACING = new RegExp(`\\s+(?=[${CJK_CHARS}])|(?<=[${CJK_CHARS}])\\s+`, 'g');
+
+// 规范化文本：统一 Unicode 兼容字符并合并空白，使仅有空白差异的文本共用缓存
+export const normalizeCacheText = (text: string): string => {
+  return text.normalize('NFKC').replace(CJK_SPACING, '').replace(/\s+/g, ' ').trim();
+};
+
+export class SynthesisCache {
+  private readonly store: CacheStore;
+  private readonly ttlMs: number;
+  private hits: number = 0;
+  private misses: number = 0;
+
+  constructor(store: CacheStore, ttlMs: number) {
+    this.store = store;
+    this.ttlMs = ttlMs;
+  }
+
+  // 缓存键：合成服务提供方、文本、文本规范化设置、发音词典内容、音色、语速以及输出格式和音频规格都会影响合成结果
+  // 词典以词条内容的摘要参与计算，词典修改后旧的缓存不再命中
+  createKey(provider: string, text: string, params: SynthesisParams, lexiconFingerprint: string | null = null): string {
+    const material = JSON.stringify([
+      provider,
+      normalizeCacheText(text),
+      params.voiceId,
+      params.speed,
+      params.format,
+      params.sampleRate,
+      params.channels,
+      params.normalize,
+      params.locale,
+      lexiconFingerprint
+    ]);
+    return crypto.createHash('sha256').update(material).digest('hex');
+  }
+
+  // 读取缓存，存储出错时按未命中处理
+  async get(key: string): Promise<SynthesisOutput | null> {
+    try {
+      const output = await this.store.get(key);
+      if (output) {
+        this.hits++;
+      } else {
+        this.misses++;
+      }
+      return output;
+    } catch (error) {
+      this.misses++;
+      logger.warn('[SynthesisCache] 读取缓存失败:', { key, error });
+      return null;
+    }
+  }
+
+  // 写入缓存，存储出错时只记录日志
+  async set(key: string, output: SynthesisOutput): Promise<void> {
+    try {
+      await this.store.set(key, output);
+    } catch (error) {
+      logger.warn('[SynthesisCache] 写入缓存失败:', { key, error });
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  getStats(): SynthesisCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      store: this.store.name,
+      ttlMs: this.ttlMs,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      ...this.store.getStats()
+    };
+  }
+}
+
+// 根据配置创建缓存，store 为 none 时不启用缓存
+export const createSynthesisCache = (config: SynthesisCacheConfig): SynthesisCache | null => {
+  const options = { maxBytes: config.maxBytes, ttlMs: config.ttlMs };
+
+  switch (config.store) {
+    case 'none':
+      return null;
+    case 'memory':
+      return new SynthesisCache(new MemoryCacheStore(options), config.ttlMs);
+    case 'disk':
+      return new SynthesisCache(new DiskCacheStore(config.directory, options), config.ttlMs);
+    default:
+      throw new Error(`不支持的缓存存储: ${config.store}，可用存储: memory, disk, none`);
+  }
+};
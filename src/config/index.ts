@@ -9,6 +9,9 @@ interface ServiceConfig {
   port: number;
   nodeEnv: string;
   
+  // 合成服务提供方（coze / offline）
+  provider: string;
+  
   // Coze API 配置
   coze: {
     apiToken: string;
@@ -24,6 +27,23 @@ interface ServiceConfig {
     format: string;
   };
   
+  // 文本规范化配置
+  text: {
+    normalize: boolean;
+    locale: string;
+  };
+  
+  // 发音词典配置
+  lexicon: {
+    file: string;
+  };
+  
+  // API 密钥认证配置（未配置任何密钥时不启用认证）
+  auth: {
+    apiKeys: string;
+    apiKeysFile: string;
+  };
+  
   // 安全配置
   security: {
     corsOrigin: string;
@@ -40,19 +60,81 @@ interface ServiceConfig {
   // 健康检查配置
   health: {
     timeout: number;
+    probeInterval: number;
+    failureThreshold: number;
   };
   
   // WebSocket 配置
   websocket: {
+    timeout: number;              // 连接超时
+    firstChunkTimeout: number;    // 发送请求后等待首个音频块的超时
+    idleTimeout: number;          // 音频块之间的最长间隔
+    reconnectAttempts: number;    // 尚未输出音频时失败的最大重试次数
+    reconnectDelay: number;       // 重试基础延迟，按指数增长并叠加随机抖动
+    reconnectMaxDelay: number;
+  };
+  
+  // 异步合成任务配置
+  jobs: {
+    concurrency: number;
+    maxQueued: number;
+    retentionMs: number;
+    maxTextLength: number;
+  };
+  
+  // 批量合成配置
+  batch: {
+    concurrency: number;          // 每个批量请求同时合成的条目数
+    maxItems: number;
+  };
+  
+  // SSE 流配置（断开后在宽限期内可携带 Last-Event-ID 重连）
+  sse: {
+    heartbeatInterval: number;    // 心跳注释行间隔，0 表示不发送
+    graceMs: number;              // 断开后保留会话和重放缓冲区的时长
+    replayMaxBytes: number;       // 每个流的重放缓冲区上限
+    retryMs: number;              // 建议客户端的重连间隔
+  };
+  
+  // 任务回调配置（未配置签名密钥时不接受 callbackUrl）
+  webhook: {
+    secret: string;
+    maxAttempts: number;
+    retryDelay: number;           // 重试基础延迟，按指数增长
+    retryMaxDelay: number;
     timeout: number;
-    reconnectAttempts: number;
-    reconnectDelay: number;
+    inlineMaxBytes: number;       // 内嵌 base64 音频的大小上限
+    publicBaseUrl: string;        // 通知中下载地址使用的服务地址
+    deadLetterFile: string;
+  };
+  
+  // 用量配额（按客户端统计的字符数和音频时长，0 表示不限制）
+  quota: {
+    charactersPerMinute: number;
+    charactersPerDay: number;
+    audioSecondsPerMinute: number;
+    audioSecondsPerDay: number;
+  };
+  
+  // 合成会话配置
+  session: {
+    maxConcurrent: number;
+    segmentMaxLength: number;
+    lookahead: number;
+  };
+  
+  // 合成缓存配置
+  cache: {
+    store: string;
+    maxBytes: number;
+    ttlMs: number;
+    directory: string;
   };
   
-  // 限流配置
-  throttle: {
-    ttl: number;
-    limit: number;
+  // 增量文本 WebSocket 接口配置
+  socket: {
+    idleTimeout: number;
+    maxTextLength: number;
   };
 }
 
@@ -80,12 +162,11 @@ function getEnvValue(key: string, defaultValue: any): any {
   return value;
 }
 
-// 验证必需的环境变量
+// 验证必需的环境变量（离线合成不需要Coze凭证）
 function validateRequiredEnvVars(): void {
-  const required = [
-    'COZE_API_TOKEN',
-    'COZE_VOICE_ID'
-  ];
+  const required = getEnvValue('TTS_PROVIDER', 'coze') === 'coze'
+    ? ['COZE_API_TOKEN', 'COZE_VOICE_ID']
+    : [];
   
   const missing = required.filter(key => !process.env[key]);
   
@@ -102,17 +183,33 @@ export const config: ServiceConfig = {
   port: getEnvValue('PORT', 3004),
   nodeEnv: getEnvValue('NODE_ENV', 'development'),
   
+  provider: getEnvValue('TTS_PROVIDER', 'coze'),
+  
   coze: {
-    apiToken: process.env.COZE_API_TOKEN!,
+    apiToken: getEnvValue('COZE_API_TOKEN', ''),
     wsUrl: getEnvValue('COZE_WS_URL', 'wss://ws.coze.cn'),
-    voiceId: process.env.COZE_VOICE_ID!
+    voiceId: getEnvValue('COZE_VOICE_ID', '')
   },
   
   audio: {
     sampleRate: getEnvValue('AUDIO_SAMPLE_RATE', 24000),
     channels: getEnvValue('AUDIO_CHANNELS', 1),
     speed: getEnvValue('AUDIO_SPEED', 1.0),
-    format: getEnvValue('AUDIO_FORMAT', 'pcm')
+    format: getEnvValue('AUDIO_FORMAT', 'wav')
+  },
+  
+  text: {
+    normalize: getEnvValue('TEXT_NORMALIZE', true),
+    locale: getEnvValue('TEXT_LOCALE', 'auto')
+  },
+  
+  lexicon: {
+    file: getEnvValue('LEXICON_FILE', 'data/lexicons.json')
+  },
+  
+  auth: {
+    apiKeys: getEnvValue('API_KEYS', ''),
+    apiKeysFile: getEnvValue('API_KEYS_FILE', '')
   },
   
   security: {
@@ -127,18 +224,73 @@ export const config: ServiceConfig = {
   },
   
   health: {
-    timeout: getEnvValue('HEALTH_CHECK_TIMEOUT', 5000)
+    timeout: getEnvValue('HEALTH_CHECK_TIMEOUT', 5000),
+    probeInterval: getEnvValue('HEALTH_PROBE_INTERVAL', 30000),
+    failureThreshold: getEnvValue('HEALTH_FAILURE_THRESHOLD', 3)
   },
   
   websocket: {
     timeout: getEnvValue('WS_TIMEOUT', 30000),
+    firstChunkTimeout: getEnvValue('WS_FIRST_CHUNK_TIMEOUT', 15000),
+    idleTimeout: getEnvValue('WS_IDLE_TIMEOUT', 10000),
     reconnectAttempts: getEnvValue('WS_RECONNECT_ATTEMPTS', 3),
-    reconnectDelay: getEnvValue('WS_RECONNECT_DELAY', 1000)
+    reconnectDelay: getEnvValue('WS_RECONNECT_DELAY', 1000),
+    reconnectMaxDelay: getEnvValue('WS_RECONNECT_MAX_DELAY', 10000)
+  },
+  
+  jobs: {
+    concurrency: getEnvValue('JOB_CONCURRENCY', 2),
+    maxQueued: getEnvValue('JOB_MAX_QUEUED', 100),
+    retentionMs: getEnvValue('JOB_RETENTION_MS', 3600000), // 1小时
+    maxTextLength: getEnvValue('JOB_MAX_TEXT_LENGTH', 100000)
+  },
+  
+  batch: {
+    concurrency: getEnvValue('BATCH_CONCURRENCY', 3),
+    maxItems: getEnvValue('BATCH_MAX_ITEMS', 50)
+  },
+  
+  sse: {
+    heartbeatInterval: getEnvValue('SSE_HEARTBEAT_INTERVAL', 15000),
+    graceMs: getEnvValue('SSE_RESUME_GRACE_MS', 30000),
+    replayMaxBytes: getEnvValue('SSE_REPLAY_MAX_BYTES', 10485760), // 10MB
+    retryMs: getEnvValue('SSE_RETRY_MS', 2000)
+  },
+  
+  webhook: {
+    secret: getEnvValue('WEBHOOK_SECRET', ''),
+    maxAttempts: getEnvValue('WEBHOOK_MAX_ATTEMPTS', 5),
+    retryDelay: getEnvValue('WEBHOOK_RETRY_DELAY', 1000),
+    retryMaxDelay: getEnvValue('WEBHOOK_RETRY_MAX_DELAY', 60000),
+    timeout: getEnvValue('WEBHOOK_TIMEOUT', 10000),
+    inlineMaxBytes: getEnvValue('WEBHOOK_INLINE_MAX_BYTES', 5242880), // 5MB
+    publicBaseUrl: getEnvValue('PUBLIC_BASE_URL', ''),
+    deadLetterFile: getEnvValue('WEBHOOK_DEAD_LETTER_FILE', 'logs/webhook-dead-letter.jsonl')
+  },
+  
+  quota: {
+    charactersPerMinute: getEnvValue('QUOTA_CHARACTERS_PER_MINUTE', 10000),
+    charactersPerDay: getEnvValue('QUOTA_CHARACTERS_PER_DAY', 500000),
+    audioSecondsPerMinute: getEnvValue('QUOTA_AUDIO_SECONDS_PER_MINUTE', 3000),
+    audioSecondsPerDay: getEnvValue('QUOTA_AUDIO_SECONDS_PER_DAY', 36000)
+  },
+  
+  session: {
+    maxConcurrent: getEnvValue('MAX_CONCURRENT_REQUESTS', 10),
+    segmentMaxLength: getEnvValue('SEGMENT_MAX_LENGTH', 150),
+    lookahead: getEnvValue('SEGMENT_LOOKAHEAD', 2)
+  },
+  
+  cache: {
+    store: getEnvValue('CACHE_STORE', 'memory'),
+    maxBytes: getEnvValue('CACHE_MAX_BYTES', 67108864), // 64MB
+    ttlMs: getEnvValue('CACHE_TTL_MS', 86400000), // 24小时
+    directory: getEnvValue('CACHE_DIR', '.cache/tts')
   },
   
-  throttle: {
-    ttl: getEnvValue('THROTTLE_TTL', 60),
-    limit: getEnvValue('THROTTLE_LIMIT', 10)
+  socket: {
+    idleTimeout: getEnvValue('TTS_SOCKET_IDLE_TIMEOUT', 60000),
+    maxTextLength: getEnvValue('TTS_SOCKET_MAX_TEXT_LENGTH', 20000)
   }
 };
 
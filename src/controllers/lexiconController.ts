@@ -0,0 +1,245 @@
+import { Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { lexiconStore } from '../services/ttsService';
+import { ApplicationError } from '../middleware/errorHandler';
+import {
+  LEXICON_ID_PATTERN,
+  MAX_GRAPHEME_LENGTH,
+  MAX_LEXICON_ENTRIES,
+  MAX_REPLACEMENT_LENGTH
+} from '../lexicon/LexiconStore';
+import { logger } from '../utils/logger';
+
+// 根据错误类型获取HTTP状态码
+const getErrorStatus = (error: unknown): number => {
+  return error instanceof ApplicationError ? error.statusCode : 500;
+};
+
+// 参数验证失败时返回 400，返回是否已响应
+const rejectInvalid = (req: Request, res: Response): boolean => {
+  const errors = validationResult(req);
+  if (errors.isEmpty()) {
+    return false;
+  }
+  res.status(400).json({
+    success: false,
+    error: '请求参数验证失败',
+    details: errors.array()
+  });
+  return true;
+};
+
+// 返回错误响应
+const sendError = (res: Response, error: unknown, message: string): void => {
+  logger.error(`[Lexicon Controller] ${message}:`, error);
+  res.status(getErrorStatus(error)).json({
+    success: false,
+    error: message,
+    message: error instanceof Error ? error.message : '未知错误'
+  });
+};
+
+// 词条的字段校验（词条之间的重复、replacement 与 pinyin 二选一和拼音格式由词典存储校验）
+const entriesValidation = (field: string, min: number) => [
+  body(field)
+    .isArray({ min, max: MAX_LEXICON_ENTRIES })
+    .withMessage(`${field}必须是包含${min}-${MAX_LEXICON_ENTRIES}个词条的数组`),
+  body(`${field}.*.grapheme`)
+    .isString()
+    .withMessage('grapheme必须是字符串')
+    .isLength({ min: 1, max: MAX_GRAPHEME_LENGTH })
+    .withMessage(`grapheme长度必须在1-${MAX_GRAPHEME_LENGTH}字符之间`),
+  body(`${field}.*.replacement`)
+    .optional()
+    .isString()
+    .withMessage('replacement必须是字符串')
+    .isLength({ min: 1, max: MAX_REPLACEMENT_LENGTH })
+    .withMessage(`replacement长度必须在1-${MAX_REPLACEMENT_LENGTH}字符之间`),
+  body(`${field}.*.pinyin`)
+    .optional()
+    .isString()
+    .withMessage('pinyin必须是字符串')
+];
+
+const lexiconFieldsValidation = [
+  body('name')
+    .optional()
+    .isString()
+    .withMessage('name必须是字符串')
+    .isLength({ min: 1, max: 100 })
+    .withMessage('name长度必须在1-100字符之间'),
+  body('description')
+    .optional()
+    .isString()
+    .withMessage('description必须是字符串')
+    .isLength({ max: 500 })
+    .withMessage('description长度不能超过500字符')
+];
+
+// 从请求体中提取词条（只保留已知字段）
+const getEntries = (entries: any[]) => entries.map(entry => ({
+  grapheme: entry.grapheme,
+  replacement: entry.replacement,
+  pinyin: entry.pinyin
+}));
+
+// 验证规则
+export const createLexiconValidation = [
+  body('id')
+    .optional()
+    .matches(LEXICON_ID_PATTERN)
+    .withMessage('id只能包含字母、数字、下划线和连字符，最长64个字符'),
+  ...lexiconFieldsValidation,
+  ...entriesValidation('entries', 0).map(chain => chain.optional())
+];
+
+export const updateLexiconValidation = [
+  ...lexiconFieldsValidation,
+  ...entriesValidation('entries', 0).map(chain => chain.optional())
+];
+
+export const upsertEntriesValidation = entriesValidation('entries', 1);
+
+export const deleteEntryValidation = [
+  param('grapheme')
+    .isLength({ min: 1, max: MAX_GRAPHEME_LENGTH })
+    .withMessage(`grapheme长度必须在1-${MAX_GRAPHEME_LENGTH}字符之间`)
+];
+
+// 获取词典列表（不含词条）
+export const listLexicons = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: lexiconStore.list()
+    });
+  } catch (error) {
+    sendError(res, error, '获取词典列表失败');
+  }
+};
+
+// 获取单个词典（含词条）
+export const getLexicon = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const lexicon = lexiconStore.get(req.params.id);
+    if (!lexicon) {
+      throw new ApplicationError(`词典 ${req.params.id} 不存在`, 404);
+    }
+    res.json({ success: true, data: lexicon });
+  } catch (error) {
+    sendError(res, error, '获取词典失败');
+  }
+};
+
+// 创建词典
+export const createLexicon = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (rejectInvalid(req, res)) {
+      return;
+    }
+
+    const { id, name, description, entries } = req.body;
+    const lexicon = await lexiconStore.create({
+      id,
+      name,
+      description,
+      entries: entries ? getEntries(entries) : undefined
+    });
+
+    logger.info('[Lexicon Controller] 词典已创建', {
+      id: lexicon.id,
+      entryCount: lexicon.entries.length,
+      clientIP: req.ip,
+      clientId: req.apiClient?.id
+    });
+
+    res.status(201).json({ success: true, data: lexicon });
+  } catch (error) {
+    sendError(res, error, '创建词典失败');
+  }
+};
+
+// 更新词典（提供 entries 时整体替换词条）
+export const updateLexicon = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (rejectInvalid(req, res)) {
+      return;
+    }
+
+    const { name, description, entries } = req.body;
+    const lexicon = await lexiconStore.update(req.params.id, {
+      name,
+      description,
+      entries: entries ? getEntries(entries) : undefined
+    });
+
+    logger.info('[Lexicon Controller] 词典已更新', {
+      id: lexicon.id,
+      entryCount: lexicon.entries.length,
+      clientIP: req.ip,
+      clientId: req.apiClient?.id
+    });
+
+    res.json({ success: true, data: lexicon });
+  } catch (error) {
+    sendError(res, error, '更新词典失败');
+  }
+};
+
+// 删除词典
+export const deleteLexicon = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await lexiconStore.delete(req.params.id);
+
+    logger.info('[Lexicon Controller] 词典已删除', { id: req.params.id, clientIP: req.ip, clientId: req.apiClient?.id });
+
+    res.json({ success: true, message: '词典已删除' });
+  } catch (error) {
+    sendError(res, error, '删除词典失败');
+  }
+};
+
+// 新增或覆盖词条
+export const upsertLexiconEntries = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (rejectInvalid(req, res)) {
+      return;
+    }
+
+    const lexicon = await lexiconStore.upsertEntries(req.params.id, getEntries(req.body.entries));
+
+    logger.info('[Lexicon Controller] 词条已更新', {
+      id: lexicon.id,
+      updated: req.body.entries.length,
+      entryCount: lexicon.entries.length,
+      clientIP: req.ip,
+      clientId: req.apiClient?.id
+    });
+
+    res.json({ success: true, data: lexicon });
+  } catch (error) {
+    sendError(res, error, '更新词条失败');
+  }
+};
+
+// 删除词条
+export const deleteLexiconEntry = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (rejectInvalid(req, res)) {
+      return;
+    }
+
+    const lexicon = await lexiconStore.deleteEntry(req.params.id, req.params.grapheme);
+
+    logger.info('[Lexicon Controller] 词条已删除', {
+      id: lexicon.id,
+      grapheme: req.params.grapheme,
+      clientIP: req.ip,
+      clientId: req.apiClient?.id
+    });
+
+    res.json({ success: true, data: lexicon });
+  } catch (error) {
+    sendError(res, error, '删除词条失败');
+  }
+};
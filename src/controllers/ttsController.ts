@@ -1,32 +1,126 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { body, validationResult } from 'express-validator';
-import { StreamingTTSService } from '../services/StreamingTTSService';
+import { jobQueue, quotaManager, sseStreams, ttsService, webhookNotifier } from '../services/ttsService';
+import { STOP_MODES, StopMode, TTSSession } from '../services/TTSSession';
+import { SynthesisOptions, SynthesisParams } from '../types/tts';
+import {
+  ACCEPTABLE_MIME_TYPES,
+  OUTPUT_CHANNELS,
+  OUTPUT_FORMATS,
+  OUTPUT_SAMPLE_RATES,
+  getFormatFromMimeType,
+  normalizeFormat
+} from '../audio/formats';
+import { ApplicationError } from '../middleware/errorHandler';
+import { getQuotaClient, meterSession, QuotaCharge, refundQuota } from '../middleware/quota';
+import { apiKeys } from '../middleware/auth';
+import { hasScope } from '../auth/apiKeys';
+import { QUOTA_WINDOWS } from '../quota/QuotaManager';
+import { getErrorDetails } from '../services/TTSError';
+import { parseSsml, SsmlError } from '../text/ssml';
+import { NORMALIZE_LOCALES } from '../text/normalizer';
+import { MAX_REQUEST_LEXICONS } from '../lexicon/LexiconStore';
+import { createBatchArchive, createManifest, runBatch } from '../batch/BatchSynthesizer';
+import { parseEventId, ResumableStream } from '../sse/ResumableStream';
 import { logger } from '../utils/logger';
 import config from '../config';
 
-// 创建TTS服务实例
-const ttsService = new StreamingTTSService({
-  token: config.coze.apiToken,
-  wsUrl: config.coze.wsUrl,
-  voiceId: config.coze.voiceId,
-  enabled: true,
-  sampleRate: config.audio.sampleRate,
-  channels: config.audio.channels,
-  speed: config.audio.speed,
-  format: config.audio.format
+// 从请求体中提取单次合成参数（只作用于本次请求，不修改服务默认配置）
+const getSynthesisOptions = (body: any, format?: string): SynthesisOptions => ({
+  sessionId: body.sessionId,
+  voiceId: body.voiceId,
+  speed: body.speed,
+  sampleRate: body.sampleRate,
+  channels: body.channels,
+  format: format ?? body.format,
+  normalize: body.normalize,
+  locale: body.locale,
+  lexicons: body.lexicons
 });
 
-// 验证规则
-export const synthesizeValidation = [
+// 协商输出格式：请求体中的 format 优先，其次是 Accept 头中的音频类型，都没有时使用默认格式
+const negotiateFormat = (req: Request): string | undefined => {
+  if (req.body.format) {
+    return req.body.format;
+  }
+
+  const accept = req.get('Accept');
+  if (!accept || !/audio\//i.test(accept)) {
+    return undefined;
+  }
+
+  const mimeType = req.accepts(ACCEPTABLE_MIME_TYPES);
+  if (!mimeType) {
+    throw new ApplicationError(`无法提供 Accept 头要求的音频格式: ${accept}`, 406);
+  }
+
+  return getFormatFromMimeType(mimeType) || undefined;
+};
+
+// 将实际生效的合成参数写入响应头
+const setParamHeaders = (res: Response, params: SynthesisParams): void => {
+  res.setHeader('X-TTS-Voice-ID', params.voiceId);
+  res.setHeader('X-TTS-Speed', params.speed.toString());
+  res.setHeader('X-TTS-Sample-Rate', params.sampleRate.toString());
+  res.setHeader('X-TTS-Channels', params.channels.toString());
+  res.setHeader('X-TTS-Format', params.format);
+};
+
+// SSML 的最大长度（标记本身也计入长度，因此比纯文本上限宽松）
+const MAX_SSML_LENGTH = 10000;
+
+// 错误响应中的附加字段：上游合成错误的错误码，或 SSML 的校验问题列表
+const getErrorFields = (error: unknown): Record<string, unknown> => {
+  return error instanceof SsmlError ? { details: error.issues } : getErrorDetails(error);
+};
+
+// 按请求体中的 text 或 ssml 创建合成会话
+// 会话记录发起请求的客户端，用于 POST /sessions/:sessionId/stop 的权限检查
+const createRequestSession = async (req: Request, options: SynthesisOptions): Promise<TTSSession> => {
+  const session = req.body.ssml !== undefined
+    ? await ttsService.createSsmlSession(req.body.ssml, options)
+    : await ttsService.createSession(req.body.text, options);
+  session.owner = req.apiClient?.id ?? null;
+  return session;
+};
+
+// 请求引用的发音词典 ID 列表
+const lexiconsValidation = [
+  body('lexicons')
+    .optional()
+    .isArray({ max: MAX_REQUEST_LEXICONS })
+    .withMessage(`lexicons必须是最多${MAX_REQUEST_LEXICONS}个词典ID的数组`),
+  body('lexicons.*')
+    .isString()
+    .withMessage('词典ID必须是字符串')
+];
+
+// 根据错误类型获取HTTP状态码
+const getErrorStatus = (error: unknown): number => {
+  return error instanceof ApplicationError ? error.statusCode : 500;
+};
+
+// 输入文本的验证规则（text 与 ssml 二选一）
+const inputValidation = (maxTextLength: number, maxSsmlLength: number) => [
+  body()
+    .custom((value) => !(value?.text !== undefined && value?.ssml !== undefined))
+    .withMessage('text 和 ssml 只能提供其中一个'),
   body('text')
+    .if(body('ssml').not().exists())
     .notEmpty()
     .withMessage('文本不能为空')
-    .isLength({ min: 1, max: 5000 })
-    .withMessage('文本长度必须在1-5000字符之间'),
-  body('sessionId')
+    .isLength({ min: 1, max: maxTextLength })
+    .withMessage(`文本长度必须在1-${maxTextLength}字符之间`),
+  body('ssml')
     .optional()
     .isString()
-    .withMessage('sessionId必须是字符串'),
+    .withMessage('ssml必须是字符串')
+    .isLength({ min: 1, max: maxSsmlLength })
+    .withMessage(`SSML长度必须在1-${maxSsmlLength}字符之间`)
+];
+
+// 单次合成参数的验证规则
+const paramsValidation = [
   body('voiceId')
     .optional()
     .isString()
@@ -35,6 +129,137 @@ export const synthesizeValidation = [
     .optional()
     .isFloat({ min: 0.5, max: 2.0 })
     .withMessage('语速必须在0.5-2.0之间')
+    .toFloat(),
+  body('sampleRate')
+    .optional()
+    .isIn(OUTPUT_SAMPLE_RATES)
+    .withMessage(`采样率必须是以下值之一: ${OUTPUT_SAMPLE_RATES.join(', ')}`)
+    .toInt(),
+  body('channels')
+    .optional()
+    .isIn(OUTPUT_CHANNELS)
+    .withMessage(`声道数必须是以下值之一: ${OUTPUT_CHANNELS.join(', ')}`)
+    .toInt(),
+  body('format')
+    .optional()
+    .custom((value) => normalizeFormat(value) !== null)
+    .withMessage(`format必须是以下格式之一: ${OUTPUT_FORMATS.join(', ')}`),
+  body('normalize')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('normalize必须是布尔值'),
+  body('locale')
+    .optional()
+    .isIn(NORMALIZE_LOCALES)
+    .withMessage(`locale必须是以下值之一: ${NORMALIZE_LOCALES.join(', ')}`),
+  ...lexiconsValidation
+];
+
+// 验证规则
+export const synthesizeValidation = [
+  ...inputValidation(5000, MAX_SSML_LENGTH),
+  body('sessionId')
+    .optional()
+    .isString()
+    .withMessage('sessionId必须是字符串'),
+  ...paramsValidation
+];
+
+// 异步任务的验证规则（任务ID即会话ID，不接受 sessionId；文本上限为 JOB_MAX_TEXT_LENGTH）
+export const createJobValidation = [
+  ...inputValidation(config.jobs.maxTextLength, Math.max(MAX_SSML_LENGTH, config.jobs.maxTextLength * 2)),
+  ...paramsValidation,
+  body('callbackUrl')
+    .optional()
+    .isURL({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+    .withMessage('callbackUrl必须是 http 或 https 地址'),
+  body('callbackAudio')
+    .optional()
+    .isIn(['url', 'inline'])
+    .withMessage('callbackAudio必须是 url 或 inline')
+];
+
+// 原始音频流的请求参数：GET 请求使用查询参数（可直接作为 <audio> 的 src 或 ffmpeg 的输入），输出格式由路径扩展名决定
+const prepareRawStream = (req: Request, _res: Response, next: NextFunction): void => {
+  if (req.method === 'GET') {
+    const { normalize, lexicons, ...query } = req.query as Record<string, any>;
+    req.body = { ...query };
+    if (normalize !== undefined) {
+      req.body.normalize = normalize === 'true' ? true : normalize === 'false' ? false : normalize;
+    }
+    if (lexicons !== undefined) {
+      // 查询参数中的多个词典用逗号分隔或重复参数
+      req.body.lexicons = typeof lexicons === 'string' ? lexicons.split(',').filter(Boolean) : lexicons;
+    }
+  }
+  req.body = { ...req.body, format: req.params.ext };
+  next();
+};
+
+// 原始音频流的验证规则（与 /synthesize 相同）
+export const rawStreamValidation = [prepareRawStream, ...synthesizeValidation];
+
+// 批量合成条目 id 同时作为归档中的文件名：字母、数字、下划线、点和连字符，不能以点开头
+const BATCH_ITEM_ID_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9_.-]{0,63}$/;
+
+// 批量合成的验证规则（顶层合成参数作为各条目的默认值，条目可单独指定 voiceId、speed、format）
+export const batchValidation = [
+  body('items')
+    .isArray({ min: 1, max: config.batch.maxItems })
+    .withMessage(`items必须是包含1-${config.batch.maxItems}个条目的数组`)
+    .bail()
+    .custom((items: any[]) => new Set(items.map(item => item?.id)).size === items.length)
+    .withMessage('条目id不能重复'),
+  body('items.*.id')
+    .isString()
+    .withMessage('条目id必须是字符串')
+    .bail()
+    .matches(BATCH_ITEM_ID_PATTERN)
+    .withMessage('条目id只能包含字母、数字、下划线、点和连字符，长度1-64，且不能以点开头'),
+  body('items.*.text')
+    .isString()
+    .withMessage('条目文本必须是字符串')
+    .bail()
+    .isLength({ min: 1, max: 5000 })
+    .withMessage('条目文本长度必须在1-5000字符之间'),
+  body('items.*.voiceId')
+    .optional()
+    .isString()
+    .withMessage('voiceId必须是字符串'),
+  body('items.*.speed')
+    .optional()
+    .isFloat({ min: 0.5, max: 2.0 })
+    .withMessage('语速必须在0.5-2.0之间')
+    .toFloat(),
+  body('items.*.format')
+    .optional()
+    .custom((value) => normalizeFormat(value) !== null)
+    .withMessage(`format必须是以下格式之一: ${OUTPUT_FORMATS.join(', ')}`),
+  ...paramsValidation
+];
+
+// 文本规范化预览的验证规则
+export const normalizeValidation = [
+  body('text')
+    .isString()
+    .withMessage('text必须是字符串')
+    .notEmpty()
+    .withMessage('文本不能为空')
+    .isLength({ max: 5000 })
+    .withMessage('文本长度必须在1-5000字符之间'),
+  body('locale')
+    .optional()
+    .isIn(NORMALIZE_LOCALES)
+    .withMessage(`locale必须是以下值之一: ${NORMALIZE_LOCALES.join(', ')}`),
+  ...lexiconsValidation
+];
+
+// 停止单个会话的验证规则
+export const stopSessionValidation = [
+  body('mode')
+    .optional()
+    .isIn(STOP_MODES)
+    .withMessage(`mode必须是以下值之一: ${STOP_MODES.join(', ')}`)
 ];
 
 // 语音合成接口
@@ -51,64 +276,86 @@ export const synthesize = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    const { text, sessionId, voiceId, speed } = req.body;
+    const { text, ssml, sessionId, voiceId, speed, sampleRate, channels, format } = req.body;
+    const inputLength = (ssml ?? text).length;
     
     logger.info('[TTS Controller] 收到语音合成请求', {
-      textLength: text.length,
+      textLength: inputLength,
+      ssml: ssml !== undefined,
       sessionId,
       voiceId,
       speed,
-      clientIP: req.ip
+      sampleRate,
+      channels,
+      format,
+      clientIP: req.ip,
+      clientId: req.apiClient?.id
     });
 
-    // 更新配置（如果提供了可选参数）
-    if (voiceId || speed) {
-      const currentConfig = ttsService.getConfig();
-      ttsService.updateConfig({
-        ...currentConfig,
-        ...(voiceId && { voiceId }),
-        ...(speed && { speed })
-      });
-    }
-
     // 开始语音合成
     const startTime = Date.now();
-    const audioData = await ttsService.synthesizeText(text, sessionId);
+    const session = await createRequestSession(req, getSynthesisOptions(req.body, negotiateFormat(req)));
+    meterSession(res.locals.quotaClient, session, res.locals.quotaCharge);
+    const result = await session.start();
     const duration = Date.now() - startTime;
 
     logger.info('[TTS Controller] 语音合成完成', {
-      sessionId,
-      audioSize: audioData.length,
+      sessionId: result.sessionId,
+      audioSize: result.audioData.length,
+      format: result.format,
+      audioDurationMs: result.durationMs,
       duration: `${duration}ms`,
-      textLength: text.length
+      cacheStatus: result.cacheStatus,
+      textLength: inputLength,
+      params: result.params
     });
 
     // 设置响应头
-    res.setHeader('Content-Type', 'audio/wav');
-    res.setHeader('Content-Length', audioData.length.toString());
-    res.setHeader('Content-Disposition', `attachment; filename="tts_${sessionId || Date.now()}.wav"`);
+    res.setHeader('Content-Type', result.mimeType);
+    res.setHeader('Content-Length', result.audioData.length.toString());
+    res.setHeader('Content-Disposition', `attachment; filename="tts_${result.sessionId}.${result.extension}"`);
+    res.setHeader('Vary', 'Accept');
     
     // 添加自定义响应头
-    res.setHeader('X-TTS-Session-ID', sessionId || 'unknown');
+    res.setHeader('X-TTS-Session-ID', result.sessionId);
     res.setHeader('X-TTS-Duration', duration.toString());
-    res.setHeader('X-TTS-Audio-Size', audioData.length.toString());
+    res.setHeader('X-TTS-Audio-Size', result.audioData.length.toString());
+    res.setHeader('X-TTS-Audio-Duration', result.durationMs.toString());
+    res.setHeader('X-TTS-Cache', result.cacheStatus);
+    setParamHeaders(res, result.params);
 
     // 返回音频数据
-    res.status(200).send(audioData);
+    res.status(200).send(result.audioData);
   } catch (error) {
     logger.error('[TTS Controller] 语音合成失败:', error);
     
-    res.status(500).json({
+    res.status(getErrorStatus(error)).json({
       success: false,
       error: '语音合成失败',
       message: error instanceof Error ? error.message : '未知错误',
+      ...getErrorFields(error),
       sessionId: req.body?.sessionId
     });
   }
 };
 
+// SSE 响应头
+const setSseHeaders = (res: Response, sessionId: string): void => {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Cache-Control, Last-Event-ID');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.setHeader('X-TTS-Session-ID', sessionId);
+};
+
 // 流式语音合成接口（Server-Sent Events）
+// 事件保留在重放缓冲区中，客户端断开后会话在宽限期内继续合成，携带 Last-Event-ID 重连时从下一个事件继续
 export const synthesizeStream = async (req: Request, res: Response): Promise<void> => {
+  let streamSessionId: string | undefined = req.body?.sessionId;
+  let stream: ResumableStream | undefined;
+
   try {
     // 验证请求参数
     const errors = validationResult(req);
@@ -121,120 +368,444 @@ export const synthesizeStream = async (req: Request, res: Response): Promise<voi
       return;
     }
 
-    const { text, sessionId, voiceId, speed } = req.body;
+    const { text, ssml, sessionId } = req.body;
     
     logger.info('[TTS Controller] 收到流式语音合成请求', {
-      textLength: text.length,
+      textLength: (ssml ?? text).length,
+      ssml: ssml !== undefined,
       sessionId,
-      clientIP: req.ip
+      clientIP: req.ip,
+      clientId: req.apiClient?.id
     });
 
+    // 创建会话（并发上限、会话冲突等错误在发送SSE响应头之前返回）
+    const session = await createRequestSession(req, getSynthesisOptions(req.body));
+    meterSession(res.locals.quotaClient, session, res.locals.quotaCharge);
+    streamSessionId = session.sessionId;
+
     // 设置SSE响应头
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Headers', 'Cache-Control');
-
-    // 发送连接确认
-    res.write(`data: ${JSON.stringify({ type: 'connected', sessionId })}\n\n`);
-
-    // 更新配置（如果提供了可选参数）
-    if (voiceId || speed) {
-      const currentConfig = ttsService.getConfig();
-      ttsService.updateConfig({
-        ...currentConfig,
-        ...(voiceId && { voiceId }),
-        ...(speed && { speed })
+    setSseHeaders(res, session.sessionId);
+    res.setHeader('X-TTS-Cache', session.cacheStatus);
+    setParamHeaders(res, session.params);
+
+    // 客户端断开超过宽限期未重连时停止合成
+    const activeStream = sseStreams.create(session.sessionId, req.apiClient?.id ?? null, () => session.stop());
+    stream = activeStream;
+    activeStream.attach(res, 0);
+
+    // 发送连接确认（附带实际生效的合成参数）
+    activeStream.send({
+      type: 'connected',
+      sessionId: session.sessionId,
+      params: session.params,
+      segmentCount: session.getInfo().segmentCount,
+      cacheStatus: session.cacheStatus
+    });
+
+    // 输出格式确定后告知客户端音频块的编码（各音频块按顺序拼接即为完整音频）
+    session.on('audioFormat', (data: any) => {
+      activeStream.send({
+        type: 'audioFormat',
+        sessionId: data.sessionId,
+        format: data.format,
+        mimeType: data.mimeType,
+        audioSpec: data.audioSpec
       });
-    }
+    });
 
-    // 监听音频块事件
-    const onAudioChunk = (data: any) => {
-      const chunk = {
+    // 监听音频块事件（segmentIndex 为音频块所属的文本片段）
+    session.on('audioChunk', (data: any) => {
+      activeStream.send({
         type: 'audioChunk',
         sessionId: data.sessionId,
+        segmentIndex: data.segmentIndex,
         size: data.size,
         data: data.data.toString('base64')
-      };
-      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
-    };
+      });
+    });
+
+    // 监听片段完成事件
+    session.on('segmentComplete', (data: any) => {
+      activeStream.send({
+        type: 'segmentComplete',
+        sessionId: data.sessionId,
+        segmentIndex: data.segmentIndex,
+        text: data.text,
+        startMs: data.startMs,
+        durationMs: data.durationMs
+      });
+    });
 
     // 监听完成事件
-    const onComplete = (data: any) => {
-      const complete = {
+    session.on('complete', (data: any) => {
+      activeStream.send({
         type: 'complete',
         sessionId: data.sessionId,
-        totalSize: data.audioData.length
-      };
-      res.write(`data: ${JSON.stringify(complete)}\n\n`);
-      res.end();
-      
-      // 清理事件监听器
-      ttsService.off('audioChunk', onAudioChunk);
-      ttsService.off('complete', onComplete);
-      ttsService.off('error', onError);
-    };
-
-    // 监听错误事件
-    const onError = (error: any) => {
-      const errorData = {
-        type: 'error',
-        sessionId,
-        error: error.message || '语音合成失败'
-      };
-      res.write(`data: ${JSON.stringify(errorData)}\n\n`);
-      res.end();
-      
-      // 清理事件监听器
-      ttsService.off('audioChunk', onAudioChunk);
-      ttsService.off('complete', onComplete);
-      ttsService.off('error', onError);
-    };
-
-    // 注册事件监听器
-    ttsService.on('audioChunk', onAudioChunk);
-    ttsService.on('complete', onComplete);
-    ttsService.on('error', onError);
-
-    // 处理客户端断开连接
-    req.on('close', () => {
-      logger.info('[TTS Controller] 客户端断开连接，停止语音合成', { sessionId });
-      ttsService.stopSynthesis();
-      
-      // 清理事件监听器
-      ttsService.off('audioChunk', onAudioChunk);
-      ttsService.off('complete', onComplete);
-      ttsService.off('error', onError);
+        totalSize: data.audioData.length,
+        durationMs: data.durationMs,
+        format: data.format,
+        audioSpec: data.audioSpec,
+        params: data.params,
+        cacheStatus: data.cacheStatus
+      });
+      activeStream.finish();
     });
 
     // 开始语音合成
-    await ttsService.synthesizeText(text, sessionId);
+    await session.start();
   } catch (error) {
     logger.error('[TTS Controller] 流式语音合成失败:', error);
-    
-    const errorData = {
+
+    // 尚未进入SSE模式时直接返回JSON错误
+    if (!stream) {
+      res.status(getErrorStatus(error)).json({
+        success: false,
+        error: '流式语音合成失败',
+        message: error instanceof Error ? error.message : '未知错误',
+        ...getErrorFields(error),
+        sessionId: streamSessionId
+      });
+      return;
+    }
+
+    // 错误事件同样进入重放缓冲区，断开的客户端重连后也能收到
+    stream.send({
       type: 'error',
-      sessionId: req.body?.sessionId,
-      error: error instanceof Error ? error.message : '未知错误'
+      sessionId: streamSessionId,
+      error: error instanceof Error ? error.message : '未知错误',
+      ...getErrorFields(error),
+      statusCode: getErrorStatus(error)
+    });
+    stream.finish();
+  }
+};
+
+// 重新连接到可恢复的 SSE 流并重放 afterSeq 之后的事件；流不存在（或属于其他客户端）时返回 false
+// 流已结束且客户端已收到全部事件时返回 204，使 EventSource 不再重连
+const resumeStream = (req: Request, res: Response, sessionId: string, afterSeq: number): boolean => {
+  const stream = sseStreams.get(sessionId, req.apiClient?.id ?? null);
+  if (!stream) {
+    return false;
+  }
+
+  const check = stream.check(afterSeq);
+  if (check === 'done') {
+    res.status(204).end();
+    return true;
+  }
+  if (check === 'gap') {
+    res.status(410).json({
+      success: false,
+      error: '恢复流式语音合成失败',
+      message: `重放缓冲区中已没有 ${sessionId}:${afterSeq} 之后的全部事件`,
+      sessionId
+    });
+    return true;
+  }
+
+  logger.info('[TTS Controller] 客户端重新连接流式语音合成', {
+    sessionId,
+    lastEventId: `${sessionId}:${afterSeq}`,
+    finished: stream.isFinished,
+    clientIP: req.ip,
+    clientId: req.apiClient?.id
+  });
+
+  setSseHeaders(res, sessionId);
+  // resumed 事件不带 id，不改变客户端记录的 Last-Event-ID
+  const resumed = { type: 'resumed', sessionId, lastEventId: `${sessionId}:${afterSeq}` };
+  stream.attach(res, afterSeq, `data: ${JSON.stringify(resumed)}\n\n`);
+  return true;
+};
+
+// POST /synthesize-stream 的重连：携带的 Last-Event-ID 对应的流仍在重放缓冲区中时从下一个事件继续（不重新合成，也不重复计费），
+// 否则按新请求处理
+export const resumeSynthesisStream = (req: Request, res: Response, next: NextFunction): void => {
+  const lastEventId = req.get('Last-Event-ID');
+  const parsed = lastEventId ? parseEventId(lastEventId) : null;
+  if (parsed && resumeStream(req, res, parsed.sessionId, parsed.seq)) {
+    return;
+  }
+  next();
+};
+
+// 按会话ID重新连接 SSE 流（可直接用于 EventSource）；Last-Event-ID 可通过请求头或 lastEventId 查询参数提供，
+// 都没有时从第一个仍在缓冲区中的事件开始
+export const reattachSynthesisStream = async (req: Request, res: Response): Promise<void> => {
+  const { sessionId } = req.params;
+  const lastEventId = req.get('Last-Event-ID') ?? (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+  const parsed = lastEventId !== undefined ? parseEventId(lastEventId) : { sessionId, seq: 0 };
+
+  if (!parsed || parsed.sessionId !== sessionId) {
+    res.status(400).json({
+      success: false,
+      error: '请求参数验证失败',
+      message: `Last-Event-ID 不属于会话 ${sessionId}: ${lastEventId}`
+    });
+    return;
+  }
+
+  if (!resumeStream(req, res, sessionId, parsed.seq)) {
+    res.status(404).json({
+      success: false,
+      error: '恢复流式语音合成失败',
+      message: `流不存在或已过期: ${sessionId}`,
+      sessionId
+    });
+  }
+};
+
+// 原始音频流接口：音频块按顺序直接写入分块传输的响应体，不经过 base64 和 SSE
+// 响应头在第一个音频块之前发送，此前的错误仍以 JSON 返回；之后出错时中断连接，避免客户端把不完整的音频当作完整文件
+export const streamAudio = async (req: Request, res: Response): Promise<void> => {
+  let session: TTSSession | undefined;
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: '请求参数验证失败',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { text, ssml, sessionId } = req.body;
+
+    logger.info('[TTS Controller] 收到原始音频流请求', {
+      textLength: (ssml ?? text).length,
+      ssml: ssml !== undefined,
+      sessionId,
+      format: req.params.ext,
+      method: req.method,
+      clientIP: req.ip,
+      clientId: req.apiClient?.id
+    });
+
+    const activeSession = await createRequestSession(req, getSynthesisOptions(req.body));
+    session = activeSession;
+    meterSession(res.locals.quotaClient, activeSession, res.locals.quotaCharge);
+
+    let mimeType = '';
+    activeSession.on('audioFormat', (data: { mimeType: string }) => {
+      mimeType = data.mimeType;
+    });
+
+    const sendHeaders = (): void => {
+      if (res.headersSent) {
+        return;
+      }
+      res.status(200);
+      res.setHeader('Content-Type', mimeType);
+      // no-transform 同时阻止 compression 中间件和中间代理重新编码
+      res.setHeader('Cache-Control', 'no-cache, no-transform');
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.setHeader('X-TTS-Session-ID', activeSession.sessionId);
+      res.setHeader('X-TTS-Cache', activeSession.cacheStatus);
+      setParamHeaders(res, activeSession.params);
+      res.flushHeaders();
     };
-    res.write(`data: ${JSON.stringify(errorData)}\n\n`);
+
+    // 响应缓冲区已满时暂停会话的输出（音频留在会话中），缓冲区清空后继续
+    activeSession.on('audioChunk', (data: { data: Buffer }) => {
+      sendHeaders();
+      if (!res.write(data.data) && !activeSession.isPaused()) {
+        activeSession.pause();
+        res.once('drain', () => activeSession.resume());
+      }
+    });
+
+    res.on('close', () => {
+      if (!activeSession.isFinished()) {
+        logger.info('[TTS Controller] 客户端断开连接，停止语音合成', { sessionId: activeSession.sessionId });
+        activeSession.stop();
+      }
+    });
+
+    const result = await activeSession.start();
+    // 没有输出任何音频时（如全部为空文本）仍返回合法的空响应
+    mimeType = mimeType || result.mimeType;
+    sendHeaders();
     res.end();
+
+    logger.info('[TTS Controller] 原始音频流完成', {
+      sessionId: result.sessionId,
+      audioSize: result.audioData.length,
+      format: result.format,
+      audioDurationMs: result.durationMs,
+      cacheStatus: result.cacheStatus
+    });
+  } catch (error) {
+    logger.error('[TTS Controller] 原始音频流失败:', error);
+
+    if (!res.headersSent) {
+      res.status(getErrorStatus(error)).json({
+        success: false,
+        error: '原始音频流失败',
+        message: error instanceof Error ? error.message : '未知错误',
+        ...getErrorFields(error),
+        sessionId: session?.sessionId ?? req.body?.sessionId
+      });
+      return;
+    }
+
+    // 会话被停止时（POST /stop 或 /sessions/:sessionId/stop）正常结束响应，已输出的音频仍可播放
+    if (session?.getState() === 'stopped') {
+      res.end();
+      return;
+    }
+
+    res.destroy();
   }
 };
 
-// 停止语音合成
+// 批量合成接口：全部条目结束后返回 ZIP 归档（manifest.json 及各条音频），单条失败记录在清单中
+export const synthesizeBatch = async (req: Request, res: Response): Promise<void> => {
+  const abort = new AbortController();
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: '请求参数验证失败',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const items: Array<{ id: string; text: string; voiceId?: string; speed?: number; format?: string }> = req.body.items;
+    const batchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    logger.info('[TTS Controller] 收到批量合成请求', {
+      batchId,
+      items: items.length,
+      textLength: items.reduce((sum, item) => sum + item.text.length, 0),
+      clientIP: req.ip,
+      clientId: req.apiClient?.id
+    });
+
+    // 客户端断开时停止合成中的条目，其余条目不再合成
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        abort.abort();
+      }
+    });
+
+    // 批量合成按条目结算：失败或未合成的条目退还其字符数
+    const charge: QuotaCharge = res.locals.quotaCharge;
+    charge.settled = true;
+    const startTime = Date.now();
+    const results = await runBatch(ttsService, items.map(item => ({
+      id: item.id,
+      text: item.text,
+      options: getSynthesisOptions({ ...req.body, ...item, sessionId: undefined })
+    })), {
+      batchId,
+      concurrency: config.batch.concurrency,
+      onSession: (session) => {
+        session.owner = req.apiClient?.id ?? null;
+        meterSession(charge.client, session);
+      },
+      signal: abort.signal
+    });
+    const duration = Date.now() - startTime;
+    results.forEach((result, index) => {
+      if (result.status === 'failed') {
+        refundQuota(charge, items[index].text.length);
+      }
+    });
+
+    if (abort.signal.aborted) {
+      logger.info('[TTS Controller] 客户端断开连接，批量合成已中止', { batchId });
+      return;
+    }
+
+    const manifest = createManifest(batchId, results, duration);
+    const archive = createBatchArchive(manifest, results);
+
+    logger.info('[TTS Controller] 批量合成完成', {
+      batchId,
+      succeeded: manifest.succeeded,
+      failed: manifest.failed,
+      archiveSize: archive.length,
+      duration: `${duration}ms`
+    });
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Length', archive.length.toString());
+    res.setHeader('Content-Disposition', `attachment; filename="${batchId}.zip"`);
+    res.setHeader('X-TTS-Batch-ID', batchId);
+    res.setHeader('X-TTS-Batch-Succeeded', manifest.succeeded.toString());
+    res.setHeader('X-TTS-Batch-Failed', manifest.failed.toString());
+    res.setHeader('X-TTS-Duration', duration.toString());
+    res.status(200).send(archive);
+  } catch (error) {
+    logger.error('[TTS Controller] 批量合成失败:', error);
+
+    res.status(getErrorStatus(error)).json({
+      success: false,
+      error: '批量合成失败',
+      message: error instanceof Error ? error.message : '未知错误'
+    });
+  }
+};
+
+// 文本规范化预览：返回合成前实际发送给上游的文本，不进行合成
+export const normalize = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: '请求参数验证失败',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { text, locale, lexicons } = req.body;
+    const result = ttsService.normalizeText(text, locale, lexicons);
+    const spoken = result.segments.map(segment => segment.normalized).filter(normalized => normalized.length > 0);
+
+    res.json({
+      success: true,
+      data: {
+        text,
+        normalized: spoken.join(result.locale === 'zh' ? '' : ' '),
+        locale: result.locale,
+        segments: result.segments
+      }
+    });
+  } catch (error) {
+    logger.error('[TTS Controller] 文本规范化失败:', error);
+
+    res.status(getErrorStatus(error)).json({
+      success: false,
+      error: '文本规范化失败',
+      message: error instanceof Error ? error.message : '未知错误'
+    });
+  }
+};
+
+// 停止语音合成（指定sessionId时只停止该会话）
 export const stopSynthesis = async (req: Request, res: Response): Promise<void> => {
   try {
-    await ttsService.stopSynthesis();
+    const sessionId: string | undefined = req.body?.sessionId;
+    const stopped = await ttsService.stopSynthesis(sessionId);
     
     logger.info('[TTS Controller] 语音合成已停止', {
-      clientIP: req.ip
+      sessionId,
+      stopped,
+      clientIP: req.ip,
+      clientId: req.apiClient?.id
     });
     
     res.json({
       success: true,
-      message: '语音合成已停止'
+      message: '语音合成已停止',
+      stopped
     });
   } catch (error) {
     logger.error('[TTS Controller] 停止语音合成失败:', error);
@@ -247,20 +818,93 @@ export const stopSynthesis = async (req: Request, res: Response): Promise<void>
   }
 };
 
+// 停止单个会话（打断）：具有 admin:stop 权限或未启用认证时可停止任意会话，否则只能停止自己创建的会话
+// 会话结束后返回停止前已输出的音频时长
+export const stopSession = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: '请求参数验证失败',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { sessionId } = req.params;
+    const mode: StopMode = req.body?.mode ?? 'immediate';
+    const session = ttsService.getSession(sessionId);
+    const canStopAny = !apiKeys.enabled || (req.apiClient !== undefined && hasScope(req.apiClient, 'admin:stop'));
+    // 其他客户端的会话视为不存在
+    if (!session || (!canStopAny && session.owner !== (req.apiClient?.id ?? null))) {
+      throw new ApplicationError(`会话不存在: ${sessionId}`, 404);
+    }
+
+    // sentence 模式下会话在正在输出的片段结束后才停止（该片段是最后一个片段时正常完成）
+    const ended = session.isFinished()
+      ? Promise.resolve()
+      : new Promise<void>(resolve => session.once('end', () => resolve()));
+    session.stop(mode);
+    await ended;
+
+    const info = session.getInfo();
+    logger.info('[TTS Controller] 会话已停止', {
+      sessionId,
+      mode,
+      state: info.state,
+      deliveredMs: info.deliveredMs,
+      clientIP: req.ip,
+      clientId: req.apiClient?.id
+    });
+
+    res.json({
+      success: true,
+      message: '语音合成已停止',
+      data: {
+        sessionId,
+        mode,
+        state: info.state,
+        deliveredMs: info.deliveredMs,
+        audioBytes: info.audioBytes,
+        completedSegments: info.completedSegments,
+        segmentCount: info.segmentCount
+      }
+    });
+  } catch (error) {
+    logger.error('[TTS Controller] 停止会话失败:', error);
+
+    res.status(getErrorStatus(error)).json({
+      success: false,
+      error: '停止会话失败',
+      message: error instanceof Error ? error.message : '未知错误'
+    });
+  }
+};
+
 // 获取服务状态
 export const getStatus = async (req: Request, res: Response): Promise<void> => {
   try {
+    const activeSessions = ttsService.getActiveSessions();
     const status = {
       success: true,
       data: {
         isProcessing: ttsService.getIsProcessing(),
         isSupported: ttsService.isSupported(),
+        activeSessionCount: activeSessions.length,
+        maxConcurrentSessions: ttsService.getConfig().maxConcurrentSessions,
+        activeSessions,
+        provider: ttsService.getProviderInfo(),
+        cache: ttsService.getCacheStats(),
+        jobs: jobQueue.getStats(),
         config: {
           enabled: ttsService.getConfig().enabled,
           sampleRate: ttsService.getConfig().sampleRate,
           channels: ttsService.getConfig().channels,
           speed: ttsService.getConfig().speed,
-          format: ttsService.getConfig().format
+          format: ttsService.getConfig().format,
+          normalize: ttsService.getConfig().normalize,
+          locale: ttsService.getConfig().locale
         }
       }
     };
@@ -277,6 +921,174 @@ export const getStatus = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+// 提交异步合成任务（立即返回任务ID，参数和 SSML 在提交时校验）
+export const createJob = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: '请求参数验证失败',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { text, ssml, callbackUrl, callbackAudio } = req.body;
+    const options = getSynthesisOptions({ ...req.body, sessionId: undefined });
+    ttsService.checkOptions(options);
+    if (ssml !== undefined) {
+      parseSsml(ssml);
+    }
+    if (callbackUrl !== undefined && !webhookNotifier.enabled) {
+      throw new ApplicationError('服务未配置 WEBHOOK_SECRET，不支持任务回调', 400);
+    }
+
+    // 任务在后台合成，由任务的会话结算计费；还没有创建会话就失败或取消的任务退还全部字符数
+    const charge: QuotaCharge | undefined = res.locals.quotaCharge;
+    let metered = false;
+    const job = jobQueue.submit({
+      text,
+      ssml,
+      options,
+      owner: req.apiClient?.id ?? null,
+      callback: callbackUrl !== undefined
+        ? { url: callbackUrl, audio: callbackAudio ?? 'url', baseUrl: `${req.protocol}://${req.get('host')}` }
+        : undefined,
+      onSession: charge
+        ? (session) => {
+          metered = true;
+          meterSession(charge.client, session, charge);
+        }
+        : undefined,
+      onFinish: charge
+        ? (info) => {
+          if (!metered && info.state !== 'completed') {
+            refundQuota(charge);
+          }
+        }
+        : undefined
+    });
+    if (charge) {
+      charge.settled = true;
+    }
+
+    logger.info('[TTS Controller] 合成任务已创建', {
+      jobId: job.jobId,
+      textLength: (ssml ?? text).length,
+      ssml: ssml !== undefined,
+      callback: callbackUrl !== undefined,
+      clientIP: req.ip,
+      clientId: req.apiClient?.id
+    });
+
+    res.status(202)
+      .location(`${req.baseUrl}/jobs/${job.jobId}`)
+      .json({ success: true, data: job });
+  } catch (error) {
+    logger.error('[TTS Controller] 创建合成任务失败:', error);
+
+    res.status(getErrorStatus(error)).json({
+      success: false,
+      error: '创建合成任务失败',
+      message: error instanceof Error ? error.message : '未知错误',
+      ...getErrorFields(error)
+    });
+  }
+};
+
+// 查询合成任务状态
+export const getJob = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ success: true, data: jobQueue.get(req.params.id, req.apiClient?.id ?? null) });
+  } catch (error) {
+    logger.error('[TTS Controller] 获取合成任务失败:', error);
+
+    res.status(getErrorStatus(error)).json({
+      success: false,
+      error: '获取合成任务失败',
+      message: error instanceof Error ? error.message : '未知错误'
+    });
+  }
+};
+
+// 下载已完成任务的音频
+export const getJobAudio = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = jobQueue.getResult(req.params.id, req.apiClient?.id ?? null);
+
+    res.setHeader('Content-Type', result.mimeType);
+    res.setHeader('Content-Length', result.audioData.length.toString());
+    res.setHeader('Content-Disposition', `attachment; filename="tts_${req.params.id}.${result.extension}"`);
+    res.setHeader('X-TTS-Audio-Duration', result.durationMs.toString());
+    res.setHeader('X-TTS-Cache', result.cacheStatus);
+    setParamHeaders(res, result.params);
+    res.status(200).send(result.audioData);
+  } catch (error) {
+    logger.error('[TTS Controller] 下载任务音频失败:', error);
+
+    res.status(getErrorStatus(error)).json({
+      success: false,
+      error: '下载任务音频失败',
+      message: error instanceof Error ? error.message : '未知错误'
+    });
+  }
+};
+
+// 取消合成任务（已结束的任务删除其状态和结果）
+export const cancelJob = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = jobQueue.cancel(req.params.id, req.apiClient?.id ?? null);
+
+    logger.info('[TTS Controller] 合成任务已取消', {
+      jobId: job.jobId,
+      state: job.state,
+      clientIP: req.ip,
+      clientId: req.apiClient?.id
+    });
+
+    res.json({ success: true, data: job });
+  } catch (error) {
+    logger.error('[TTS Controller] 取消合成任务失败:', error);
+
+    res.status(getErrorStatus(error)).json({
+      success: false,
+      error: '取消合成任务失败',
+      message: error instanceof Error ? error.message : '未知错误'
+    });
+  }
+};
+
+// 获取用量（具有 admin:usage 权限或未启用认证时返回全部客户端，否则只返回当前客户端）
+export const getUsage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const all = !apiKeys.enabled || (req.apiClient !== undefined && hasScope(req.apiClient, 'admin:usage'));
+    const client = getQuotaClient(req);
+    const own = quotaManager.getUsage(client);
+
+    res.json({
+      success: true,
+      data: {
+        limits: quotaManager.limits,
+        windows: {
+          minute: QUOTA_WINDOWS.minute.windowMs / 1000,
+          day: QUOTA_WINDOWS.day.windowMs / 1000
+        },
+        client,
+        clients: all ? quotaManager.listUsage() : own ? [own] : []
+      }
+    });
+  } catch (error) {
+    logger.error('[TTS Controller] 获取用量失败:', error);
+
+    res.status(500).json({
+      success: false,
+      error: '获取用量失败',
+      message: error instanceof Error ? error.message : '未知错误'
+    });
+  }
+};
+
 // 更新配置
 export const updateConfig = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -294,7 +1106,8 @@ export const updateConfig = async (req: Request, res: Response): Promise<void> =
     
     logger.info('[TTS Controller] 配置已更新', {
       newConfig,
-      clientIP: req.ip
+      clientIP: req.ip,
+      clientId: req.apiClient?.id
     });
     
     res.json({
@@ -0,0 +1,315 @@
+// WebSocket 增量文本合成 - 客户端边生成边发送文本，服务端在同一连接上返回二进制音频帧和JSON控制事件
+import { IncomingMessage } from 'http';
+import WebSocket from 'ws';
+import { ttsService } from '../services/ttsService';
+import { STOP_MODES, StopMode, TTSSession } from '../services/TTSSession';
+import { TextSegmenter } from '../text/segmenter';
+import { SynthesisOptions } from '../types/tts';
+import { ApplicationError } from '../middleware/errorHandler';
+import { QuotaCharge, QuotaExceededError, consumeQuota, getQuotaClient, meterSession, refundQuota } from '../middleware/quota';
+import { getErrorDetails } from '../services/TTSError';
+import { logger } from '../utils/logger';
+import { MAX_REQUEST_LEXICONS } from '../lexicon/LexiconStore';
+import config from '../config';
+
+// 客户端发送的控制消息
+interface ClientMessage {
+  type: 'start' | 'append' | 'flush' | 'end' | 'stop';
+  text?: string;
+  sessionId?: string;
+  voiceId?: string;
+  speed?: number;
+  sampleRate?: number;
+  channels?: number;
+  format?: string;
+  normalize?: boolean;
+  locale?: string;
+  lexicons?: string[];
+  mode?: StopMode;              // stop 消息的停止方式
+}
+
+// 解析客户端消息
+const parseClientMessage = (data: WebSocket.RawData): ClientMessage => {
+  let message: any;
+  try {
+    message = JSON.parse(data.toString());
+  } catch {
+    throw new ApplicationError('消息必须是JSON格式', 400);
+  }
+
+  if (!message || typeof message.type !== 'string') {
+    throw new ApplicationError('消息缺少type字段', 400);
+  }
+
+  return message;
+};
+
+// 从 start 消息中提取合成参数（采样率、声道数、格式、规范化语言和词典是否存在由服务统一校验）
+const getStartOptions = (message: ClientMessage): SynthesisOptions => {
+  if (message.sessionId !== undefined && typeof message.sessionId !== 'string') {
+    throw new ApplicationError('sessionId必须是字符串', 400);
+  }
+
+  if (message.voiceId !== undefined && typeof message.voiceId !== 'string') {
+    throw new ApplicationError('voiceId必须是字符串', 400);
+  }
+
+  if (message.speed !== undefined &&
+      (typeof message.speed !== 'number' || message.speed < 0.5 || message.speed > 2.0)) {
+    throw new ApplicationError('语速必须在0.5-2.0之间', 400);
+  }
+
+  if (message.normalize !== undefined && typeof message.normalize !== 'boolean') {
+    throw new ApplicationError('normalize必须是布尔值', 400);
+  }
+
+  if (message.lexicons !== undefined &&
+      (!Array.isArray(message.lexicons) || message.lexicons.length > MAX_REQUEST_LEXICONS ||
+       message.lexicons.some(id => typeof id !== 'string'))) {
+    throw new ApplicationError(`lexicons必须是最多${MAX_REQUEST_LEXICONS}个词典ID的数组`, 400);
+  }
+
+  return {
+    sessionId: message.sessionId,
+    voiceId: message.voiceId,
+    speed: message.speed,
+    sampleRate: message.sampleRate,
+    channels: message.channels,
+    format: message.format,
+    normalize: message.normalize,
+    locale: message.locale,
+    lexicons: message.lexicons
+  };
+};
+
+// 处理一个 WebSocket 连接（同一时间最多一个会话，会话结束后可以再次 start）
+// 追加的文本按句子自动切分，每凑满一句就提交合成；flush 强制提交未结束的句子
+export const handleTTSSocket = (ws: WebSocket, req: IncomingMessage): void => {
+  const clientIP = req.socket.remoteAddress;
+  const clientId = req.apiClient?.id;
+  const quotaClient = getQuotaClient(req);
+  let session: TTSSession | null = null;
+  // 尚未凑成完整句子的文本
+  let segmenter = new TextSegmenter({ maxLength: ttsService.getConfig().segmentMaxLength });
+  let idleTimer: NodeJS.Timeout | null = null;
+
+  logger.info('[TTS Socket] 客户端已连接', { clientIP, clientId });
+
+  const send = (event: Record<string, any>): void => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(event));
+    }
+  };
+
+  const sendError = (error: unknown): void => {
+    send({
+      type: 'error',
+      sessionId: session?.sessionId,
+      error: error instanceof Error ? error.message : '未知错误',
+      statusCode: error instanceof ApplicationError ? error.statusCode : 500,
+      ...(error instanceof QuotaExceededError && { retryAfter: error.retryAfter }),
+      ...getErrorDetails(error)
+    });
+  };
+
+  // 长时间没有收到客户端消息时关闭连接，释放会话占用的并发名额
+  const resetIdleTimer = (): void => {
+    if (idleTimer) {
+      clearTimeout(idleTimer);
+    }
+    idleTimer = setTimeout(() => {
+      logger.warn('[TTS Socket] 连接空闲超时，关闭连接', { sessionId: session?.sessionId, clientIP });
+      sendError(new ApplicationError('连接空闲超时', 408));
+      ws.close(1000, 'idle timeout');
+    }, config.socket.idleTimeout);
+  };
+
+  const requireSession = (): TTSSession => {
+    if (!session || session.isFinished()) {
+      throw new ApplicationError('会话未开始，请先发送start消息', 409);
+    }
+    return session;
+  };
+
+  const submitSegments = (active: TTSSession, segments: string[]): void => {
+    for (const segment of segments) {
+      active.appendText(segment);
+    }
+  };
+
+  // 检查配额并按追加的字符数计费，超出配额时拒绝本条消息（会话不受影响）；返回本次计费，追加失败时退还
+  const requireQuota = (characters: number): QuotaCharge => {
+    const chargedAt = Date.now();
+    const decision = consumeQuota(quotaClient, characters, chargedAt);
+    if (!decision.allowed) {
+      throw new QuotaExceededError(decision);
+    }
+    return { client: quotaClient, characters, chargedAt, settled: true };
+  };
+
+  const startSession = (message: ClientMessage): void => {
+    if (session && !session.isFinished()) {
+      throw new ApplicationError(`会话 ${session.sessionId} 正在进行中`, 409);
+    }
+
+    const options = getStartOptions(message);
+    requireQuota(0);
+    const active = ttsService.createStreamingSession(options);
+    active.owner = clientId ?? null;
+    meterSession(quotaClient, active);
+    session = active;
+    segmenter = new TextSegmenter({ maxLength: ttsService.getConfig().segmentMaxLength });
+
+    active.on('audioFormat', (data: any) => {
+      send({
+        type: 'audioFormat',
+        sessionId: data.sessionId,
+        format: data.format,
+        mimeType: data.mimeType,
+        audioSpec: data.audioSpec
+      });
+    });
+
+    // 每个二进制音频帧之前先发送一条 chunk 事件说明其归属
+    active.on('audioChunk', (data: any) => {
+      send({ type: 'chunk', sessionId: data.sessionId, segmentIndex: data.segmentIndex, size: data.size });
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(data.data, { binary: true });
+      }
+    });
+
+    active.on('segmentComplete', (data: any) => {
+      send({
+        type: 'sentenceDone',
+        sessionId: data.sessionId,
+        segmentIndex: data.segmentIndex,
+        text: data.text,
+        startMs: data.startMs,
+        durationMs: data.durationMs
+      });
+    });
+
+    active.on('complete', (data: any) => {
+      send({
+        type: 'complete',
+        sessionId: data.sessionId,
+        totalSize: data.audioData.length,
+        durationMs: data.durationMs,
+        format: data.format,
+        audioSpec: data.audioSpec,
+        segments: active.getInfo().segmentCount
+      });
+    });
+
+    active.on('stopped', (data: any) => {
+      send({ type: 'stopped', sessionId: data.sessionId, deliveredMs: data.deliveredMs });
+    });
+
+    send({ type: 'start', sessionId: active.sessionId, params: active.params });
+
+    logger.info('[TTS Socket] 增量合成会话已开始', {
+      sessionId: active.sessionId,
+      params: active.params,
+      clientIP,
+      clientId
+    });
+
+    active.start().catch((error) => {
+      if (active.getState() !== 'stopped') {
+        logger.error('[TTS Socket] 增量合成失败:', { sessionId: active.sessionId, error });
+        sendError(error);
+      }
+    });
+  };
+
+  const handleMessage = (message: ClientMessage): void => {
+    switch (message.type) {
+      case 'start':
+        startSession(message);
+        break;
+
+      case 'append': {
+        const active = requireSession();
+        if (typeof message.text !== 'string') {
+          throw new ApplicationError('append消息的text必须是字符串', 400);
+        }
+        if (active.getInfo().textLength + segmenter.pendingLength + message.text.length > config.socket.maxTextLength) {
+          throw new ApplicationError(`会话文本总长度不能超过${config.socket.maxTextLength}字符`, 413);
+        }
+        const charge = requireQuota(message.text.length);
+        try {
+          submitSegments(active, segmenter.push(message.text));
+        } catch (error) {
+          // 文本未能追加到会话时退还本条消息的字符数
+          refundQuota(charge);
+          throw error;
+        }
+        break;
+      }
+
+      case 'flush': {
+        const active = requireSession();
+        submitSegments(active, segmenter.flush());
+        break;
+      }
+
+      case 'end': {
+        const active = requireSession();
+        submitSegments(active, segmenter.flush());
+        active.endInput();
+        break;
+      }
+
+      case 'stop': {
+        const active = requireSession();
+        if (message.mode !== undefined && !STOP_MODES.includes(message.mode)) {
+          throw new ApplicationError(`mode必须是${STOP_MODES.join('或')}`, 400);
+        }
+        // 尚未提交的文本直接丢弃
+        segmenter.flush();
+        active.stop(message.mode);
+        break;
+      }
+
+      default:
+        throw new ApplicationError(`不支持的消息类型: ${(message as any).type}`, 400);
+    }
+  };
+
+  ws.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+    resetIdleTimer();
+
+    try {
+      if (isBinary) {
+        throw new ApplicationError('不支持二进制消息', 400);
+      }
+      handleMessage(parseClientMessage(data));
+    } catch (error) {
+      logger.warn('[TTS Socket] 处理客户端消息失败:', {
+        sessionId: session?.sessionId,
+        error: error instanceof Error ? error.message : error
+      });
+      sendError(error);
+    }
+  });
+
+  // 客户端断开时停止未完成的会话
+  ws.on('close', () => {
+    if (idleTimer) {
+      clearTimeout(idleTimer);
+    }
+
+    if (session && !session.isFinished()) {
+      logger.info('[TTS Socket] 客户端断开连接，停止语音合成', { sessionId: session.sessionId });
+      session.stop();
+    }
+
+    logger.info('[TTS Socket] 客户端已断开', { clientIP, clientId });
+  });
+
+  ws.on('error', (error) => {
+    logger.error('[TTS Socket] 连接错误:', { sessionId: session?.sessionId, error });
+  });
+
+  resetIdleTimer();
+};
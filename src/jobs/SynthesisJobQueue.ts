@@ -0,0 +1,341 @@
+// 异步合成任务 - 提交后立即返回任务ID，由有界的工作队列在会话管理器上依次合成，结果在保留期内可下载
+// 任务只保存在内存中，进程重启后丢失
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger';
+import { ApplicationError } from '../middleware/errorHandler';
+import { getErrorDetails, TTSErrorCode } from '../services/TTSError';
+import type { JobCallback } from './WebhookNotifier';
+import type { StreamingTTSService } from '../services/StreamingTTSService';
+import type { TTSSession } from '../services/TTSSession';
+import type { SynthesisOptions, SynthesisParams, SynthesisResult } from '../types/tts';
+
+// queued 排队中；running 合成中；completed 已完成，可下载音频；failed 合成失败；cancelled 已取消
+export type JobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobQueueConfig {
+  concurrency: number;     // 同时合成的任务数
+  maxQueued: number;       // 排队任务数上限，超出时拒绝提交
+  retentionMs: number;     // 任务结束后保留状态和结果的时长（ms）
+}
+
+// 提交的任务（text 与 ssml 二选一）
+export interface JobInput {
+  text?: string;
+  ssml?: string;
+  options: SynthesisOptions;
+  owner: string | null;                         // 提交任务的 API 客户端，未启用认证时为 null
+  callback?: JobCallback;                       // 任务结束后的回调通知
+  onSession?: (session: TTSSession) => void;    // 会话创建后调用（用于计费）
+  onFinish?: (info: JobInfo) => void;          // 任务结束（完成、失败或取消）后调用
+}
+
+// 任务状态（用于查询接口）
+export interface JobInfo {
+  jobId: string;
+  state: JobState;
+  progress: {
+    segments: number;
+    completedSegments: number;
+    audioDurationMs: number;
+  };
+  queuePosition: number | null;      // 排队中时前面的任务数
+  params: SynthesisParams | null;    // 开始合成后实际生效的参数
+  result: {
+    format: string;
+    mimeType: string;
+    size: number;
+    durationMs: number;
+    cacheStatus: string;
+  } | null;
+  error: { message: string; statusCode: number; code?: TTSErrorCode; upstreamCode?: number | string } | null;
+  callback: { url: string; audio: JobCallback['audio'] } | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  expiresAt: string | null;          // 结果过期（任务被删除）的时间
+}
+
+interface Job {
+  id: string;
+  input: JobInput;
+  state: JobState;
+  session: TTSSession | null;
+  params: SynthesisParams | null;
+  result: SynthesisResult | null;
+  error: JobInfo['error'];
+  segments: number;
+  completedSegments: number;
+  audioDurationMs: number;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  expiryTimer: NodeJS.Timeout | null;
+}
+
+// 会话管理器的并发名额被占满时，等待多久后重试启动任务（ms）
+const BUSY_RETRY_DELAY = 1000;
+
+export class SynthesisJobQueue extends EventEmitter {
+  private readonly service: StreamingTTSService;
+  private readonly config: JobQueueConfig;
+  private readonly jobs: Map<string, Job> = new Map();
+  private queue: Job[] = [];
+  private running: number = 0;
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  constructor(service: StreamingTTSService, config: JobQueueConfig) {
+    super();
+    this.service = service;
+    this.config = config;
+  }
+
+  // 提交任务；排队任务数已达上限时抛出 429
+  submit(input: JobInput): JobInfo {
+    if (this.queue.length >= this.config.maxQueued) {
+      throw new ApplicationError('排队的合成任务数已达上限，请稍后再试', 429);
+    }
+
+    const job: Job = {
+      id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      input,
+      state: 'queued',
+      session: null,
+      params: null,
+      result: null,
+      error: null,
+      segments: 0,
+      completedSegments: 0,
+      audioDurationMs: 0,
+      createdAt: new Date(),
+      startedAt: null,
+      finishedAt: null,
+      expiryTimer: null
+    };
+    this.jobs.set(job.id, job);
+    this.queue.push(job);
+
+    logger.info('[JobQueue] 合成任务已提交', {
+      jobId: job.id,
+      textLength: (input.ssml ?? input.text ?? '').length,
+      queued: this.queue.length
+    });
+
+    this.pump();
+    return this.toInfo(job);
+  }
+
+  // 获取任务状态；owner 不为 null 时只能访问自己的任务（其他客户端的任务视为不存在）
+  get(id: string, owner: string | null = null): JobInfo {
+    return this.toInfo(this.getJob(id, owner));
+  }
+
+  // 获取已完成任务的合成结果
+  getResult(id: string, owner: string | null = null): SynthesisResult {
+    const job = this.getJob(id, owner);
+    if (job.state !== 'completed' || !job.result) {
+      throw new ApplicationError(`任务 ${id} 尚未完成（当前状态: ${job.state}）`, 409);
+    }
+    return job.result;
+  }
+
+  // 取消排队中或合成中的任务；已结束的任务直接删除（释放结果占用的内存）
+  cancel(id: string, owner: string | null = null): JobInfo {
+    const job = this.getJob(id, owner);
+
+    if (job.state === 'queued' || job.state === 'running') {
+      this.queue = this.queue.filter(queued => queued !== job);
+      const session = job.session;
+      this.finish(job, 'cancelled');
+      session?.stop();
+      logger.info('[JobQueue] 合成任务已取消', { jobId: job.id });
+      return this.toInfo(job);
+    }
+
+    this.remove(job);
+    logger.info('[JobQueue] 合成任务已删除', { jobId: job.id, state: job.state });
+    return this.toInfo(job);
+  }
+
+  getStats(): { queued: number; running: number; stored: number; concurrency: number; maxQueued: number } {
+    return {
+      queued: this.queue.length,
+      running: this.running,
+      stored: this.jobs.size,
+      concurrency: this.config.concurrency,
+      maxQueued: this.config.maxQueued
+    };
+  }
+
+  // 取消所有未结束的任务并清除计时器（关闭服务时调用）
+  close(): void {
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.state === 'queued' || job.state === 'running') {
+        this.cancel(job.id);
+      }
+      this.remove(job);
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private getJob(id: string, owner: string | null): Job {
+    const job = this.jobs.get(id);
+    if (!job || (owner !== null && job.input.owner !== owner)) {
+      throw new ApplicationError(`任务不存在: ${id}`, 404);
+    }
+    return job;
+  }
+
+  // 在并发上限内启动排队的任务
+  private pump(): void {
+    while (this.running < this.config.concurrency && this.queue.length > 0 && !this.retryTimer) {
+      const job = this.queue.shift()!;
+      this.running++;
+      this.run(job).finally(() => {
+        this.running--;
+        this.pump();
+      });
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    const { text, ssml, options } = job.input;
+    let session: TTSSession;
+
+    try {
+      // 任务ID同时作为会话ID，可在服务状态中看到，也可通过 POST /api/tts/stop 停止
+      const sessionOptions = { ...options, sessionId: job.id };
+      session = ssml !== undefined
+        ? await this.service.createSsmlSession(ssml, sessionOptions)
+        : await this.service.createSession(text ?? '', sessionOptions);
+    } catch (error) {
+      if (job.state !== 'queued') {
+        return;
+      }
+      // 会话管理器的并发名额被实时请求占满时，任务回到队首稍后重试
+      if (error instanceof ApplicationError && error.statusCode === 429) {
+        this.queue.unshift(job);
+        this.scheduleRetry();
+        return;
+      }
+      this.fail(job, error);
+      return;
+    }
+
+    // 创建会话期间任务被取消
+    if (job.state !== 'queued') {
+      session.stop();
+      return;
+    }
+
+    job.state = 'running';
+    job.session = session;
+    session.owner = job.input.owner;
+    job.params = session.params;
+    job.startedAt = new Date();
+    job.segments = session.getInfo().segmentCount;
+    job.input.onSession?.(session);
+
+    session.on('segmentComplete', (data: { startMs: number; durationMs: number }) => {
+      job.completedSegments++;
+      job.audioDurationMs = Math.max(job.audioDurationMs, data.startMs + data.durationMs);
+    });
+
+    try {
+      const result = await session.start();
+      if (job.state === 'running') {
+        job.result = result;
+        job.completedSegments = job.segments;
+        job.audioDurationMs = result.durationMs;
+        this.finish(job, 'completed');
+      }
+    } catch (error) {
+      if (job.state === 'running') {
+        this.fail(job, error);
+      }
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      return;
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.pump();
+    }, BUSY_RETRY_DELAY);
+    this.retryTimer.unref();
+  }
+
+  private fail(job: Job, error: unknown): void {
+    job.error = {
+      message: error instanceof Error ? error.message : String(error),
+      statusCode: error instanceof ApplicationError ? error.statusCode : 500,
+      ...getErrorDetails(error)
+    };
+    logger.warn('[JobQueue] 合成任务失败', { jobId: job.id, error: job.error });
+    this.finish(job, 'failed');
+  }
+
+  // 结束任务并开始计算保留期
+  private finish(job: Job, state: JobState): void {
+    job.state = state;
+    job.session = null;
+    job.finishedAt = new Date();
+    job.expiryTimer = setTimeout(() => this.remove(job), this.config.retentionMs);
+    job.expiryTimer.unref();
+
+    if (state === 'completed') {
+      logger.info('[JobQueue] 合成任务完成', {
+        jobId: job.id,
+        durationMs: job.audioDurationMs,
+        elapsed: `${job.finishedAt.getTime() - job.createdAt.getTime()}ms`
+      });
+    }
+    const info = this.toInfo(job);
+    job.input.onFinish?.(info);
+    // 监听方（回调通知）同时收到提交时登记的回调
+    this.emit('finished', info, job.input.callback);
+  }
+
+  private remove(job: Job): void {
+    if (job.expiryTimer) {
+      clearTimeout(job.expiryTimer);
+      job.expiryTimer = null;
+    }
+    this.jobs.delete(job.id);
+  }
+
+  private toInfo(job: Job): JobInfo {
+    const position = this.queue.indexOf(job);
+    const result = job.result;
+    return {
+      jobId: job.id,
+      state: job.state,
+      progress: {
+        segments: job.segments,
+        completedSegments: job.completedSegments,
+        audioDurationMs: job.audioDurationMs
+      },
+      queuePosition: position >= 0 ? position : null,
+      params: job.params,
+      result: result ? {
+        format: result.format,
+        mimeType: result.mimeType,
+        size: result.audioData.length,
+        durationMs: result.durationMs,
+        cacheStatus: result.cacheStatus
+      } : null,
+      error: job.error,
+      callback: job.input.callback ? { url: job.input.callback.url, audio: job.input.callback.audio } : null,
+      createdAt: job.createdAt.toISOString(),
+      startedAt: job.startedAt?.toISOString() ?? null,
+      finishedAt: job.finishedAt?.toISOString() ?? null,
+      expiresAt: job.finishedAt ? new Date(job.finishedAt.getTime() + this.config.retentionMs).toISOString() : null
+    };
+  }
+}
+
+export default SynthesisJobQueue;
@@ -0,0 +1,272 @@
+// 任务回调 - 合成任务结束（完成、失败或取消）后向提交时登记的 callbackUrl 发送带 HMAC 签名的 JSON 通知
+// 投递失败时按指数退避重试，重试用尽后写入死信日志（每行一条 JSON 记录）
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import type { JobInfo, SynthesisJobQueue } from './SynthesisJobQueue';
+import type { SynthesisResult } from '../types/tts';
+
+export interface WebhookConfig {
+  secret: string;              // 签名密钥，为空时不接受回调
+  maxAttempts: number;         // 最多投递次数（含首次）
+  retryDelay: number;          // 重试基础延迟，按指数增长（ms）
+  retryMaxDelay: number;       // 重试延迟上限（ms）
+  timeout: number;             // 单次投递的超时（ms）
+  inlineMaxBytes: number;      // 内嵌 base64 音频的大小上限，超出时改为下载地址
+  publicBaseUrl: string;       // 下载地址使用的服务地址，为空时使用提交任务请求的地址
+  deadLetterFile: string;      // 死信日志文件
+}
+
+// 提交任务时登记的回调
+export interface JobCallback {
+  url: string;
+  audio: 'url' | 'inline';     // 音频以下载地址提供，或以 base64 内嵌在通知中
+  baseUrl: string;             // 提交任务请求的服务地址（未配置 PUBLIC_BASE_URL 时用于拼接下载地址）
+}
+
+export type WebhookEvent = 'job.completed' | 'job.failed' | 'job.cancelled';
+
+// 通知内容
+export interface WebhookPayload {
+  event: WebhookEvent;
+  deliveryId: string;
+  createdAt: string;
+  job: JobInfo;
+  audio: {
+    format: string;
+    mimeType: string;
+    size: number;
+    durationMs: number;
+    sampleRate: number;
+    channels: number;
+    url: string | null;        // 下载地址（音频内嵌时为 null）
+    data: string | null;       // base64 音频（未内嵌时为 null）
+  } | null;
+}
+
+// 死信记录
+export interface DeadLetter {
+  deliveryId: string;
+  event: WebhookEvent;
+  jobId: string;
+  url: string;
+  attempts: number;
+  lastError: string;
+  failedAt: string;
+  payload: WebhookPayload;     // 不含内嵌音频
+}
+
+export const SIGNATURE_HEADER = 'X-TTS-Signature';
+export const TIMESTAMP_HEADER = 'X-TTS-Timestamp';
+
+// 签名：HMAC-SHA256(secret, `${timestamp}.${body}`)，十六进制
+export const signWebhook = (secret: string, timestamp: number, body: string): string => {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+};
+
+// 校验签名（供接收方参考；toleranceSeconds 为允许的时间戳偏差）
+export const verifyWebhook = (
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  toleranceSeconds: number = 300,
+  now: number = Date.now()
+): boolean => {
+  if (!Number.isFinite(timestamp) || Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+  const expected = Buffer.from(`sha256=${signWebhook(secret, timestamp, body)}`);
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+const EVENTS: Partial<Record<JobInfo['state'], WebhookEvent>> = {
+  completed: 'job.completed',
+  failed: 'job.failed',
+  cancelled: 'job.cancelled'
+};
+
+// 投递失败（retryable 为 false 时不再重试，如 4xx 响应）
+class DeliveryError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.retryable = retryable;
+  }
+}
+
+// 死信记录写入文件（或写入失败）后触发 'deadLettered' 事件
+export class WebhookNotifier extends EventEmitter {
+  private readonly config: WebhookConfig;
+  private readonly pending: Map<NodeJS.Timeout, (proceed: boolean) => void> = new Map();
+  private closed: boolean = false;
+
+  constructor(config: WebhookConfig) {
+    super();
+    this.config = config;
+  }
+
+  get enabled(): boolean {
+    return this.config.secret.length > 0;
+  }
+
+  // 订阅任务队列，为登记了回调的任务发送通知
+  attach(queue: SynthesisJobQueue): void {
+    queue.on('finished', (job: JobInfo, callback?: JobCallback) => {
+      if (!callback) {
+        return;
+      }
+      // 结果必须在事件中同步读取：任务可能在投递期间被删除
+      const result = job.state === 'completed' ? queue.getResult(job.jobId) : null;
+      void this.notify(job, callback, result);
+    });
+  }
+
+  // 发送任务结束通知；返回是否投递成功
+  async notify(job: JobInfo, callback: JobCallback, result: SynthesisResult | null): Promise<boolean> {
+    const event = EVENTS[job.state];
+    if (!event || this.closed) {
+      return false;
+    }
+
+    const payload = this.buildPayload(event, job, callback, result);
+    const body = JSON.stringify(payload);
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= this.config.maxAttempts; attempt++) {
+      try {
+        await this.send(callback.url, event, payload.deliveryId, body);
+        logger.info('[Webhook] 任务回调已送达', { jobId: job.jobId, event, url: callback.url, attempt });
+        return true;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        const retryable = !(error instanceof DeliveryError) || error.retryable;
+        logger.warn('[Webhook] 任务回调投递失败', { jobId: job.jobId, event, url: callback.url, attempt, error: lastError });
+
+        if (!retryable || attempt === this.config.maxAttempts || !(await this.wait(attempt))) {
+          await this.deadLetter(payload, callback.url, attempt, lastError);
+          return false;
+        }
+      }
+    }
+    return false;
+  }
+
+  // 停止尚未开始的重试（关闭服务时调用），等待中的投递写入死信
+  close(): void {
+    this.closed = true;
+    for (const [timer, resolve] of this.pending) {
+      clearTimeout(timer);
+      resolve(false);
+    }
+    this.pending.clear();
+  }
+
+  private buildPayload(event: WebhookEvent, job: JobInfo, callback: JobCallback, result: SynthesisResult | null): WebhookPayload {
+    const inline = result !== null && callback.audio === 'inline' && result.audioData.length <= this.config.inlineMaxBytes;
+    const baseUrl = (this.config.publicBaseUrl || callback.baseUrl).replace(/\/+$/, '');
+
+    return {
+      event,
+      deliveryId: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      job,
+      audio: result ? {
+        format: result.format,
+        mimeType: result.mimeType,
+        size: result.audioData.length,
+        durationMs: result.durationMs,
+        sampleRate: result.params.sampleRate,
+        channels: result.params.channels,
+        url: inline ? null : `${baseUrl}/api/tts/jobs/${job.jobId}/audio`,
+        data: inline ? result.audioData.toString('base64') : null
+      } : null
+    };
+  }
+
+  private async send(url: string, event: WebhookEvent, deliveryId: string, body: string): Promise<void> {
+    const timestamp = Math.floor(Date.now() / 1000);
+    let response: Response;
+
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'streaming-tts-webhook',
+          'X-TTS-Event': event,
+          'X-TTS-Delivery': deliveryId,
+          [TIMESTAMP_HEADER]: timestamp.toString(),
+          [SIGNATURE_HEADER]: `sha256=${signWebhook(this.config.secret, timestamp, body)}`
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.config.timeout)
+      });
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      throw new DeliveryError(timedOut ? `请求超时（${this.config.timeout}ms）` : `请求失败: ${(error as Error).message}`, true);
+    }
+
+    // 响应体不使用，读完以释放连接
+    await response.arrayBuffer().catch(() => undefined);
+
+    if (response.status >= 200 && response.status < 300) {
+      return;
+    }
+    // 5xx 和 429 稍后重试，其余响应（含重定向）视为接收方拒绝
+    const retryable = response.status >= 500 || response.status === 429;
+    throw new DeliveryError(`接收方返回 HTTP ${response.status}`, retryable);
+  }
+
+  // 等待第 attempt 次重试的退避时间；关闭服务时返回 false
+  private wait(attempt: number): Promise<boolean> {
+    if (this.closed) {
+      return Promise.resolve(false);
+    }
+    const delay = Math.min(this.config.retryDelay * Math.pow(2, attempt - 1), this.config.retryMaxDelay);
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.pending.delete(timer);
+        resolve(!this.closed);
+      }, delay);
+      timer.unref();
+      this.pending.set(timer, resolve);
+    });
+  }
+
+  private async deadLetter(payload: WebhookPayload, url: string, attempts: number, lastError: string): Promise<void> {
+    const record: DeadLetter = {
+      deliveryId: payload.deliveryId,
+      event: payload.event,
+      jobId: payload.job.jobId,
+      url,
+      attempts,
+      lastError,
+      failedAt: new Date().toISOString(),
+      payload: payload.audio?.data ? { ...payload, audio: { ...payload.audio, data: null } } : payload
+    };
+    logger.error('[Webhook] 任务回调投递失败，已写入死信日志', {
+      jobId: record.jobId,
+      event: record.event,
+      url,
+      attempts,
+      error: lastError
+    });
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.config.deadLetterFile), { recursive: true });
+      await fs.promises.appendFile(this.config.deadLetterFile, `${JSON.stringify(record)}\n`);
+    } catch (error) {
+      logger.error('[Webhook] 写入死信日志失败:', { file: this.config.deadLetterFile, error });
+    }
+    this.emit('deadLettered', record);
+  }
+}
+
+export default WebhookNotifier;
@@ -0,0 +1,242 @@
+// 发音词典存储 - 词典保存在本地 JSON 文件中，首次访问时加载；修改按顺序执行，写入临时文件后再重命名替换
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ApplicationError } from '../middleware/errorHandler';
+import { checkPinyin, LexiconEntry, LexiconMatcher } from '../text/lexicon';
+import { logger } from '../utils/logger';
+
+// 发音词典
+export interface Lexicon {
+  id: string;
+  name: string;
+  description: string;
+  entries: LexiconEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 词典列表中的摘要（不含词条）
+export type LexiconSummary = Omit<Lexicon, 'entries'> & { entryCount: number };
+
+// 创建或更新词典的输入
+export interface LexiconInput {
+  id?: string;
+  name?: string;
+  description?: string;
+  entries?: LexiconEntry[];
+}
+
+// 词典文件内容
+interface LexiconFile {
+  version: number;
+  lexicons: Lexicon[];
+}
+
+const FILE_VERSION = 1;
+
+// 单个词典的词条数上限及词条长度上限
+export const MAX_LEXICON_ENTRIES = 10000;
+export const MAX_GRAPHEME_LENGTH = 100;
+export const MAX_REPLACEMENT_LENGTH = 200;
+
+// 单次合成请求可引用的词典数上限
+export const MAX_REQUEST_LEXICONS = 10;
+
+export const LEXICON_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// 校验并整理词条（去掉首尾空白，只保留已知字段）
+const checkEntries = (entries: LexiconEntry[]): LexiconEntry[] => {
+  if (entries.length > MAX_LEXICON_ENTRIES) {
+    throw new ApplicationError(`词条数不能超过 ${MAX_LEXICON_ENTRIES}`, 400);
+  }
+
+  const seen = new Set<string>();
+  return entries.map((entry, index) => {
+    const grapheme = typeof entry.grapheme === 'string' ? entry.grapheme.trim() : '';
+    if (!grapheme || grapheme.length > MAX_GRAPHEME_LENGTH) {
+      throw new ApplicationError(`第 ${index + 1} 个词条的 grapheme 必须是 1-${MAX_GRAPHEME_LENGTH} 个字符`, 400);
+    }
+    if (seen.has(grapheme)) {
+      throw new ApplicationError(`词条 "${grapheme}" 重复`, 400);
+    }
+    seen.add(grapheme);
+
+    if ((entry.replacement === undefined) === (entry.pinyin === undefined)) {
+      throw new ApplicationError(`词条 "${grapheme}" 必须且只能提供 replacement 或 pinyin 之一`, 400);
+    }
+
+    if (entry.pinyin !== undefined) {
+      const pinyinError = typeof entry.pinyin === 'string' ? checkPinyin(entry.pinyin) : 'pinyin 必须是字符串';
+      if (pinyinError) {
+        throw new ApplicationError(`词条 "${grapheme}": ${pinyinError}`, 400);
+      }
+      return { grapheme, pinyin: entry.pinyin.trim().replace(/\s+/g, ' ') };
+    }
+
+    const replacement = typeof entry.replacement === 'string' ? entry.replacement.trim() : '';
+    if (!replacement || replacement.length > MAX_REPLACEMENT_LENGTH) {
+      throw new ApplicationError(`词条 "${grapheme}" 的 replacement 必须是 1-${MAX_REPLACEMENT_LENGTH} 个字符`, 400);
+    }
+    return { grapheme, replacement };
+  });
+};
+
+const toSummary = ({ entries, ...lexicon }: Lexicon): LexiconSummary => ({ ...lexicon, entryCount: entries.length });
+
+export class LexiconStore {
+  private readonly filePath: string;
+  private lexicons: Map<string, Lexicon> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  list(): LexiconSummary[] {
+    return Array.from(this.load().values()).map(toSummary);
+  }
+
+  get(id: string): Lexicon | undefined {
+    return this.load().get(id);
+  }
+
+  // 创建词典，未指定 id 时自动生成
+  create(input: LexiconInput): Promise<Lexicon> {
+    return this.mutate((lexicons) => {
+      const id = input.id ?? `lexicon_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      if (!LEXICON_ID_PATTERN.test(id)) {
+        throw new ApplicationError('词典 id 只能包含字母、数字、下划线和连字符，最长 64 个字符', 400);
+      }
+      if (lexicons.has(id)) {
+        throw new ApplicationError(`词典 ${id} 已存在`, 409);
+      }
+
+      const now = new Date().toISOString();
+      const lexicon: Lexicon = {
+        id,
+        name: input.name ?? id,
+        description: input.description ?? '',
+        entries: checkEntries(input.entries ?? []),
+        createdAt: now,
+        updatedAt: now
+      };
+      lexicons.set(id, lexicon);
+      return lexicon;
+    });
+  }
+
+  // 更新词典的名称、描述，提供 entries 时整体替换词条
+  update(id: string, input: LexiconInput): Promise<Lexicon> {
+    return this.mutate((lexicons) => {
+      const current = this.require(lexicons, id);
+      const lexicon: Lexicon = {
+        ...current,
+        name: input.name ?? current.name,
+        description: input.description ?? current.description,
+        entries: input.entries ? checkEntries(input.entries) : current.entries,
+        updatedAt: new Date().toISOString()
+      };
+      lexicons.set(id, lexicon);
+      return lexicon;
+    });
+  }
+
+  delete(id: string): Promise<void> {
+    return this.mutate((lexicons) => {
+      this.require(lexicons, id);
+      lexicons.delete(id);
+    });
+  }
+
+  // 新增或覆盖词条（按 grapheme 合并）
+  upsertEntries(id: string, entries: LexiconEntry[]): Promise<Lexicon> {
+    return this.mutate((lexicons) => {
+      const current = this.require(lexicons, id);
+      const added = checkEntries(entries);
+      const graphemes = new Set(added.map(entry => entry.grapheme));
+      const lexicon: Lexicon = {
+        ...current,
+        entries: checkEntries([...current.entries.filter(entry => !graphemes.has(entry.grapheme)), ...added]),
+        updatedAt: new Date().toISOString()
+      };
+      lexicons.set(id, lexicon);
+      return lexicon;
+    });
+  }
+
+  deleteEntry(id: string, grapheme: string): Promise<Lexicon> {
+    return this.mutate((lexicons) => {
+      const current = this.require(lexicons, id);
+      const entries = current.entries.filter(entry => entry.grapheme !== grapheme);
+      if (entries.length === current.entries.length) {
+        throw new ApplicationError(`词典 ${id} 中没有词条 "${grapheme}"`, 404);
+      }
+      const lexicon: Lexicon = { ...current, entries, updatedAt: new Date().toISOString() };
+      lexicons.set(id, lexicon);
+      return lexicon;
+    });
+  }
+
+  // 按顺序合并多个词典为一个匹配器，后面的词典覆盖前面词典中相同原文的词条
+  compile(ids: string[]): LexiconMatcher {
+    const lexicons = this.load();
+    const missing = ids.filter(id => !lexicons.has(id));
+    if (missing.length > 0) {
+      throw new ApplicationError(`词典不存在: ${missing.join(', ')}`, 400);
+    }
+    return new LexiconMatcher(ids.flatMap(id => lexicons.get(id)!.entries));
+  }
+
+  private require(lexicons: Map<string, Lexicon>, id: string): Lexicon {
+    const lexicon = lexicons.get(id);
+    if (!lexicon) {
+      throw new ApplicationError(`词典 ${id} 不存在`, 404);
+    }
+    return lexicon;
+  }
+
+  // 读取词典文件（文件不存在时为空）；文件损坏时拒绝服务，避免被写回覆盖
+  private load(): Map<string, Lexicon> {
+    if (this.lexicons) {
+      return this.lexicons;
+    }
+
+    let lexicons: Lexicon[] = [];
+    try {
+      const file = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as LexiconFile;
+      lexicons = file.lexicons || [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('[LexiconStore] 读取词典文件失败:', { file: this.filePath, error });
+        throw new ApplicationError('词典文件无法读取', 500);
+      }
+    }
+
+    this.lexicons = new Map(lexicons.map(lexicon => [lexicon.id, lexicon]));
+    logger.info('[LexiconStore] 词典已加载', { file: this.filePath, lexicons: this.lexicons.size });
+    return this.lexicons;
+  }
+
+  // 在副本上执行修改，写入文件成功后才生效；修改按调用顺序串行执行
+  private mutate<T>(change: (lexicons: Map<string, Lexicon>) => T): Promise<T> {
+    const run = this.queue.then(async () => {
+      const next = new Map(this.load());
+      const result = change(next);
+      await this.save(next);
+      this.lexicons = next;
+      return result;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async save(lexicons: Map<string, Lexicon>): Promise<void> {
+    const file: LexiconFile = { version: FILE_VERSION, lexicons: Array.from(lexicons.values()) };
+    const tempPath = `${this.filePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(tempPath, JSON.stringify(file, null, 2));
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,156 @@
+// 服务指标 - 由 GET /metrics 按 Prometheus 文本格式输出，可通过 prometheus-adapter 作为 HPA 的自定义指标
+import { Request } from 'express';
+import { MetricsRegistry } from './registry';
+import type { StreamingTTSService } from '../services/StreamingTTSService';
+import type { SynthesisResult } from '../types/tts';
+
+export const registry = new MetricsRegistry();
+
+// 被观测的会话管理器（用于在输出时读取当前会话数和缓存统计）
+let observed: StreamingTTSService | null = null;
+
+export const httpRequests = registry.counter(
+  'tts_http_requests_total',
+  'HTTP requests by method, matched route and status code',
+  ['method', 'route', 'status']
+);
+
+export const rateLimitRejections = registry.counter(
+  'tts_rate_limit_rejections_total',
+  'Requests rejected by a rate limiter',
+  ['limiter']
+);
+
+export const quotaRejections = registry.counter(
+  'tts_quota_rejections_total',
+  'Requests rejected by a usage quota, by metered quantity and window',
+  ['metric', 'window']
+);
+
+const firstChunkSeconds = registry.histogram(
+  'tts_synthesis_first_chunk_seconds',
+  'Time from session start to the first audio chunk',
+  ['cache'],
+  [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10]
+);
+
+const synthesisSeconds = registry.histogram(
+  'tts_synthesis_duration_seconds',
+  'Time from session start to completion',
+  ['cache'],
+  [0.25, 0.5, 1, 2, 5, 10, 30, 60, 120]
+);
+
+const sessionsTotal = registry.counter(
+  'tts_sessions_total',
+  'Finished synthesis sessions by outcome',
+  ['outcome']
+);
+
+const charactersTotal = registry.counter(
+  'tts_synthesized_characters_total',
+  'Characters of input text in completed sessions',
+  ['cache']
+);
+
+const audioSecondsTotal = registry.counter(
+  'tts_audio_seconds_total',
+  'Seconds of audio produced by completed sessions',
+  ['cache']
+);
+
+const upstreamErrors = registry.counter(
+  'tts_upstream_errors_total',
+  'Upstream synthesis failures by error type, including attempts that were retried',
+  ['type', 'retried']
+);
+
+const cacheLookups = registry.counter(
+  'tts_cache_lookups_total',
+  'Synthesis cache lookups by result',
+  ['result']
+);
+
+registry.gauge('tts_active_sessions', 'Synthesis sessions in progress', [], (gauge) => {
+  gauge.set({}, observed ? observed.getActiveSessions().length : 0);
+});
+
+registry.gauge('tts_max_concurrent_sessions', 'Configured concurrent session limit', [], (gauge) => {
+  gauge.set({}, observed ? observed.getConfig().maxConcurrentSessions : 0);
+});
+
+// 会话占用率适合作为 HPA 的目标指标：接近 1 时新请求开始被拒绝
+registry.gauge('tts_session_utilization', 'Active sessions divided by the concurrent session limit', [], (gauge) => {
+  const max = observed ? observed.getConfig().maxConcurrentSessions : 0;
+  gauge.set({}, observed && max > 0 ? observed.getActiveSessions().length / max : 0);
+});
+
+registry.gauge('tts_cache_hit_ratio', 'Synthesis cache hit ratio since start (0 when the cache is disabled)', [], (gauge) => {
+  gauge.set({}, observed?.getCacheStats()?.hitRate ?? 0);
+});
+
+registry.gauge('tts_cache_bytes', 'Bytes held by the synthesis cache', [], (gauge) => {
+  gauge.set({}, observed?.getCacheStats()?.bytes ?? 0);
+});
+
+registry.gauge('process_resident_memory_bytes', 'Resident memory size in bytes', [], (gauge) => {
+  gauge.set({}, process.memoryUsage().rss);
+});
+
+registry.gauge('nodejs_heap_used_bytes', 'V8 heap used in bytes', [], (gauge) => {
+  gauge.set({}, process.memoryUsage().heapUsed);
+});
+
+registry.gauge('process_start_time_seconds', 'Process start time since the Unix epoch in seconds', [], (gauge) => {
+  gauge.set({}, Math.round(Date.now() / 1000 - process.uptime()));
+});
+
+// 请求的路由标签使用匹配到的路由模板（如 /api/tts/lexicons/:id），避免路径参数造成标签基数膨胀
+export const getRouteLabel = (req: Request): string => {
+  return req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+};
+
+// 订阅会话管理器的事件，统计延迟、字符数、音频时长和上游错误
+export const observeService = (service: StreamingTTSService): void => {
+  observed = service;
+  const sessions = new Map<string, { startedAt: number; cache: string; firstChunk: boolean }>();
+
+  const finish = (sessionId: string, outcome: string): void => {
+    if (sessions.delete(sessionId)) {
+      sessionsTotal.inc({ outcome });
+    }
+  };
+
+  service.on('start', (data: { sessionId: string; cacheStatus: string }) => {
+    sessions.set(data.sessionId, { startedAt: Date.now(), cache: data.cacheStatus, firstChunk: false });
+    if (data.cacheStatus !== 'bypass') {
+      cacheLookups.inc({ result: data.cacheStatus });
+    }
+  });
+
+  service.on('audioChunk', (data: { sessionId: string }) => {
+    const session = sessions.get(data.sessionId);
+    if (session && !session.firstChunk) {
+      session.firstChunk = true;
+      firstChunkSeconds.observe({ cache: session.cache }, (Date.now() - session.startedAt) / 1000);
+    }
+  });
+
+  service.on('upstreamError', (data: { code: string; retrying: boolean }) => {
+    upstreamErrors.inc({ type: data.code, retried: String(data.retrying) });
+  });
+
+  service.on('complete', (result: SynthesisResult) => {
+    const session = sessions.get(result.sessionId);
+    const cache = result.cacheStatus;
+    if (session) {
+      synthesisSeconds.observe({ cache }, (Date.now() - session.startedAt) / 1000);
+    }
+    charactersTotal.inc({ cache }, result.segments.reduce((total, segment) => total + segment.text.length, 0));
+    audioSecondsTotal.inc({ cache }, result.durationMs / 1000);
+    finish(result.sessionId, 'completed');
+  });
+
+  service.on('stopped', (data: { sessionId: string }) => finish(data.sessionId, 'stopped'));
+  service.on('error', (error: Error, sessionId: string) => finish(sessionId, 'failed'));
+};
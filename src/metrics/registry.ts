@@ -0,0 +1,212 @@
+// 指标注册表 - 计数器、仪表和直方图，按 Prometheus 文本格式（0.0.4）输出
+
+export type Labels = Record<string, string | number>;
+
+// 指标公共部分：名称、说明、标签名及按标签值分组的序列
+abstract class Metric<T> {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: string[];
+  protected readonly series: Map<string, { labels: Labels; value: T }> = new Map();
+
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  abstract get type(): 'counter' | 'gauge' | 'histogram';
+
+  // 输出本指标的全部样本行
+  abstract render(): string[];
+
+  protected getSeries(labels: Labels, create: () => T): { labels: Labels; value: T } {
+    const key = this.getKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: pickLabels(labels, this.labelNames), value: create() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  protected getKey(labels: Labels): string {
+    return this.labelNames.map(name => String(labels[name] ?? '')).join('\u0000');
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+// 只增不减的计数器
+export class Counter extends Metric<number> {
+  get type(): 'counter' {
+    return 'counter';
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`计数器 ${this.name} 不能减少`);
+    }
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(this.getKey(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return Array.from(this.series.values()).map(({ labels, value }) => formatSample(this.name, labels, value));
+  }
+}
+
+// 可增可减的仪表；提供 collect 时在每次输出前调用它更新取值
+export class Gauge extends Metric<number> {
+  private readonly collect?: (gauge: Gauge) => void;
+
+  constructor(name: string, help: string, labelNames: string[] = [], collect?: (gauge: Gauge) => void) {
+    super(name, help, labelNames);
+    this.collect = collect;
+  }
+
+  get type(): 'gauge' {
+    return 'gauge';
+  }
+
+  set(labels: Labels, value: number): void {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  dec(labels: Labels = {}, value: number = 1): void {
+    this.getSeries(labels, () => 0).value -= value;
+  }
+
+  render(): string[] {
+    this.collect?.(this);
+    return Array.from(this.series.values()).map(({ labels, value }) => formatSample(this.name, labels, value));
+  }
+}
+
+interface HistogramValue {
+  counts: number[];      // 各桶（不含 +Inf）的非累计计数
+  sum: number;
+  count: number;
+}
+
+// 直方图：桶的上界按升序排列，输出时转为累计计数
+export class Histogram extends Metric<HistogramValue> {
+  readonly buckets: number[];
+
+  constructor(name: string, help: string, labelNames: string[], buckets: number[]) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  get type(): 'histogram' {
+    return 'histogram';
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.getSeries(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 }));
+    const index = this.buckets.findIndex(bound => value <= bound);
+    if (index >= 0) {
+      series.value.counts[index]++;
+    }
+    series.value.sum += value;
+    series.value.count++;
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, index) => {
+        cumulative += value.counts[index];
+        lines.push(formatSample(`${this.name}_bucket`, { ...labels, le: formatNumber(bound) }, cumulative));
+      });
+      lines.push(formatSample(`${this.name}_bucket`, { ...labels, le: '+Inf' }, value.count));
+      lines.push(formatSample(`${this.name}_sum`, labels, value.sum));
+      lines.push(formatSample(`${this.name}_count`, labels, value.count));
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Map<string, Metric<unknown>> = new Map();
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = [], collect?: (gauge: Gauge) => void): Gauge {
+    return this.register(new Gauge(name, help, labelNames, collect));
+  }
+
+  histogram(name: string, help: string, labelNames: string[], buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  // 按注册顺序输出全部指标（没有样本的指标也输出 HELP 和 TYPE）
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  // 清空所有样本（测试用）
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  private register<M extends Metric<any>>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`指标 ${metric.name} 已注册`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+// 文本格式的内容类型
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const pickLabels = (labels: Labels, names: string[]): Labels => {
+  const picked: Labels = {};
+  for (const name of names) {
+    picked[name] = labels[name] ?? '';
+  }
+  return picked;
+};
+
+const formatNumber = (value: number): string => {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+};
+
+const escapeHelp = (text: string): string => text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+
+const escapeLabelValue = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+};
+
+const formatSample = (name: string, labels: Labels, value: number): string => {
+  const pairs = Object.entries(labels).map(([key, label]) => `${key}="${escapeLabelValue(String(label))}"`);
+  return `${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${formatNumber(value)}`;
+};
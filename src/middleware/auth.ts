@@ -0,0 +1,117 @@
+// API 密钥认证 - 密钥通过 Authorization: Bearer 请求头传递，无法设置请求头的客户端（EventSource、浏览器 WebSocket）可使用 api_key 查询参数
+import { IncomingMessage } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import { ApiClient, ApiScope, createApiKeyRegistry, hasScope } from '../auth/apiKeys';
+import { getRequestContext } from '../utils/requestContext';
+import { logger } from '../utils/logger';
+import config from '../config';
+
+export const apiKeys = createApiKeyRegistry({ keys: config.auth.apiKeys, file: config.auth.apiKeysFile });
+
+if (apiKeys.enabled) {
+  logger.info('[Auth] API密钥认证已启用', { clients: apiKeys.size });
+} else {
+  logger.warn('[Auth] 未配置API密钥（API_KEYS / API_KEYS_FILE），所有接口均可匿名访问');
+}
+
+// 查询参数中的密钥名
+export const API_KEY_QUERY_PARAM = 'api_key';
+
+// 认证失败的原因：401 未提供或无效的密钥，403 权限不足
+export interface AuthFailure {
+  statusCode: 401 | 403;
+  message: string;
+}
+
+// 从请求中取出密钥：请求头优先，其次是查询参数
+export const getApiKey = (req: IncomingMessage): string | null => {
+  const header = req.headers.authorization;
+  if (header) {
+    const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+    return match ? match[1].trim() : null;
+  }
+
+  const { searchParams } = new URL(req.url || '/', 'http://localhost');
+  return searchParams.get(API_KEY_QUERY_PARAM);
+};
+
+// 日志中的 URL 去掉密钥
+export const redactApiKey = (url: string): string => {
+  return url.replace(new RegExp(`([?&]${API_KEY_QUERY_PARAM}=)[^&#]*`, 'g'), '$1[REDACTED]');
+};
+
+// 校验请求的密钥并检查权限范围（scope 为空时只要求通过认证），成功时把客户端写入请求
+export const authorize = (req: IncomingMessage, scope?: ApiScope): AuthFailure | null => {
+  if (!apiKeys.enabled) {
+    return null;
+  }
+
+  if (!req.apiClient) {
+    const key = getApiKey(req);
+    if (!key) {
+      return { statusCode: 401, message: '缺少API密钥' };
+    }
+    const client = apiKeys.authenticate(key);
+    if (!client) {
+      return { statusCode: 401, message: 'API密钥无效' };
+    }
+    setClient(req, client);
+  }
+
+  if (scope && !hasScope(req.apiClient!, scope)) {
+    return { statusCode: 403, message: `API密钥没有 ${scope} 权限` };
+  }
+  return null;
+};
+
+const setClient = (req: IncomingMessage, client: ApiClient): void => {
+  req.apiClient = client;
+  const context = getRequestContext();
+  if (context) {
+    context.clientId = client.id;
+  }
+};
+
+// 识别客户端（全局中间件）：携带了密钥时校验密钥，无效时返回 401；未携带时作为匿名请求继续，由各路由决定是否需要认证
+export const authenticate = (req: Request, res: Response, next: NextFunction): void => {
+  if (!apiKeys.enabled || !getApiKey(req)) {
+    next();
+    return;
+  }
+
+  const failure = authorize(req);
+  if (failure) {
+    sendFailure(req, res, failure);
+    return;
+  }
+  next();
+};
+
+// 要求通过认证并具有指定权限（路由中间件）
+export const requireScope = (scope?: ApiScope) => (req: Request, res: Response, next: NextFunction): void => {
+  const failure = authorize(req, scope);
+  if (failure) {
+    sendFailure(req, res, failure);
+    return;
+  }
+  next();
+};
+
+const sendFailure = (req: Request, res: Response, failure: AuthFailure): void => {
+  logger.warn('[Auth] 请求被拒绝', {
+    statusCode: failure.statusCode,
+    reason: failure.message,
+    method: req.method,
+    url: redactApiKey(req.originalUrl),
+    clientIP: req.ip
+  });
+
+  if (failure.statusCode === 401) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+  }
+  res.status(failure.statusCode).json({
+    success: false,
+    error: failure.statusCode === 401 ? '未认证' : '权限不足',
+    message: failure.message
+  });
+};
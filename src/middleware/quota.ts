@@ -0,0 +1,164 @@
+// 用量配额 - 合成请求按字符数计费，合成结束后按实际音频时长计费
+// 通过认证的请求按 API 客户端统计，其余按 IP 统计
+import { IncomingMessage } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { quotaManager } from '../services/ttsService';
+import { QuotaDecision, QuotaMetric, QuotaWindow } from '../quota/QuotaManager';
+import { quotaRejections } from '../metrics';
+import { logger } from '../utils/logger';
+import { ApplicationError } from './errorHandler';
+import type { TTSSession } from '../services/TTSSession';
+
+const METRIC_NAMES: Record<QuotaMetric, string> = { characters: '字符数', audioSeconds: '音频时长（秒）' };
+const WINDOW_NAMES: Record<QuotaWindow, string> = { minute: '每分钟', day: '每天' };
+
+// 剩余额度响应头
+const REMAINING_HEADERS: Record<QuotaMetric, Record<QuotaWindow, string>> = {
+  characters: { minute: 'X-Quota-Characters-Remaining-Minute', day: 'X-Quota-Characters-Remaining-Day' },
+  audioSeconds: { minute: 'X-Quota-Audio-Seconds-Remaining-Minute', day: 'X-Quota-Audio-Seconds-Remaining-Day' }
+};
+
+// 配额统计的客户端标识
+export const getQuotaClient = (req: IncomingMessage): string => {
+  if (req.apiClient) {
+    return `key:${req.apiClient.id}`;
+  }
+  return `ip:${(req as Request).ip || req.socket.remoteAddress || 'unknown'}`;
+};
+
+// 超出配额时的错误说明
+export const describeQuotaRejection = (decision: QuotaDecision): string => {
+  const { metric, window, limit } = decision.exceeded!;
+  return decision.retryAfterSeconds === null
+    ? `单次请求的${METRIC_NAMES[metric]}超过${WINDOW_NAMES[window]}上限 ${limit}`
+    : `${METRIC_NAMES[metric]}已达到${WINDOW_NAMES[window]}上限 ${limit}，请在 ${decision.retryAfterSeconds} 秒后重试`;
+};
+
+// 超出配额（WebSocket 等不经过 enforceQuota 的入口使用）
+export class QuotaExceededError extends ApplicationError {
+  readonly retryAfter: number | null;
+
+  constructor(decision: QuotaDecision) {
+    super(describeQuotaRejection(decision), decision.retryAfterSeconds === null ? 413 : 429);
+    this.retryAfter = decision.retryAfterSeconds;
+  }
+}
+
+// 一次请求已扣减的字符数，请求没有合成出结果时退还
+export interface QuotaCharge {
+  client: string;
+  characters: number;     // 尚未退还的字符数
+  chargedAt: number;
+  settled: boolean;       // 已创建会话或提交任务，由其结果决定是否退还
+}
+
+// 检查并扣减配额，返回检查结果；超出配额时计入拒绝指标
+export const consumeQuota = (client: string, characters: number, now: number = Date.now()): QuotaDecision => {
+  const decision = quotaManager.consume(client, characters, now);
+  if (!decision.allowed) {
+    quotaRejections.inc({ metric: decision.exceeded!.metric, window: decision.exceeded!.window });
+    logger.warn('[Quota] 超出用量配额', { client, characters, ...decision.exceeded, retryAfter: decision.retryAfterSeconds });
+  }
+  return decision;
+};
+
+// 退还计费中的字符数（默认全部），重复退还时不超过已扣减的数量
+export const refundQuota = (charge: QuotaCharge, characters: number = charge.characters): void => {
+  const amount = Math.min(characters, charge.characters);
+  if (amount <= 0) {
+    return;
+  }
+  charge.characters -= amount;
+  quotaManager.refund(charge.client, amount, charge.chargedAt);
+  logger.debug('[Quota] 退还字符数', { client: charge.client, characters: amount });
+};
+
+// 会话结束时按已输出的音频时长计费（停止的会话只计已完成的片段）
+// 传入请求的计费时由会话结算：合成失败或没有输出音频就停止的会话退还全部字符数，
+// 中途停止的会话退还还没有输出音频的片段的字符数
+export const meterSession = (client: string, session: TTSSession, charge?: QuotaCharge): void => {
+  if (charge) {
+    charge.settled = true;
+  }
+  let audioMs = 0;
+  session.on('segmentComplete', (data: { startMs: number; durationMs: number }) => {
+    audioMs = Math.max(audioMs, data.startMs + data.durationMs);
+  });
+  session.on('complete', (result: { durationMs: number }) => {
+    audioMs = result.durationMs;
+  });
+  session.once('end', (data: { state: string }) => {
+    quotaManager.recordAudio(client, audioMs / 1000);
+    if (!charge) {
+      return;
+    }
+    if (data.state === 'failed' || (data.state === 'stopped' && session.getInfo().audioBytes === 0)) {
+      refundQuota(charge);
+    } else if (data.state === 'stopped') {
+      refundQuota(charge, session.getUnspokenTextLength());
+    }
+  });
+};
+
+const setQuotaHeaders = (res: Response, decision: QuotaDecision): void => {
+  for (const metric of Object.keys(REMAINING_HEADERS) as QuotaMetric[]) {
+    for (const window of Object.keys(REMAINING_HEADERS[metric]) as QuotaWindow[]) {
+      const remaining = decision.remaining[metric][window];
+      if (remaining !== null) {
+        res.setHeader(REMAINING_HEADERS[metric][window], Math.floor(remaining).toString());
+      }
+    }
+  }
+};
+
+// 本次请求的字符数：text 或 ssml 的长度，批量合成为各条目文本长度之和
+const getRequestCharacters = (body: any): number => {
+  if (Array.isArray(body?.items)) {
+    return body.items.reduce((sum: number, item: any) => sum + (typeof item?.text === 'string' ? item.text.length : 0), 0);
+  }
+  const input = body?.ssml ?? body?.text;
+  return typeof input === 'string' ? input.length : 0;
+};
+
+// 合成接口的配额检查（放在参数验证之后，验证失败的请求不计费）
+// 通过后控制器通过 res.locals.quotaClient 对会话计费，并将 res.locals.quotaCharge 交给会话或任务结算；
+// 响应结束时仍未结算（SSML 或词典错误、并发上限、会话冲突等）的请求退还本次的字符数
+export const enforceQuota = (req: Request, res: Response, next: NextFunction): void => {
+  if (!validationResult(req).isEmpty()) {
+    next();
+    return;
+  }
+
+  const client = getQuotaClient(req);
+  const characters = getRequestCharacters(req.body);
+  const chargedAt = Date.now();
+  const decision = consumeQuota(client, characters, chargedAt);
+  setQuotaHeaders(res, decision);
+
+  if (!decision.allowed) {
+    const oversized = decision.retryAfterSeconds === null;
+    if (!oversized) {
+      res.setHeader('Retry-After', decision.retryAfterSeconds!.toString());
+    }
+    res.status(oversized ? 413 : 429).json({
+      success: false,
+      error: '超出用量配额',
+      message: describeQuotaRejection(decision),
+      ...decision.exceeded,
+      retryAfter: decision.retryAfterSeconds
+    });
+    return;
+  }
+
+  const charge: QuotaCharge = { client, characters, chargedAt, settled: false };
+  res.once('close', () => {
+    if (!charge.settled) {
+      refundQuota(charge);
+    }
+  });
+
+  res.locals.quotaClient = client;
+  res.locals.quotaCharge = charge;
+  next();
+};
@@ -2,6 +2,8 @@ import rateLimit from 'express-rate-limit';
 import { Request, Response } from 'express';
 import config from '../config';
 import { logger } from '../utils/logger';
+import { rateLimitRejections } from '../metrics';
+import { redactApiKey } from './auth';
 
 // 创建速率限制器
 export const rateLimiter = rateLimit({
@@ -15,18 +17,20 @@ export const rateLimiter = rateLimit({
   standardHeaders: true, // 返回速率限制信息在 `RateLimit-*` 头中
   legacyHeaders: false, // 禁用 `X-RateLimit-*` 头
   
-  // 自定义键生成器（基于IP地址）
+  // 自定义键生成器（通过认证的请求按客户端计数，其余按IP地址）
   keyGenerator: (req: Request): string => {
-    return req.ip || req.connection.remoteAddress || 'unknown';
+    return req.apiClient ? `client:${req.apiClient.id}` : req.ip || req.connection.remoteAddress || 'unknown';
   },
   
   // 请求被限制时的处理函数
   handler: (req: Request, res: Response) => {
     const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
     
+    rateLimitRejections.inc({ limiter: 'global' });
     logger.warn('[Rate Limiter] 请求被限制', {
       clientIP,
-      url: req.url,
+      clientId: req.apiClient?.id,
+      url: redactApiKey(req.originalUrl),
       method: req.method,
       userAgent: req.get('User-Agent')
     });
@@ -42,8 +46,8 @@ export const rateLimiter = rateLimit({
   
   // 跳过某些请求的函数
   skip: (req: Request): boolean => {
-    // 跳过健康检查请求
-    if (req.path === '/health' || req.path === '/api/health') {
+    // 跳过健康检查和指标采集请求
+    if (req.path === '/health' || req.path === '/api/health' || req.path === '/metrics') {
       return true;
     }
     
@@ -56,40 +60,4 @@ export const rateLimiter = rateLimit({
   }
 });
 
-// TTS特定的速率限制器（更严格的限制）
-export const ttsRateLimiter = rateLimit({
-  windowMs: config.throttle.ttl * 1000, // 转换为毫秒
-  max: config.throttle.limit,
-  message: {
-    success: false,
-    error: 'TTS请求过于频繁，请稍后再试',
-    retryAfter: config.throttle.ttl
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-  
-  keyGenerator: (req: Request): string => {
-    return req.ip || req.connection.remoteAddress || 'unknown';
-  },
-  
-  handler: (req: Request, res: Response) => {
-    const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
-    
-    logger.warn('[TTS Rate Limiter] TTS请求被限制', {
-      clientIP,
-      url: req.url,
-      method: req.method,
-      textLength: req.body?.text?.length || 0
-    });
-    
-    res.status(429).json({
-      success: false,
-      error: 'TTS请求过于频繁，请稍后再试',
-      retryAfter: config.throttle.ttl,
-      limit: config.throttle.limit,
-      windowMs: config.throttle.ttl * 1000
-    });
-  }
-});
-
 export default rateLimiter;
\ No newline at end of file
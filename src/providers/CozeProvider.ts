@@ -0,0 +1,211 @@
+// Coze 合成服务 - 每条合成连接对应一个 Coze TTS WebSocket 连接，令牌和音色通过查询参数传递
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { logger } from '../utils/logger';
+import { ApplicationError } from '../middleware/errorHandler';
+import { TTSError } from '../services/TTSError';
+import type { AudioSpec } from '../types/tts';
+import { UPSTREAM_FORMAT } from '../audio/formats';
+import { ProviderCapabilities, ProviderConnection, ProviderRequest, TTSProvider } from './TTSProvider';
+import { createCloseError, parsePcmConfig, parseUpstreamMessage, UpstreamMessage } from './cozeProtocol';
+
+// Coze 连接配置
+export interface CozeProviderConfig {
+  token: string;
+  wsUrl: string;
+}
+
+class CozeConnection extends EventEmitter implements ProviderConnection {
+  private readonly wsClient: WebSocket;
+  private requestSpec: AudioSpec | null = null;
+  private done: boolean = false;
+
+  constructor(url: string) {
+    super();
+    try {
+      this.wsClient = new WebSocket(url);
+    } catch (error) {
+      throw new TTSError('connection', `无法连接上游: ${(error as Error).message}`, false);
+    }
+
+    this.wsClient.on('open', () => {
+      if (!this.done) {
+        this.emit('open');
+      }
+    });
+
+    // 握手被拒绝：401/403 为鉴权失败，其余按连接失败处理（只有服务端错误和限流值得重试）
+    this.wsClient.on('unexpected-response', (_req, res) => {
+      const statusCode = res.statusCode || 0;
+      this.failWith(statusCode === 401 || statusCode === 403
+        ? new TTSError('auth', `上游鉴权失败（HTTP ${statusCode}）`)
+        : new TTSError('connection', `上游拒绝连接（HTTP ${statusCode}）`, statusCode >= 500 || statusCode === 429));
+    });
+
+    this.wsClient.on('message', (data: Buffer, isBinary: boolean) => this.handleMessage(data, isBinary));
+
+    this.wsClient.on('error', (error) => {
+      this.failWith(new TTSError('connection', `上游连接错误: ${error.message}`));
+    });
+
+    // 合成完成前被上游关闭
+    this.wsClient.on('close', (code: number, reason: Buffer) => {
+      logger.debug('[CozeProvider] WebSocket连接已关闭', { code, reason: reason.toString() });
+      this.failWith(createCloseError(code, reason.toString()));
+    });
+  }
+
+  synthesize(request: ProviderRequest): void {
+    if (this.done || this.wsClient.readyState !== WebSocket.OPEN) {
+      throw new TTSError('connection', 'WebSocket连接未就绪');
+    }
+
+    this.requestSpec = { sampleRate: request.sampleRate, channels: request.channels, bitDepth: 16 };
+    this.wsClient.send(JSON.stringify({
+      text: request.text,
+      voice_id: request.voiceId,
+      sample_rate: request.sampleRate,
+      channels: request.channels,
+      speed: request.speed,
+      format: UPSTREAM_FORMAT
+    }));
+  }
+
+  cancel(): void {
+    this.done = true;
+    this.removeAllListeners();
+    this.wsClient.close();
+  }
+
+  private handleMessage(data: Buffer, isBinary: boolean): void {
+    if (this.done) {
+      return;
+    }
+
+    let message: UpstreamMessage;
+    try {
+      message = parseUpstreamMessage(data, isBinary);
+    } catch (error) {
+      this.failWith(error as TTSError);
+      return;
+    }
+
+    switch (message.type) {
+      case 'audio':
+        this.emit('audio', message.audio, message.pcmConfig && this.requestSpec
+          ? parsePcmConfig(message.pcmConfig, this.requestSpec)
+          : undefined);
+        break;
+      case 'completed':
+        this.done = true;
+        this.wsClient.close();
+        this.emit('completed');
+        break;
+      case 'error':
+        this.failWith(message.error);
+        break;
+      case 'ignored':
+        break;
+      case 'unknown':
+        // 未知事件不影响合成，只输出诊断信息
+        logger.debug('[CozeProvider] 收到未知的上游事件', {
+          eventType: message.eventType,
+          payload: JSON.stringify(message.payload).substring(0, 200)
+        });
+        break;
+    }
+  }
+
+  private failWith(error: TTSError): void {
+    if (this.done) {
+      return;
+    }
+
+    this.done = true;
+    this.wsClient.close();
+    this.emit('error', error);
+  }
+}
+
+export class CozeProvider implements TTSProvider {
+  readonly name = 'coze';
+  private readonly config: CozeProviderConfig;
+
+  constructor(config: CozeProviderConfig) {
+    this.config = config;
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      sampleRates: null,
+      channels: [1, 2],
+      voices: null,
+      requiresCredentials: true
+    };
+  }
+
+  connect(voiceId: string): ProviderConnection {
+    if (!this.config.token) {
+      throw new TTSError('auth', '缺少Coze API令牌');
+    }
+
+    if (!voiceId) {
+      throw new ApplicationError('缺少音色ID', 400);
+    }
+
+    return new CozeConnection(this.getUrl(voiceId));
+  }
+
+  // 只完成 WebSocket 握手后立即关闭，不发送合成请求：握手成功说明上游可达且令牌有效
+  probe(voiceId: string, timeout: number): Promise<void> {
+    if (!this.config.token) {
+      return Promise.reject(new TTSError('auth', '缺少Coze API令牌'));
+    }
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let wsClient: WebSocket;
+
+      const finish = (error?: TTSError): void => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        wsClient.removeAllListeners();
+        wsClient.on('error', () => undefined);
+        if (wsClient.readyState === WebSocket.OPEN) {
+          wsClient.close();
+        } else {
+          wsClient.terminate();
+        }
+        error ? reject(error) : resolve();
+      };
+
+      try {
+        wsClient = new WebSocket(this.getUrl(voiceId));
+      } catch (error) {
+        reject(new TTSError('connection', `无法连接上游: ${(error as Error).message}`, false));
+        return;
+      }
+
+      const timer = setTimeout(() => finish(new TTSError('timeout', `上游握手超时（${timeout}ms）`)), timeout);
+
+      wsClient.on('open', () => finish());
+      wsClient.on('unexpected-response', (_req, res) => {
+        const statusCode = res.statusCode || 0;
+        finish(statusCode === 401 || statusCode === 403
+          ? new TTSError('auth', `上游鉴权失败（HTTP ${statusCode}）`)
+          : new TTSError('connection', `上游拒绝连接（HTTP ${statusCode}）`));
+      });
+      wsClient.on('error', (error) => finish(new TTSError('connection', `上游连接错误: ${error.message}`)));
+    });
+  }
+
+  private getUrl(voiceId: string): string {
+    const params = new URLSearchParams({ token: this.config.token, voice_id: voiceId });
+    return `${this.config.wsUrl}/tts?${params.toString()}`;
+  }
+}
+
+export default CozeProvider;
@@ -0,0 +1,234 @@
+// 离线合成服务 - 不依赖外部服务的确定性共振峰合成器，用于在没有Coze凭证时开发和演示
+// 每个字符合成为一个音节（元音和声调由字符决定），标点和空白合成为停顿；相同的文本、音色和语速总是生成相同的音频
+import { EventEmitter } from 'events';
+import type { AudioSpec } from '../types/tts';
+import { ProviderCapabilities, ProviderConnection, ProviderRequest, TTSProvider } from './TTSProvider';
+
+// 内置音色的基频（Hz），其他音色ID按哈希映射到 100-260Hz
+const VOICES: Record<string, number> = {
+  female: 210,
+  male: 120,
+  child: 290
+};
+const DEFAULT_VOICE = 'female';
+
+// 元音共振峰 F1/F2/F3（Hz）
+const VOWELS: Array<[number, number, number]> = [
+  [730, 1090, 2440],   // a
+  [530, 1840, 2480],   // e
+  [270, 2290, 3010],   // i
+  [570, 840, 2410],    // o
+  [300, 870, 2240]     // u
+];
+const FORMANT_BANDWIDTHS = [80, 90, 120];
+const FORMANT_GAINS = [1, 0.5, 0.25];
+
+// 各类字符的时长（ms，语速为 1 时）
+const CJK_SYLLABLE_MS = 200;
+const LATIN_SYLLABLE_MS = 80;
+const SENTENCE_PAUSE_MS = 300;
+const CLAUSE_PAUSE_MS = 150;
+const SPACE_PAUSE_MS = 80;
+
+const SENTENCE_TERMINATORS = /[。！？；…!?;.]/;
+
+// 每个音频块的时长（ms）
+const CHUNK_MS = 100;
+
+// 合成单元：音节或停顿
+interface SynthUnit {
+  durationMs: number;
+  vowel: [number, number, number] | null;
+  tone: number;          // 0 平 / 1 升 / 2 降升 / 3 降
+}
+
+// 将文本拆分为合成单元
+const toUnits = (text: string): SynthUnit[] => {
+  const units: SynthUnit[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) || 0;
+    if (/\s/.test(char)) {
+      units.push({ durationMs: SPACE_PAUSE_MS, vowel: null, tone: 0 });
+    } else if (SENTENCE_TERMINATORS.test(char)) {
+      units.push({ durationMs: SENTENCE_PAUSE_MS, vowel: null, tone: 0 });
+    } else if (/\p{P}|\p{S}/u.test(char)) {
+      units.push({ durationMs: CLAUSE_PAUSE_MS, vowel: null, tone: 0 });
+    } else {
+      units.push({
+        durationMs: code < 0x2e80 ? LATIN_SYLLABLE_MS : CJK_SYLLABLE_MS,
+        vowel: VOWELS[code % VOWELS.length],
+        tone: code % 4
+      });
+    }
+  }
+  return units;
+};
+
+// 音色的基频
+const getBasePitch = (voiceId: string): number => {
+  const voice = voiceId || DEFAULT_VOICE;
+  if (VOICES[voice]) {
+    return VOICES[voice];
+  }
+
+  let hash = 0;
+  for (let i = 0; i < voice.length; i++) {
+    hash = (hash * 31 + voice.charCodeAt(i)) >>> 0;
+  }
+  return 100 + (hash % 161);
+};
+
+// 声调的基频曲线，t 为音节内的相对位置（0-1）
+const getToneFactor = (tone: number, t: number): number => {
+  switch (tone) {
+    case 1: return 0.9 + 0.25 * t;
+    case 2: return 1 - 0.4 * t * (1 - t) * 2;
+    case 3: return 1.15 - 0.3 * t;
+    default: return 1;
+  }
+};
+
+// 合成整段文本为单声道采样（-1 到 1）
+export const synthesizeFormants = (text: string, voiceId: string, speed: number, sampleRate: number): Float32Array => {
+  const units = toUnits(text);
+  const basePitch = getBasePitch(voiceId);
+  const rate = speed > 0 ? speed : 1;
+  const lengths = units.map(unit => Math.round(unit.durationMs / rate * sampleRate / 1000));
+  const samples = new Float32Array(lengths.reduce((sum, length) => sum + length, 0));
+
+  // 三个二阶谐振器并联，滤波器状态在音节之间保留，使过渡平滑
+  const state = FORMANT_BANDWIDTHS.map(() => ({ y1: 0, y2: 0 }));
+  const attack = Math.round(0.015 * sampleRate);
+  const release = Math.round(0.04 * sampleRate);
+  let phase = 0;
+  let offset = 0;
+  let peak = 0;
+
+  units.forEach((unit, index) => {
+    const length = lengths[index];
+    if (!unit.vowel) {
+      offset += length;
+      return;
+    }
+
+    const coefficients = unit.vowel.map((frequency, k) => {
+      const r = Math.exp(-Math.PI * FORMANT_BANDWIDTHS[k] / sampleRate);
+      return { b1: 2 * r * Math.cos(2 * Math.PI * frequency / sampleRate), b2: -r * r, a0: 1 - r };
+    });
+
+    for (let n = 0; n < length; n++) {
+      const t = n / length;
+      // 锯齿波近似声门脉冲，基频按声调变化并随句子略微下降
+      phase += basePitch * getToneFactor(unit.tone, t) * (1 - 0.1 * offset / samples.length) / sampleRate;
+      phase -= Math.floor(phase);
+      const source = 1 - 2 * phase;
+
+      let value = 0;
+      for (let k = 0; k < coefficients.length; k++) {
+        const { a0, b1, b2 } = coefficients[k];
+        const y = a0 * source + b1 * state[k].y1 + b2 * state[k].y2;
+        state[k].y2 = state[k].y1;
+        state[k].y1 = y;
+        value += FORMANT_GAINS[k] * y;
+      }
+
+      const envelope = Math.min(1, n / attack, (length - n) / release);
+      samples[offset + n] = value * envelope;
+      peak = Math.max(peak, Math.abs(value * envelope));
+    }
+    offset += length;
+  });
+
+  // 归一化到一半满幅
+  if (peak > 0) {
+    const gain = 0.5 / peak;
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] *= gain;
+    }
+  }
+  return samples;
+};
+
+// 转换为交错的 16 位 PCM
+const toPcm16 = (samples: Float32Array, channels: number): Buffer => {
+  const pcm = Buffer.alloc(samples.length * channels * 2);
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.round(Math.max(-1, Math.min(1, samples[i])) * 32767);
+    for (let c = 0; c < channels; c++) {
+      pcm.writeInt16LE(value, (i * channels + c) * 2);
+    }
+  }
+  return pcm;
+};
+
+class OfflineConnection extends EventEmitter implements ProviderConnection {
+  private readonly voiceId: string;
+  private done: boolean = false;
+
+  constructor(voiceId: string) {
+    super();
+    this.voiceId = voiceId;
+    setImmediate(() => {
+      if (!this.done) {
+        this.emit('open');
+      }
+    });
+  }
+
+  synthesize(request: ProviderRequest): void {
+    const spec: AudioSpec = { sampleRate: request.sampleRate, channels: request.channels, bitDepth: 16 };
+    const pcm = toPcm16(
+      synthesizeFormants(request.text, this.voiceId, request.speed, request.sampleRate),
+      request.channels
+    );
+    const chunkSize = Math.round(spec.sampleRate * CHUNK_MS / 1000) * spec.channels * 2;
+
+    // 每个音频块之间让出事件循环，模拟流式返回
+    let offset = 0;
+    const next = (): void => {
+      if (this.done) {
+        return;
+      }
+
+      if (offset < pcm.length) {
+        const chunk = pcm.subarray(offset, offset + chunkSize);
+        this.emit('audio', chunk, offset === 0 ? spec : undefined);
+        offset += chunk.length;
+        setImmediate(next);
+      } else {
+        this.done = true;
+        this.emit('completed');
+      }
+    };
+    setImmediate(next);
+  }
+
+  cancel(): void {
+    this.done = true;
+    this.removeAllListeners();
+  }
+}
+
+export class OfflineProvider implements TTSProvider {
+  readonly name = 'offline';
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      sampleRates: null,
+      channels: [1, 2],
+      voices: Object.keys(VOICES),
+      requiresCredentials: false
+    };
+  }
+
+  connect(voiceId: string): ProviderConnection {
+    return new OfflineConnection(voiceId);
+  }
+
+  // 离线合成没有上游，始终可用
+  async probe(): Promise<void> {
+    return;
+  }
+}
+
+export default OfflineProvider;
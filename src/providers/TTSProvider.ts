@@ -0,0 +1,45 @@
+// 合成服务提供方接口 - 会话只通过该接口与上游交互，Coze、离线合成等实现可按配置替换
+import type { AudioSpec } from '../types/tts';
+import type { TTSError } from '../services/TTSError';
+
+// 一次合成请求（上游统一输出 16 位 PCM，由服务端重采样并转码为请求的规格和格式）
+export interface ProviderRequest {
+  text: string;
+  voiceId: string;
+  speed: number;
+  sampleRate: number;   // 请求的PCM采样率
+  channels: number;     // 请求的PCM声道数
+}
+
+// 提供方能力描述
+export interface ProviderCapabilities {
+  sampleRates: number[] | null;   // 支持的PCM采样率，null 表示任意采样率
+  channels: number[];             // 支持的PCM声道数
+  voices: string[] | null;        // 可用音色，null 表示由上游决定
+  requiresCredentials: boolean;   // 是否需要API令牌
+}
+
+// 一条合成连接，对应一个文本片段的合成
+// 事件：
+//   open       连接就绪，此后可以调用 synthesize()
+//   audio      (audio: Buffer, spec?: AudioSpec) PCM 音频块，上游给出音频规格时附带 spec
+//   completed  当前请求的音频已全部返回
+//   error      (error: TTSError) 合成失败，之后不再触发其他事件
+export interface ProviderConnection {
+  on(event: 'open' | 'completed', listener: () => void): this;
+  on(event: 'audio', listener: (audio: Buffer, spec?: AudioSpec) => void): this;
+  on(event: 'error', listener: (error: TTSError) => void): this;
+  // 发送合成请求，音频以 audio 事件流式返回
+  synthesize(request: ProviderRequest): void;
+  // 中止合成并关闭连接，之后不再触发任何事件
+  cancel(): void;
+}
+
+export interface TTSProvider {
+  readonly name: string;
+  getCapabilities(): ProviderCapabilities;
+  // 建立合成连接；参数无效时抛出错误，连接失败通过 error 事件通知
+  connect(voiceId: string): ProviderConnection;
+  // 探测上游的连通性和鉴权（不产生合成），超时或失败时以 TTSError 拒绝
+  probe(voiceId: string, timeout: number): Promise<void>;
+}
@@ -0,0 +1,127 @@
+// Coze TTS WebSocket 协议模型 - 上游消息的类型定义，以及将原始帧解析为合成事件
+import type { AudioSpec } from '../types/tts';
+import { TTSError } from '../services/TTSError';
+
+// 上游音频的 PCM 规格（字段名因接口版本而异）
+export interface CozePcmConfig {
+  sample_rate?: number;
+  channels?: number;
+  channel?: number;
+  bit_depth?: number;
+  bits_per_sample?: number;
+}
+
+// 音频数据事件
+export interface CozeAudioEvent {
+  event_type: 'speech.audio.update' | 'speech.audio.chunk';
+  data?: {
+    delta?: string;
+    output_audio?: { data?: string };
+    data?: string;
+    pcm_config?: CozePcmConfig;
+  };
+}
+
+// 合成完成事件
+export interface CozeCompletedEvent {
+  event_type: 'speech.completed' | 'speech.audio.completed';
+}
+
+// 会话创建或配置更新的确认事件，不影响合成
+export interface CozeSessionEvent {
+  event_type: 'speech.created' | 'speech.updated';
+}
+
+// 错误事件
+export interface CozeErrorEvent {
+  event_type: 'error';
+  data?: {
+    code?: number | string;
+    msg?: string;
+    message?: string;
+  };
+  detail?: { logid?: string };
+}
+
+export type CozeEvent = CozeAudioEvent | CozeCompletedEvent | CozeSessionEvent | CozeErrorEvent;
+
+// 解析后的上游消息
+export type UpstreamMessage =
+  | { type: 'audio'; audio: Buffer; pcmConfig?: CozePcmConfig }
+  | { type: 'completed' }
+  | { type: 'ignored'; eventType: string }
+  | { type: 'error'; error: TTSError }
+  | { type: 'unknown'; eventType: string; payload: unknown };
+
+// Coze 鉴权相关的错误码（令牌无效、无权限）
+const AUTH_ERROR_CODES = new Set(['4100', '4101']);
+
+// 解析一帧上游消息：二进制帧是原始音频数据（首字节可能恰好是 '{'），文本帧是 JSON 事件；无法解析的文本帧抛出协议错误
+export const parseUpstreamMessage = (data: Buffer, isBinary: boolean): UpstreamMessage => {
+  if (isBinary) {
+    return { type: 'audio', audio: data };
+  }
+
+  let event: any;
+  try {
+    event = JSON.parse(data.toString());
+  } catch {
+    throw new TTSError('protocol', '上游返回了无法解析的消息');
+  }
+
+  const eventType = typeof event?.event_type === 'string' ? event.event_type : '';
+  switch (eventType) {
+    case 'speech.audio.update':
+    case 'speech.audio.chunk': {
+      const { data: payload } = event as CozeAudioEvent;
+      const b64 = payload?.delta ?? payload?.output_audio?.data ?? payload?.data ?? '';
+      if (!b64) {
+        return { type: 'ignored', eventType };
+      }
+      return { type: 'audio', audio: Buffer.from(b64, 'base64'), pcmConfig: payload?.pcm_config };
+    }
+    case 'speech.completed':
+    case 'speech.audio.completed':
+      return { type: 'completed' };
+    case 'speech.created':
+    case 'speech.updated':
+      return { type: 'ignored', eventType };
+    case 'error':
+      return { type: 'error', error: createUpstreamError(event as CozeErrorEvent) };
+    default:
+      return { type: 'unknown', eventType: eventType || '(无)', payload: event };
+  }
+};
+
+// 将上游错误事件转换为合成错误，保留上游错误码和错误信息
+export const createUpstreamError = (event: CozeErrorEvent): TTSError => {
+  const upstreamCode = event.data?.code;
+  const upstreamMessage = event.data?.msg || event.data?.message || '未知错误';
+  const logId = event.detail?.logid;
+  const message = `上游返回错误${upstreamCode !== undefined ? `（${upstreamCode}）` : ''}: ${upstreamMessage}`
+    + (logId ? ` [logid: ${logId}]` : '');
+
+  return AUTH_ERROR_CODES.has(String(upstreamCode))
+    ? new TTSError('auth', message, false, upstreamCode)
+    : new TTSError('upstream_error', message, false, upstreamCode);
+};
+
+// 上游在合成完成前关闭连接时的错误，保留关闭码和原因
+export const createCloseError = (code: number, reason: string): TTSError => {
+  const detail = reason ? `${code} ${reason}` : `${code}`;
+  return new TTSError('upstream_closed', `上游连接在合成完成前关闭（${detail}）`, true, code);
+};
+
+// 解析上游 pcm_config，缺失的字段沿用请求的规格
+export const parsePcmConfig = (pcmConfig: CozePcmConfig, fallback: AudioSpec): AudioSpec => {
+  const positiveInt = (value: any, defaultValue: number): number => {
+    const num = Number(value);
+    return Number.isInteger(num) && num > 0 ? num : defaultValue;
+  };
+
+  return {
+    sampleRate: positiveInt(pcmConfig.sample_rate, fallback.sampleRate),
+    channels: positiveInt(pcmConfig.channels ?? pcmConfig.channel, fallback.channels),
+    bitDepth: positiveInt(pcmConfig.bit_depth ?? pcmConfig.bits_per_sample, fallback.bitDepth)
+  };
+};
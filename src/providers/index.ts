@@ -0,0 +1,19 @@
+// 根据配置创建合成服务提供方
+import { CozeProvider, CozeProviderConfig } from './CozeProvider';
+import { OfflineProvider } from './OfflineProvider';
+import { TTSProvider } from './TTSProvider';
+
+export const PROVIDERS = ['coze', 'offline'];
+
+export const createProvider = (name: string, coze: CozeProviderConfig): TTSProvider => {
+  switch (name) {
+    case 'coze':
+      return new CozeProvider(coze);
+    case 'offline':
+      return new OfflineProvider();
+    default:
+      throw new Error(`不支持的合成服务: ${name}，可用服务: ${PROVIDERS.join(', ')}`);
+  }
+};
+
+export type { TTSProvider, ProviderCapabilities, ProviderConnection, ProviderRequest } from './TTSProvider';
@@ -0,0 +1,278 @@
+// 用量配额 - 按客户端（API 密钥或 IP）在滑动窗口内统计合成的字符数和音频时长
+// 窗口按固定宽度的桶累计，内存占用与客户端数和桶数成正比，与请求数无关
+
+export type QuotaMetric = 'characters' | 'audioSeconds';
+export type QuotaWindow = 'minute' | 'day';
+
+export const QUOTA_METRICS: QuotaMetric[] = ['characters', 'audioSeconds'];
+
+// 窗口长度及桶宽度（ms）
+export const QUOTA_WINDOWS: Record<QuotaWindow, { windowMs: number; bucketMs: number }> = {
+  minute: { windowMs: 60 * 1000, bucketMs: 1000 },
+  day: { windowMs: 24 * 60 * 60 * 1000, bucketMs: 60 * 1000 }
+};
+
+// 各指标在各窗口内的上限，0 表示不限制
+export type QuotaLimits = Record<QuotaMetric, Record<QuotaWindow, number>>;
+
+// 各指标在各窗口内的取值（剩余额度中 null 表示不限制）
+export type QuotaValues<T = number> = Record<QuotaMetric, Record<QuotaWindow, T>>;
+
+// 配额检查结果
+export interface QuotaDecision {
+  allowed: boolean;
+  exceeded?: { metric: QuotaMetric; window: QuotaWindow; limit: number };
+  retryAfterSeconds: number | null;     // 多久之后重试可以通过；本次请求本身超过上限时为 null
+  remaining: QuotaValues<number | null>;
+}
+
+// 客户端用量
+export interface ClientUsage {
+  client: string;
+  usage: QuotaValues;
+  remaining: QuotaValues<number | null>;
+  totals: {
+    rejected: number;
+    characters: number;
+    audioSeconds: number;
+  };
+  lastSeen: string;
+}
+
+// 滑动窗口计数器：桶按起始时间升序排列，超出窗口的桶在访问时移除
+class SlidingWindow {
+  private readonly windowMs: number;
+  private readonly bucketMs: number;
+  private buckets: Array<{ start: number; amount: number }> = [];
+
+  constructor(windowMs: number, bucketMs: number) {
+    this.windowMs = windowMs;
+    this.bucketMs = bucketMs;
+  }
+
+  add(now: number, amount: number): void {
+    if (amount <= 0) {
+      return;
+    }
+    const start = now - (now % this.bucketMs);
+    const last = this.buckets[this.buckets.length - 1];
+    if (last && last.start === start) {
+      last.amount += amount;
+    } else {
+      this.buckets.push({ start, amount });
+    }
+  }
+
+  // 从 at 所在的桶中扣除（桶已移出窗口时不再扣除）
+  remove(at: number, amount: number): void {
+    const start = at - (at % this.bucketMs);
+    const bucket = this.buckets.find(item => item.start === start);
+    if (bucket) {
+      bucket.amount = Math.max(0, bucket.amount - amount);
+    }
+  }
+
+  total(now: number): number {
+    this.prune(now);
+    return this.buckets.reduce((sum, bucket) => sum + bucket.amount, 0);
+  }
+
+  // 窗口内用量降到 target 以下还需要等待的毫秒数
+  waitUntilBelow(now: number, target: number): number {
+    let total = this.total(now);
+    for (const bucket of this.buckets) {
+      if (total <= target) {
+        break;
+      }
+      total -= bucket.amount;
+      if (total <= target) {
+        return bucket.start + this.windowMs - now;
+      }
+    }
+    return 0;
+  }
+
+  // 桶按起始时间整体移出窗口（最多提前一个桶宽度）
+  private prune(now: number): void {
+    const cutoff = now - this.windowMs;
+    let expired = 0;
+    while (expired < this.buckets.length && this.buckets[expired].start <= cutoff) {
+      expired++;
+    }
+    if (expired > 0) {
+      this.buckets = this.buckets.slice(expired);
+    }
+  }
+}
+
+interface ClientState {
+  windows: Record<QuotaMetric, Record<QuotaWindow, SlidingWindow>>;
+  totals: ClientUsage['totals'];
+  lastSeen: number;
+}
+
+// 空闲客户端的清理间隔（ms）
+const PRUNE_INTERVAL = 60 * 1000;
+
+// 音频时长累加产生的浮点误差不对外展示
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+export class QuotaManager {
+  readonly limits: QuotaLimits;
+  private readonly clients: Map<string, ClientState> = new Map();
+  private lastPrune: number = 0;
+
+  constructor(limits: QuotaLimits) {
+    this.limits = limits;
+  }
+
+  // 是否配置了任何上限
+  get enabled(): boolean {
+    return QUOTA_METRICS.some(metric => this.limits[metric].minute > 0 || this.limits[metric].day > 0);
+  }
+
+  // 检查并记录一次用量：字符数计入本次用量后不能超过上限，音频时长（合成结束后才知道）已用完时拒绝
+  // 通过时立即记录本次的字符数
+  consume(client: string, characters: number, now: number = Date.now()): QuotaDecision {
+    this.pruneClients(now);
+    const state = this.getState(client, now);
+
+    for (const metric of QUOTA_METRICS) {
+      for (const window of Object.keys(QUOTA_WINDOWS) as QuotaWindow[]) {
+        const limit = this.limits[metric][window];
+        if (limit <= 0) {
+          continue;
+        }
+
+        const counter = state.windows[metric][window];
+        const used = counter.total(now);
+        // 音频时长在请求结束后才记录，只要求窗口内仍有剩余
+        const fits = metric === 'characters' ? used + characters <= limit : used < limit;
+        if (fits) {
+          continue;
+        }
+
+        state.totals.rejected++;
+        const target = metric === 'characters' ? limit - characters : limit - Number.EPSILON;
+        return {
+          allowed: false,
+          exceeded: { metric, window, limit },
+          retryAfterSeconds: target < 0 ? null : Math.max(1, Math.ceil(counter.waitUntilBelow(now, target) / 1000)),
+          remaining: this.getRemaining(state, now)
+        };
+      }
+    }
+
+    this.add(state, 'characters', characters, now);
+    return { allowed: true, retryAfterSeconds: null, remaining: this.getRemaining(state, now) };
+  }
+
+  // 退还 chargedAt 时记录的字符数（请求被拒绝或合成失败时调用）
+  refund(client: string, characters: number, chargedAt: number): void {
+    const state = this.clients.get(client);
+    if (!state || characters <= 0) {
+      return;
+    }
+    state.windows.characters.minute.remove(chargedAt, characters);
+    state.windows.characters.day.remove(chargedAt, characters);
+    state.totals.characters = Math.max(0, state.totals.characters - characters);
+  }
+
+  // 记录合成产生的音频时长（秒）
+  recordAudio(client: string, seconds: number, now: number = Date.now()): void {
+    this.add(this.getState(client, now), 'audioSeconds', seconds, now);
+  }
+
+  // 单个客户端的用量，没有记录时返回 null
+  getUsage(client: string, now: number = Date.now()): ClientUsage | null {
+    const state = this.clients.get(client);
+    return state ? this.toUsage(client, state, now) : null;
+  }
+
+  // 全部客户端的用量，按最近活动时间倒序
+  listUsage(now: number = Date.now()): ClientUsage[] {
+    this.pruneClients(now);
+    return Array.from(this.clients.entries())
+      .sort(([, a], [, b]) => b.lastSeen - a.lastSeen)
+      .map(([client, state]) => this.toUsage(client, state, now));
+  }
+
+  private add(state: ClientState, metric: QuotaMetric, amount: number, now: number): void {
+    state.windows[metric].minute.add(now, amount);
+    state.windows[metric].day.add(now, amount);
+    state.totals[metric] += amount;
+    state.lastSeen = now;
+  }
+
+  private getState(client: string, now: number): ClientState {
+    let state = this.clients.get(client);
+    if (!state) {
+      const createWindows = (): Record<QuotaWindow, SlidingWindow> => ({
+        minute: new SlidingWindow(QUOTA_WINDOWS.minute.windowMs, QUOTA_WINDOWS.minute.bucketMs),
+        day: new SlidingWindow(QUOTA_WINDOWS.day.windowMs, QUOTA_WINDOWS.day.bucketMs)
+      });
+      state = {
+        windows: { characters: createWindows(), audioSeconds: createWindows() },
+        totals: { rejected: 0, characters: 0, audioSeconds: 0 },
+        lastSeen: now
+      };
+      this.clients.set(client, state);
+    }
+    state.lastSeen = now;
+    return state;
+  }
+
+  private getUsed(state: ClientState, now: number): QuotaValues {
+    const usage = {} as QuotaValues;
+    for (const metric of QUOTA_METRICS) {
+      usage[metric] = {
+        minute: round(state.windows[metric].minute.total(now)),
+        day: round(state.windows[metric].day.total(now))
+      };
+    }
+    return usage;
+  }
+
+  private getRemaining(state: ClientState, now: number): QuotaValues<number | null> {
+    const used = this.getUsed(state, now);
+    const remaining = {} as QuotaValues<number | null>;
+    for (const metric of QUOTA_METRICS) {
+      const limits = this.limits[metric];
+      remaining[metric] = {
+        minute: limits.minute > 0 ? Math.max(0, limits.minute - used[metric].minute) : null,
+        day: limits.day > 0 ? Math.max(0, limits.day - used[metric].day) : null
+      };
+    }
+    return remaining;
+  }
+
+  private toUsage(client: string, state: ClientState, now: number): ClientUsage {
+    return {
+      client,
+      usage: this.getUsed(state, now),
+      remaining: this.getRemaining(state, now),
+      totals: {
+        rejected: state.totals.rejected,
+        characters: state.totals.characters,
+        audioSeconds: round(state.totals.audioSeconds)
+      },
+      lastSeen: new Date(state.lastSeen).toISOString()
+    };
+  }
+
+  // 移除超过一天没有活动的客户端（其窗口内已没有用量）
+  private pruneClients(now: number): void {
+    if (now - this.lastPrune < PRUNE_INTERVAL) {
+      return;
+    }
+    this.lastPrune = now;
+
+    for (const [client, state] of this.clients) {
+      if (now - state.lastSeen >= QUOTA_WINDOWS.day.windowMs) {
+        this.clients.delete(client);
+      }
+    }
+  }
+}
+
+export default QuotaManager;
@@ -1,5 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { logger } from '../utils/logger';
+import { upstreamHealth } from '../services/ttsService';
+import { UpstreamHealthStatus } from '../services/UpstreamHealth';
 import config from '../config';
 
 const router = Router();
@@ -12,10 +14,7 @@ interface HealthStatus {
   version: string;
   environment: string;
   services: {
-    coze: {
-      status: 'connected' | 'disconnected' | 'unknown';
-      lastCheck: string;
-    };
+    coze: UpstreamHealthStatus;
     memory: {
       used: number;
       total: number;
@@ -32,23 +31,8 @@ interface HealthStatus {
   };
 }
 
-// 检查Coze服务连接状态
-const checkCozeService = async (): Promise<{ status: 'connected' | 'disconnected' | 'unknown'; lastCheck: string }> => {
-  try {
-    // 这里可以添加实际的Coze服务连接检查逻辑
-    // 目前返回基本状态
-    return {
-      status: 'unknown',
-      lastCheck: new Date().toISOString()
-    };
-  } catch (error) {
-    logger.error('[Health Check] Coze服务检查失败:', error);
-    return {
-      status: 'disconnected',
-      lastCheck: new Date().toISOString()
-    };
-  }
-};
+// 检查Coze服务连接状态（探测结果在 HEALTH_PROBE_INTERVAL 内复用，探测本身不会失败）
+const checkCozeService = (): Promise<UpstreamHealthStatus> => upstreamHealth.check();
 
 // 获取内存使用情况
 const getMemoryUsage = () => {
@@ -64,12 +48,17 @@ const getMemoryUsage = () => {
   };
 };
 
-// 获取CPU使用情况（简化版）
+// 上次计算CPU使用率时的进程CPU时间和时刻
+let lastCpuSample = { usage: process.cpuUsage(), time: process.hrtime.bigint() };
+
+// 获取CPU使用率：自上次检查（或进程启动）以来进程占用的CPU时间相对于经过时间的百分比（单核为100%）
 const getCpuUsage = (): number => {
-  const cpuUsage = process.cpuUsage();
-  const totalUsage = cpuUsage.user + cpuUsage.system;
-  // 简化的CPU使用率计算
-  return Math.round((totalUsage / 1000000) % 100);
+  const time = process.hrtime.bigint();
+  const usage = process.cpuUsage(lastCpuSample.usage);
+  const elapsedMicros = Number(time - lastCpuSample.time) / 1000;
+  lastCpuSample = { usage: process.cpuUsage(), time };
+
+  return elapsedMicros > 0 ? Math.round(((usage.user + usage.system) / elapsedMicros) * 100) : 0;
 };
 
 /**
@@ -110,6 +99,7 @@ router.get('/detailed', async (req: Request, res: Response) => {
     
     // 判断整体健康状态
     const isHealthy = 
+      cozeStatus.ready && // 上游未连续探测失败
       memoryUsage.percentage < 90 && // 内存使用率小于90%
       cpuUsage < 80; // CPU使用率小于80%
     
@@ -139,6 +129,7 @@ router.get('/detailed', async (req: Request, res: Response) => {
     logger.info('[Health Check] 详细健康检查完成', {
       status: healthStatus.status,
       responseTime: `${responseTime}ms`,
+      coze: cozeStatus.status,
       memoryUsage: memoryUsage.percentage,
       cpuUsage,
       uptime: healthStatus.uptime
@@ -167,7 +158,8 @@ router.get('/detailed', async (req: Request, res: Response) => {
  * @returns {
  *   ready: boolean,
  *   timestamp: string,
- *   checks: object
+ *   checks: object,
+ *   coze: UpstreamHealthStatus   // 上游探测结果（status/ready/latencyMs/lastSuccess/lastError/consecutiveFailures）
  * }
  */
 router.get('/readiness', async (req: Request, res: Response) => {
@@ -178,9 +170,9 @@ router.get('/readiness', async (req: Request, res: Response) => {
       config: false
     };
     
-    // 检查Coze服务
+    // 检查Coze服务（连续失败达到 HEALTH_FAILURE_THRESHOLD 次后才判定为未就绪）
     const cozeStatus = await checkCozeService();
-    checks.coze = cozeStatus.status !== 'disconnected';
+    checks.coze = cozeStatus.ready;
     
     // 检查内存使用
     const memoryUsage = getMemoryUsage();
@@ -194,7 +186,8 @@ router.get('/readiness', async (req: Request, res: Response) => {
     const readinessStatus = {
       ready: isReady,
       timestamp: new Date().toISOString(),
-      checks
+      checks,
+      coze: cozeStatus
     };
     
     const statusCode = isReady ? 200 : 503;
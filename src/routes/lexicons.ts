@@ -0,0 +1,104 @@
+import { Router } from 'express';
+import {
+  listLexicons,
+  getLexicon,
+  createLexicon,
+  updateLexicon,
+  deleteLexicon,
+  upsertLexiconEntries,
+  deleteLexiconEntry,
+  createLexiconValidation,
+  updateLexiconValidation,
+  upsertEntriesValidation,
+  deleteEntryValidation
+} from '../controllers/lexiconController';
+import { rateLimiter } from '../middleware/rateLimiter';
+import { requireScope } from '../middleware/auth';
+import { errorHandler } from '../middleware/errorHandler';
+
+const router = Router();
+
+// 应用速率限制中间件到所有路由
+router.use(rateLimiter);
+
+/**
+ * @route GET /api/tts/lexicons
+ * @desc 获取发音词典列表
+ * @access API Key
+ * @returns {
+ *   success: boolean,
+ *   data: Array<{ id, name, description, entryCount, createdAt, updatedAt }>
+ * }
+ */
+router.get('/', requireScope(), listLexicons);
+
+/**
+ * @route POST /api/tts/lexicons
+ * @desc 创建发音词典
+ * @access API Key (scope: admin:lexicons)
+ * @body {
+ *   id?: string,            // 词典ID（可选，字母、数字、下划线和连字符，最长64个字符；未提供时自动生成）
+ *   name?: string,          // 名称（可选，默认同 id）
+ *   description?: string,   // 描述（可选）
+ *   entries?: Array<{       // 词条（可选，最多10000条）
+ *     grapheme: string,     // 原文
+ *     replacement?: string, // 替换读法（与 pinyin 二选一）
+ *     pinyin?: string       // 数字标调的拼音，如 "chong2 qing4"（与 replacement 二选一）
+ *   }>
+ * }
+ * @returns { success: boolean, data: Lexicon }（201；id 已存在时返回 409）
+ */
+router.post('/', requireScope('admin:lexicons'), createLexiconValidation, createLexicon);
+
+/**
+ * @route GET /api/tts/lexicons/:id
+ * @desc 获取发音词典（含词条）
+ * @access API Key
+ * @returns { success: boolean, data: Lexicon }（不存在时返回 404）
+ */
+router.get('/:id', requireScope(), getLexicon);
+
+/**
+ * @route PUT /api/tts/lexicons/:id
+ * @desc 更新发音词典
+ * @access API Key (scope: admin:lexicons)
+ * @body {
+ *   name?: string,          // 名称（可选）
+ *   description?: string,   // 描述（可选）
+ *   entries?: LexiconEntry[]  // 词条（可选，提供时整体替换原有词条）
+ * }
+ * @returns { success: boolean, data: Lexicon }
+ */
+router.put('/:id', requireScope('admin:lexicons'), updateLexiconValidation, updateLexicon);
+
+/**
+ * @route DELETE /api/tts/lexicons/:id
+ * @desc 删除发音词典
+ * @access API Key (scope: admin:lexicons)
+ * @returns { success: boolean, message: string }
+ */
+router.delete('/:id', requireScope('admin:lexicons'), deleteLexicon);
+
+/**
+ * @route POST /api/tts/lexicons/:id/entries
+ * @desc 新增或覆盖词条（按 grapheme 合并，其余词条保持不变）
+ * @access API Key (scope: admin:lexicons)
+ * @body {
+ *   entries: LexiconEntry[]   // 词条（必需，至少1条）
+ * }
+ * @returns { success: boolean, data: Lexicon }
+ */
+router.post('/:id/entries', requireScope('admin:lexicons'), upsertEntriesValidation, upsertLexiconEntries);
+
+/**
+ * @route DELETE /api/tts/lexicons/:id/entries/:grapheme
+ * @desc 删除词条（grapheme 需要 URL 编码）
+ * @access API Key (scope: admin:lexicons)
+ * @returns { success: boolean, data: Lexicon }
+ */
+router.delete('/:id/entries/:grapheme', requireScope('admin:lexicons'), deleteEntryValidation, deleteLexiconEntry);
+
+// 应用错误处理中间件
+router.use(errorHandler);
+
+export default router;
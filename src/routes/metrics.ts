@@ -0,0 +1,29 @@
+import { Router, Request, Response } from 'express';
+import { registry } from '../metrics';
+import { METRICS_CONTENT_TYPE } from '../metrics/registry';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+/**
+ * @route GET /metrics
+ * @desc Prometheus 指标（文本格式 0.0.4）：HTTP 请求数、合成延迟直方图、合成字符数与音频时长、活动会话数、上游错误、缓存命中率、限流拒绝数
+ * @access Public
+ * @returns text/plain; version=0.0.4
+ */
+router.get('/', (req: Request, res: Response) => {
+  try {
+    res.setHeader('Content-Type', METRICS_CONTENT_TYPE);
+    res.status(200).send(registry.render());
+  } catch (error) {
+    logger.error('[Metrics] 输出指标失败:', error);
+
+    res.status(500).json({
+      success: false,
+      error: '输出指标失败',
+      message: error instanceof Error ? error.message : '未知错误'
+    });
+  }
+});
+
+export default router;
@@ -2,12 +2,31 @@ import { Router } from 'express';
 import {
   synthesize,
   synthesizeStream,
+  resumeSynthesisStream,
+  reattachSynthesisStream,
+  synthesizeBatch,
+  streamAudio,
   stopSynthesis,
+  stopSession,
   getStatus,
+  getUsage,
   updateConfig,
-  synthesizeValidation
+  createJob,
+  getJob,
+  getJobAudio,
+  cancelJob,
+  normalize,
+  synthesizeValidation,
+  normalizeValidation,
+  createJobValidation,
+  batchValidation,
+  rawStreamValidation,
+  stopSessionValidation
 } from '../controllers/ttsController';
+import { OUTPUT_FORMATS, getFileExtension } from '../audio/formats';
 import { rateLimiter } from '../middleware/rateLimiter';
+import { requireScope } from '../middleware/auth';
+import { enforceQuota } from '../middleware/quota';
 import { errorHandler } from '../middleware/errorHandler';
 
 const router = Router();
@@ -18,67 +37,257 @@ router.use(rateLimiter);
 /**
  * @route POST /api/tts/synthesize
  * @desc 语音合成（返回完整音频文件）
- * @access Public
+ * @access API Key (scope: synthesize)
  * @body {
- *   text: string,           // 要合成的文本（必需）
+ *   text?: string,          // 要合成的文本（text 与 ssml 二选一）
+ *   ssml?: string,          // SSML 标记（text 与 ssml 二选一，支持的子集见 README）
  *   sessionId?: string,     // 会话ID（可选）
- *   voiceId?: string,       // 语音ID（可选）
- *   speed?: number          // 语速 0.5-2.0（可选）
+ *   voiceId?: string,       // 语音ID（可选，仅作用于本次请求）
+ *   speed?: number,         // 语速 0.5-2.0（可选，仅作用于本次请求）
+ *   sampleRate?: number,    // 输出采样率 8000/11025/12000/16000/22050/24000/32000/44100/48000（可选，仅作用于本次请求）
+ *   channels?: number,      // 输出声道数 1/2（可选，仅作用于本次请求）
+ *   format?: string,        // 输出格式 wav/pcm/mp3/opus/mulaw/alaw（可选，仅作用于本次请求；未提供时按 Accept 头协商）
+ *   normalize?: boolean,    // 是否在合成前规范化文本（可选，默认 TEXT_NORMALIZE）
+ *   locale?: string,        // 规范化语言 auto/zh/en（可选，默认 TEXT_LOCALE）
+ *   lexicons?: string[]     // 按顺序应用的发音词典ID（可选，最多10个，后面的词典优先；词典不存在时返回 400）
  * }
- * @returns 音频文件 (audio/wav)
+ * @returns 音频文件（Content-Type 与实际编码一致；SSML 无效时返回 400，details 为带行列号的问题列表），X-TTS-Voice-ID / X-TTS-Speed / X-TTS-Sample-Rate / X-TTS-Channels / X-TTS-Format 响应头回显实际生效的参数，X-TTS-Cache 响应头为缓存命中状态 hit/miss/bypass；X-Quota-*-Remaining-* 响应头为剩余配额，超出配额时返回 429 和 Retry-After
  */
-router.post('/synthesize', synthesizeValidation, synthesize);
+router.post('/synthesize', requireScope('synthesize'), synthesizeValidation, enforceQuota, synthesize);
 
 /**
  * @route POST /api/tts/synthesize-stream
  * @desc 流式语音合成（Server-Sent Events）
- * @access Public
+ * @access API Key (scope: stream)
  * @body {
- *   text: string,           // 要合成的文本（必需）
+ *   text?: string,          // 要合成的文本（text 与 ssml 二选一）
+ *   ssml?: string,          // SSML 标记（text 与 ssml 二选一，支持的子集见 README）
  *   sessionId?: string,     // 会话ID（可选）
- *   voiceId?: string,       // 语音ID（可选）
- *   speed?: number          // 语速 0.5-2.0（可选）
+ *   voiceId?: string,       // 语音ID（可选，仅作用于本次请求）
+ *   speed?: number,         // 语速 0.5-2.0（可选，仅作用于本次请求）
+ *   sampleRate?: number,    // 输出采样率 8000/11025/12000/16000/22050/24000/32000/44100/48000（可选，仅作用于本次请求）
+ *   channels?: number,      // 输出声道数 1/2（可选，仅作用于本次请求）
+ *   format?: string,        // 输出格式 wav/pcm/mp3/opus/mulaw/alaw（可选，仅作用于本次请求）
+ *   normalize?: boolean,    // 是否在合成前规范化文本（可选，默认 TEXT_NORMALIZE）
+ *   locale?: string,        // 规范化语言 auto/zh/en（可选，默认 TEXT_LOCALE）
+ *   lexicons?: string[]     // 按顺序应用的发音词典ID（可选，最多10个，后面的词典优先；词典不存在时返回 400）
+ * }
+ * @header Last-Event-ID?   // 断线重连时携带最后收到的事件ID；流仍在重放缓冲区中时从下一个事件继续（不重新合成、不重复计费），否则按新请求处理
+ * @returns Server-Sent Events stream（audioChunk 为逐块转码后的输出格式数据，segmentIndex 为所属句子；每句结束时发送 segmentComplete，SSML 中的停顿作为 text 为空的片段；connected/complete 事件中的 params 字段回显实际生效的参数；超出配额时在建立流之前返回 429）；
+ *   每个事件带有 id: <sessionId>:<序号>，空闲时发送心跳注释行；客户端断开后会话在 SSE_RESUME_GRACE_MS 内继续合成；
+ *   重连时先发送不带 id 的 resumed 事件，流已结束且没有未收到的事件时返回 204，所需事件已移出重放缓冲区时返回 410
+ */
+router.post('/synthesize-stream', requireScope('stream'), resumeSynthesisStream, synthesizeValidation, enforceQuota, synthesizeStream);
+
+/**
+ * @route GET /api/tts/synthesize-stream/:sessionId
+ * @desc 重新连接流式语音合成（可直接用于 EventSource 的自动重连）
+ * @access API Key (scope: stream；只能重连自己创建的流)
+ * @header Last-Event-ID?   // 最后收到的事件ID，也可使用 lastEventId 查询参数；都没有时从缓冲区中最早的事件开始
+ * @returns 与 POST /synthesize-stream 相同的事件流；流不存在或已过期时返回 404，流已结束且没有未收到的事件时返回 204，
+ *   所需事件已移出重放缓冲区时返回 410，事件ID不属于该会话时返回 400
+ */
+router.get('/synthesize-stream/:sessionId', requireScope('stream'), reattachSynthesisStream);
+
+// 原始音频流的路径：/stream.wav、/stream.mp3、/stream.ogg 等，扩展名决定输出格式
+const RAW_STREAM_PATH = `/stream.:ext(${OUTPUT_FORMATS.map(getFileExtension).join('|')})`;
+
+/**
+ * @route GET|POST /api/tts/stream.{wav,mp3,ogg,pcm,ulaw,alaw}
+ * @desc 原始音频流（音频字节直接以分块传输写入响应体，可直接用于 <audio> 或 ffmpeg）
+ * @access API Key (scope: stream；GET 请求可使用 api_key 查询参数)
+ * @body 与 /synthesize 相同，GET 请求使用同名查询参数（normalize 为 true/false，lexicons 以逗号分隔）；
+ *   输出格式由扩展名决定（ogg 为 Ogg Opus），请求中的 format 被忽略
+ * @returns 分块传输的音频（WAV 文件头的长度字段为 0xFFFFFFFF；MP3 与 Ogg 按帧/页输出）；Cache-Control: no-transform，不经过压缩；
+ *   客户端读取较慢时暂停开始新的句子；开始输出音频之前的错误返回 JSON，之后出错时中断连接
+ */
+router.get(RAW_STREAM_PATH, requireScope('stream'), rawStreamValidation, enforceQuota, streamAudio);
+router.post(RAW_STREAM_PATH, requireScope('stream'), rawStreamValidation, enforceQuota, streamAudio);
+
+/**
+ * @route POST /api/tts/batch
+ * @desc 批量合成（按 BATCH_CONCURRENCY 并发合成，全部结束后返回 ZIP 归档）
+ * @access API Key (scope: synthesize)
+ * @body {
+ *   items: Array<{
+ *     id: string,           // 调用方提供的唯一ID，作为归档中的文件名（字母、数字、_ . -，最长64）
+ *     text: string,         // 要合成的文本 1-5000 字符
+ *     voiceId?: string,     // 以下参数覆盖顶层的默认值
+ *     speed?: number,
+ *     format?: string
+ *   }>,                     // 1-BATCH_MAX_ITEMS 个条目
+ *   voiceId?, speed?, sampleRate?, channels?, format?, normalize?, locale?, lexicons?  // 各条目的默认参数，同 /synthesize
  * }
- * @returns Server-Sent Events stream
+ * @returns application/zip：manifest.json（每条的 status、file、format、size、durationMs、params 或 error）及 <id>.<扩展名> 音频文件；
+ *   单条失败不影响其余条目，X-TTS-Batch-Succeeded / X-TTS-Batch-Failed 响应头为成功和失败的条目数；配额按全部条目的字符数之和检查
  */
-router.post('/synthesize-stream', synthesizeValidation, synthesizeStream);
+router.post('/batch', requireScope('synthesize'), batchValidation, enforceQuota, synthesizeBatch);
+
+/**
+ * @route POST /api/tts/normalize
+ * @desc 文本规范化预览（返回合成前发送给上游的文本，不进行合成）
+ * @access API Key (scope: synthesize)
+ * @body {
+ *   text: string,           // 要规范化的文本（必需）
+ *   locale?: string,        // 规范化语言 auto/zh/en（可选，默认 TEXT_LOCALE）
+ *   lexicons?: string[]     // 按顺序应用的发音词典ID（可选，最多10个，后面的词典优先；词典不存在时返回 400）
+ * }
+ * @returns {
+ *   success: boolean,
+ *   data: {
+ *     text: string,         // 原文
+ *     normalized: string,   // 规范化后的文本（各片段发送给上游的文本依次连接）
+ *     locale: string,       // 实际使用的读法语言 zh/en
+ *     segments: Array<{ text: string, normalized: string }>  // 合成时的分句及各句发送给上游的文本
+ *   }
+ * }
+ */
+router.post('/normalize', requireScope('synthesize'), normalizeValidation, normalize);
 
 /**
  * @route POST /api/tts/stop
- * @desc 停止当前语音合成
- * @access Public
+ * @desc 停止语音合成（指定sessionId时只停止该会话，否则停止全部会话）
+ * @access API Key (scope: admin:stop)
+ * @body {
+ *   sessionId?: string      // 会话ID（可选）
+ * }
  * @returns {
  *   success: boolean,
- *   message: string
+ *   message: string,
+ *   stopped: number         // 被停止的会话数
+ * }
+ */
+router.post('/stop', requireScope('admin:stop'), stopSynthesis);
+
+/**
+ * @route POST /api/tts/sessions/:sessionId/stop
+ * @desc 停止单个会话（打断正在播报的内容）
+ * @access API Key（只能停止自己创建的会话；scope: admin:stop 可停止任意会话）
+ * @body {
+ *   mode?: string           // immediate（默认）立即停止；sentence 丢弃排队的句子，正在输出的句子输出完后停止
  * }
+ * @returns {
+ *   success: boolean,
+ *   message: string,
+ *   data: {
+ *     sessionId: string,
+ *     mode: string,
+ *     state: string,        // stopped；sentence 模式下正在输出的已是最后一句时为 completed
+ *     deliveredMs: number,  // 停止前已输出的音频时长（ms）
+ *     audioBytes: number,   // 停止前已输出的音频字节数
+ *     completedSegments: number,
+ *     segmentCount: number
+ *   }
+ * }（会话结束后返回；会话不存在或属于其他客户端时返回 404）
  */
-router.post('/stop', stopSynthesis);
+router.post('/sessions/:sessionId/stop', requireScope(), stopSessionValidation, stopSession);
 
 /**
  * @route GET /api/tts/status
  * @desc 获取TTS服务状态
- * @access Public
+ * @access API Key
  * @returns {
  *   success: boolean,
  *   data: {
  *     isProcessing: boolean,
  *     isSupported: boolean,
+ *     activeSessionCount: number,
+ *     maxConcurrentSessions: number,
+ *     activeSessions: SessionInfo[],
  *     config: {
  *       enabled: boolean,
  *       sampleRate: number,
  *       channels: number,
  *       speed: number,
- *       format: string
- *     }
+ *       format: string,
+ *       normalize: boolean,
+ *       locale: string
+ *     },
+ *     provider: { name: string, capabilities: ProviderCapabilities },
+ *     cache: SynthesisCacheStats | null,  // 缓存未启用时为 null
+ *     jobs: { queued, running, stored, concurrency, maxQueued }   // 异步合成任务
+ *   }
+ * }
+ */
+router.get('/status', requireScope(), getStatus);
+
+/**
+ * @route POST /api/tts/jobs
+ * @desc 提交异步合成任务（立即返回任务ID，适合超过单次请求上限或合成时间较长的文本）
+ * @access API Key (scope: synthesize)
+ * @body 与 /synthesize 相同（不接受 sessionId，任务ID即会话ID），text 最长 JOB_MAX_TEXT_LENGTH 字符
+ *   callbackUrl?: string       // 任务结束后 POST 签名通知的地址（需配置 WEBHOOK_SECRET）
+ *   callbackAudio?: 'url' | 'inline'  // 通知中提供下载地址（默认）或内嵌 base64 音频
+ * @returns 202 { success: boolean, data: JobInfo }，Location 响应头为任务地址；排队任务数达到 JOB_MAX_QUEUED 时返回 429
+ */
+router.post('/jobs', requireScope('synthesize'), createJobValidation, enforceQuota, createJob);
+
+/**
+ * @route GET /api/tts/jobs/:id
+ * @desc 查询合成任务的状态和进度
+ * @access API Key (scope: synthesize，只能访问自己提交的任务)
+ * @returns {
+ *   success: boolean,
+ *   data: {
+ *     jobId: string,
+ *     state: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled',
+ *     progress: { segments: number, completedSegments: number, audioDurationMs: number },
+ *     queuePosition: number | null,        // 排队中时前面的任务数
+ *     params: SynthesisParams | null,      // 开始合成后实际生效的参数
+ *     result: { format, mimeType, size, durationMs, cacheStatus } | null,
+ *     error: { message, statusCode, code?, upstreamCode? } | null,
+ *     callback: { url, audio } | null,
+ *     createdAt: string,
+ *     startedAt: string | null,
+ *     finishedAt: string | null,
+ *     expiresAt: string | null             // 结束后保留 JOB_RETENTION_MS，过期后任务被删除
+ *   }
+ * }
+ */
+router.get('/jobs/:id', requireScope('synthesize'), getJob);
+
+/**
+ * @route GET /api/tts/jobs/:id/audio
+ * @desc 下载已完成任务的音频
+ * @access API Key (scope: synthesize，只能访问自己提交的任务)
+ * @returns 音频文件（响应头同 /synthesize）；任务尚未完成时返回 409，不存在或已过期时返回 404
+ */
+router.get('/jobs/:id/audio', requireScope('synthesize'), getJobAudio);
+
+/**
+ * @route DELETE /api/tts/jobs/:id
+ * @desc 取消排队中或合成中的任务；已结束的任务删除其状态和音频
+ * @access API Key (scope: synthesize，只能访问自己提交的任务)
+ * @returns { success: boolean, data: JobInfo }
+ */
+router.delete('/jobs/:id', requireScope('synthesize'), cancelJob);
+
+/**
+ * @route GET /api/tts/usage
+ * @desc 获取用量配额的使用情况（具有 admin:usage 权限或未启用认证时返回全部客户端，否则只返回当前客户端）
+ * @access API Key
+ * @returns {
+ *   success: boolean,
+ *   data: {
+ *     limits: { characters: { minute, day }, audioSeconds: { minute, day } },   // 0 表示不限制
+ *     windows: { minute: number, day: number },                                // 窗口长度（秒）
+ *     client: string,                                                          // 当前请求的客户端标识（key:<id> 或 ip:<地址>）
+ *     clients: Array<{
+ *       client: string,
+ *       usage: { characters: { minute, day }, audioSeconds: { minute, day } },
+ *       remaining: { characters: { minute, day }, audioSeconds: { minute, day } },   // 不限制时为 null
+ *       totals: { rejected: number, characters: number, audioSeconds: number },      // 进程启动以来的累计值
+ *       lastSeen: string
+ *     }>
  *   }
  * }
  */
-router.get('/status', getStatus);
+router.get('/usage', requireScope(), getUsage);
 
 /**
  * @route PUT /api/tts/config
- * @desc 更新TTS配置
- * @access Public
+ * @desc 更新TTS默认配置（合成接口中的参数只作用于单次请求，默认配置只能通过此接口修改）
+ * @access API Key (scope: admin:config)
  * @body {
  *   voiceId?: string,       // 语音ID（可选）
  *   speed?: number,         // 语速（可选）
@@ -90,7 +299,7 @@ router.get('/status', getStatus);
  *   config: object
  * }
  */
-router.put('/config', updateConfig);
+router.put('/config', requireScope('admin:config'), updateConfig);
 
 // 应用错误处理中间件
 router.use(errorHandler);
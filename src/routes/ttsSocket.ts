@@ -0,0 +1,70 @@
+import { Server } from 'http';
+import { WebSocketServer } from 'ws';
+import { handleTTSSocket } from '../controllers/ttsSocketController';
+import { authorize, redactApiKey } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+// 增量文本合成的 WebSocket 路径
+export const TTS_SOCKET_PATH = '/api/tts/ws';
+
+// 单条客户端消息的最大字节数
+const MAX_MESSAGE_SIZE = 64 * 1024;
+
+/**
+ * @route WS /api/tts/ws
+ * @desc 增量文本语音合成（文本边生成边发送，音频边合成边返回）
+ * @access API Key (scope: stream；浏览器无法设置请求头时使用 ?api_key= 查询参数)
+ * @messages 客户端 -> 服务端（JSON文本消息）{
+ *   { type: 'start', sessionId?, voiceId?, speed?, sampleRate?, channels?, format?, normalize?, locale?, lexicons? }  // 开始会话，参数同 /synthesize
+ *   { type: 'append', text: string }   // 追加文本片段，按句子自动切分，凑满一句即提交合成
+ *   { type: 'flush' }                  // 提交尚未结束的句子
+ *   { type: 'end' }                    // 提交剩余文本并结束输入，全部合成完毕后返回 complete
+ *   { type: 'stop' }                   // 停止合成
+ * }
+ * @returns 服务端 -> 客户端：JSON控制事件 start / audioFormat / chunk / sentenceDone / complete / stopped / error，
+ *          每个 chunk 事件之后紧跟一个二进制音频帧，各帧按顺序拼接即为完整音频
+ */
+export const attachTTSSocket = (server: Server): WebSocketServer => {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_SIZE });
+
+  server.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== TTS_SOCKET_PATH) {
+      socket.destroy();
+      return;
+    }
+
+    // 握手阶段完成认证，失败时直接返回 HTTP 错误响应
+    const failure = authorize(req, 'stream');
+    if (failure) {
+      logger.warn('[TTS Socket] 连接被拒绝', {
+        statusCode: failure.statusCode,
+        reason: failure.message,
+        url: redactApiKey(req.url || '/'),
+        clientIP: req.socket.remoteAddress
+      });
+      const reason = failure.statusCode === 401 ? 'Unauthorized' : 'Forbidden';
+      const body = JSON.stringify({ success: false, error: failure.statusCode === 401 ? '未认证' : '权限不足', message: failure.message });
+      socket.end(
+        `HTTP/1.1 ${failure.statusCode} ${reason}\r\n` +
+        (failure.statusCode === 401 ? 'WWW-Authenticate: Bearer\r\n' : '') +
+        'Content-Type: application/json; charset=utf-8\r\n' +
+        `Content-Length: ${Buffer.byteLength(body)}\r\n` +
+        'Connection: close\r\n\r\n' +
+        body
+      );
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit('connection', ws, req);
+    });
+  });
+
+  wss.on('connection', handleTTSSocket);
+
+  logger.info('[TTS Socket] WebSocket接口已挂载', { path: TTS_SOCKET_PATH });
+  return wss;
+};
+
+export default attachTTSSocket;
@@ -1,16 +1,18 @@
 import app from './app';
 import { logger } from './utils/logger';
 import config from './config';
+import { attachTTSSocket, TTS_SOCKET_PATH } from './routes/ttsSocket';
+import { jobQueue, sseStreams, webhookNotifier } from './services/ttsService';
 
 // 启动服务器
 const startServer = async (): Promise<void> => {
   try {
-    // 验证必需的环境变量
-    if (!config.coze.apiToken) {
+    // 验证必需的环境变量（离线合成不需要Coze凭证）
+    if (config.provider === 'coze' && !config.coze.apiToken) {
       throw new Error('COZE_API_TOKEN 环境变量未设置');
     }
     
-    if (!config.coze.voiceId) {
+    if (config.provider === 'coze' && !config.coze.voiceId) {
       throw new Error('COZE_VOICE_ID 环境变量未设置');
     }
     
@@ -23,6 +25,7 @@ const startServer = async (): Promise<void> => {
         config: {
           corsOrigin: config.security.corsOrigin,
           logLevel: config.logging.level,
+          provider: config.provider,
           audioFormat: config.audio.format,
           sampleRate: config.audio.sampleRate,
           rateLimitWindow: `${config.security.rateLimitWindowMs / 1000}s`,
@@ -35,6 +38,7 @@ const startServer = async (): Promise<void> => {
       console.log(`🏥 健康检查: http://localhost:${config.port}/health`);
       console.log(`📚 API文档: http://localhost:${config.port}/api/docs`);
       console.log(`🔊 TTS API: http://localhost:${config.port}/api/tts`);
+      console.log(`🔌 TTS WebSocket: ws://localhost:${config.port}${TTS_SOCKET_PATH}`);
       console.log(`🌍 环境: ${config.nodeEnv}`);
       console.log(`📝 日志级别: ${config.logging.level}`);
       console.log(`\n准备接收TTS请求...\n`);
@@ -45,10 +49,23 @@ const startServer = async (): Promise<void> => {
     server.keepAliveTimeout = 65000; // 65秒保持连接
     server.headersTimeout = 66000; // 66秒头部超时
     
+    // 在同一个HTTP服务器上挂载增量文本合成的WebSocket接口
+    const socketServer = attachTTSSocket(server);
+    
     // 优雅关闭处理
     const gracefulShutdown = (signal: string) => {
       logger.info(`[Server] 收到${signal}信号，开始优雅关闭服务器...`);
       
+      // 未完成的异步合成任务只保存在内存中，关闭前取消；尚未重试的任务回调写入死信日志；等待重连的 SSE 流直接结束
+      jobQueue.close();
+      webhookNotifier.close();
+      sseStreams.close();
+      
+      // WebSocket连接不会随HTTP服务器关闭，需要主动断开
+      for (const client of socketServer.clients) {
+        client.close(1001, 'server shutting down');
+      }
+      
       server.close((err) => {
         if (err) {
           logger.error('[Server] 服务器关闭时发生错误:', err);
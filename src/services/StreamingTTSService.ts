@@ -1,282 +1,341 @@
-// 流式TTS服务 - 基于Coze WebSocket API实现边合成边推流
+// 流式TTS服务 - 通过可替换的合成服务提供方（Coze、离线合成）实现边合成边推流
+// 每个合成请求对应一个独立的 TTSSession，服务负责会话管理与并发控制
 import { EventEmitter } from 'events';
 import WebSocket from 'ws';
-import axios from 'axios';
 import { logger } from '../utils/logger';
+import { ApplicationError } from '../middleware/errorHandler';
+import { TTSSession, SessionInfo, SessionOptions, toSpokenText } from './TTSSession';
+import { SynthesisOptions, SynthesisOutput, SynthesisParams, SynthesisResult } from '../types/tts';
+import { SynthesisCache, SynthesisCacheStats } from '../cache/SynthesisCache';
+import { checkOutputSpec, normalizeFormat, OUTPUT_FORMATS } from '../audio/formats';
+import { segmentText } from '../text/segmenter';
+import { parseSsml } from '../text/ssml';
+import { isNormalizeLocale, NORMALIZE_LOCALES, resolveLocale } from '../text/normalizer';
+import type { ReadingLanguage } from '../text/numbers';
+import type { LexiconMatcher } from '../text/lexicon';
+import type { LexiconStore } from '../lexicon/LexiconStore';
+import type { ProviderCapabilities, TTSProvider } from '../providers/TTSProvider';
 
 // 流式TTS配置接口
-interface StreamingTTSConfig {
-  token: string;
-  wsUrl: string;
+export interface StreamingTTSConfig {
   voiceId: string;
   enabled: boolean;
-  sampleRate: number;
-  channels: number;
+  sampleRate: number;              // 默认输出采样率，同时也是向上游请求的采样率
+  channels: number;                // 默认输出声道数，同时也是向上游请求的声道数
   speed: number;
-  format: string;
+  format: string;                  // 默认输出格式
+  normalize: boolean;              // 默认是否在合成前规范化文本
+  locale: string;                  // 默认规范化语言 auto/zh/en
+  maxConcurrentSessions: number;
+  segmentMaxLength: number;        // 长文本分句后单个片段的最大字符数
+  lookahead: number;               // 每个会话同时合成的片段数上限
+  connectTimeout: number;          // 上游连接超时（ms）
+  firstChunkTimeout: number;       // 等待上游首个音频块的超时（ms）
+  idleTimeout: number;             // 上游音频块之间的最长间隔（ms）
+  retryAttempts: number;           // 片段尚未输出音频时失败的最大重试次数
+  retryDelay: number;              // 重试的基础延迟（ms）
+  retryMaxDelay: number;           // 重试延迟上限（ms）
+}
+
+// 规范化预览的一个片段：原文和实际发送给上游的文本（为空时该片段不请求上游）
+export interface NormalizedSegment {
+  text: string;
+  normalized: string;
 }
 
 // 默认配置
 const DEFAULT_CONFIG: StreamingTTSConfig = {
-  token: '',
-  wsUrl: 'wss://ws.coze.cn',
   voiceId: '',
   enabled: true,
   sampleRate: 24000,
   channels: 1,
   speed: 1.0,
-  format: 'pcm'
+  format: 'wav',
+  normalize: true,
+  locale: 'auto',
+  maxConcurrentSessions: 10,
+  segmentMaxLength: 150,
+  lookahead: 2,
+  connectTimeout: 30000,
+  firstChunkTimeout: 15000,
+  idleTimeout: 10000,
+  retryAttempts: 3,
+  retryDelay: 1000,
+  retryMaxDelay: 10000
 };
 
+// 上游支持的语速范围
+const MIN_SPEED = 0.5;
+const MAX_SPEED = 2.0;
+
+// 从会话转发到服务上的事件
+const FORWARDED_EVENTS = ['start', 'audioFormat', 'audioChunk', 'segmentComplete', 'upstreamError', 'complete', 'stopped'];
+
 export class StreamingTTSService extends EventEmitter {
   private config: StreamingTTSConfig;
-  private isProcessing: boolean = false;
-  private wsClient: WebSocket | null = null;
-  private audioChunks: Buffer[] = [];
-  private currentSessionId: string | null = null;
+  private sessions: Map<string, TTSSession> = new Map();
+  private readonly provider: TTSProvider;
+  private readonly cache: SynthesisCache | null;
+  private readonly lexicons: LexiconStore | null;
 
-  constructor(config?: Partial<StreamingTTSConfig>) {
+  constructor(
+    provider: TTSProvider,
+    config?: Partial<StreamingTTSConfig>,
+    cache: SynthesisCache | null = null,
+    lexicons: LexiconStore | null = null
+  ) {
     super();
+    this.provider = provider;
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.cache = cache;
+    this.lexicons = lexicons;
     logger.info('[StreamingTTSService] 服务初始化完成', {
-      wsUrl: this.config.wsUrl,
+      provider: provider.name,
       voiceId: this.config.voiceId || '(默认)',
       sampleRate: this.config.sampleRate,
       channels: this.config.channels,
-      speed: this.config.speed
+      speed: this.config.speed,
+      maxConcurrentSessions: this.config.maxConcurrentSessions,
+      segmentMaxLength: this.config.segmentMaxLength,
+      lookahead: this.config.lookahead,
+      retryAttempts: this.config.retryAttempts,
+      cache: cache ? cache.getStats().store : 'none'
     });
   }
 
-  // 初始化WebSocket客户端
-  private initializeWebSocketClient(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.config.token) {
-        reject(new Error('缺少Coze API令牌'));
-        return;
-      }
-
-      if (!this.config.voiceId) {
-        reject(new Error('缺少音色ID'));
-        return;
-      }
+  // 创建合成会话（注册到会话表，但尚未开始合成）；文本按句子切分后流水线合成
+  async createSession(text: string, options: SynthesisOptions = {}): Promise<TTSSession> {
+    if (!text || text.trim().length === 0) {
+      throw new ApplicationError('文本为空', 400);
+    }
 
-      logger.info('[StreamingTTSService] 初始化WebSocket客户端');
-
-      try {
-        const wsUrl = `${this.config.wsUrl}/tts?token=${this.config.token}&voice_id=${this.config.voiceId}`;
-        this.wsClient = new WebSocket(wsUrl);
-        
-        this.wsClient.on('open', () => {
-          logger.info('[StreamingTTSService] WebSocket连接已建立');
-          resolve();
-        });
-        
-        this.wsClient.on('message', (data: Buffer) => {
-          this.handleWebSocketMessage(data);
-        });
-        
-        this.wsClient.on('error', (error) => {
-          logger.error('[StreamingTTSService] WebSocket错误:', error);
-          this.emit('error', error);
-          reject(error);
-        });
-        
-        this.wsClient.on('close', () => {
-          logger.info('[StreamingTTSService] WebSocket连接已关闭');
-          this.isProcessing = false;
-          this.wsClient = null;
-        });
-        
-      } catch (error) {
-        logger.error('[StreamingTTSService] WebSocket客户端初始化失败:', error);
-        reject(error);
+    const segments = segmentText(text, { maxLength: this.config.segmentMaxLength });
+    return this.createCachedSession(text, text, options, (session) => {
+      for (const segment of segments) {
+        session.appendText(segment);
       }
     });
   }
 
-  // 处理WebSocket消息
-  private handleWebSocketMessage(data: Buffer): void {
-    try {
-      // 尝试解析为JSON消息
-      const message = data.toString();
-      if (message.startsWith('{')) {
-        const msg = JSON.parse(message);
-        const eventType = msg.event_type;
-        
-        if (eventType === 'speech.audio.update' || eventType === 'speech.audio.chunk') {
-          // 提取音频数据
-          const b64 = msg.data?.delta
-                   ?? msg.data?.output_audio?.data
-                   ?? msg.data?.data
-                   ?? '';
-          if (b64) {
-            this.handleAudioData(b64, msg.data?.pcm_config);
-          }
-        } else if (eventType === 'speech.completed') {
-          logger.info('[StreamingTTSService] 语音合成完成');
-          this.handleSynthesisComplete();
+  // 创建 SSML 合成会话：文本片段按各自的音色和语速合成，停顿片段生成静音；标记无效时抛出 SsmlError
+  async createSsmlSession(ssml: string, options: SynthesisOptions = {}): Promise<TTSSession> {
+    const spans = parseSsml(ssml);
+    const params = this.resolveParams(options);
+
+    // 缓存以解析结果为键，只有格式差异的 SSML 共用缓存
+    const text = spans.map(span => span.type === 'break' ? '' : span.text).join('');
+    return this.createCachedSession(JSON.stringify(spans), text, options, (session) => {
+      for (const span of spans) {
+        if (span.type === 'break') {
+          session.appendBreak(span.durationMs);
+          continue;
+        }
+        const overrides = {
+          voiceId: span.voiceId,
+          speed: span.rate === 1 ? undefined : clampSpeed(params.speed * span.rate)
+        };
+        for (const segment of segmentText(span.text, { maxLength: this.config.segmentMaxLength })) {
+          session.appendText(segment, overrides);
         }
-      } else {
-        // 直接是音频数据
-        this.handleAudioData(data);
       }
-    } catch (error) {
-      logger.error('[StreamingTTSService] 处理WebSocket消息失败:', error);
-    }
+    });
   }
 
-  // 处理音频数据
-  private handleAudioData(data: any, pcmConfig?: any): void {
-    try {
-      let audioBuffer: Buffer;
-      
-      // 处理不同格式的音频数据
-      if (typeof data === 'string') {
-        // Base64格式 - 解码为Buffer
-        audioBuffer = Buffer.from(data, 'base64');
-      } else if (data instanceof ArrayBuffer) {
-        // ArrayBuffer格式
-        audioBuffer = Buffer.from(data);
-      } else if (Buffer.isBuffer(data)) {
-        // 已经是Buffer
-        audioBuffer = data;
-      } else {
-        logger.error('[StreamingTTSService] 不支持的音频数据格式:', typeof data);
-        return;
-      }
+  // 注册会话并追加全部片段（命中缓存时会话直接回放缓存的输出，未命中时合成完成后写入缓存）
+  // 规范化语言为 auto 时按全文（text）确定读法语言，所有片段按同一种语言读
+  private async createCachedSession(
+    cacheText: string,
+    text: string,
+    options: SynthesisOptions,
+    appendSegments: (session: TTSSession) => void
+  ): Promise<TTSSession> {
+    const params = this.resolveParams(options);
+    const lexicon = this.compileLexicons(params.lexicons);
+    const cacheKey = this.cache
+      ? this.cache.createKey(this.provider.name, cacheText, params, lexicon?.fingerprint ?? null)
+      : null;
+    const cached = this.cache && cacheKey ? await this.cache.get(cacheKey) : null;
 
-      // 验证数据有效性
-      if (audioBuffer.length === 0) {
-        logger.warn('[StreamingTTSService] 接收到空的音频数据');
-        return;
-      }
+    const session = this.registerSession(options.sessionId, params, {
+      cached: cached ?? undefined,
+      cacheStatus: !this.cache ? 'bypass' : cached ? 'hit' : 'miss',
+      lexicon,
+      locale: resolveLocale(text, params.locale)
+    });
+    appendSegments(session);
+    session.endInput();
 
-      // 添加到音频块列表
-      this.audioChunks.push(audioBuffer);
-      
-      logger.debug('[StreamingTTSService] 接收音频数据块:', {
-        size: audioBuffer.length,
-        totalChunks: this.audioChunks.length,
-        totalSize: this.audioChunks.reduce((sum, chunk) => sum + chunk.length, 0)
+    if (this.cache && cacheKey && !cached) {
+      const cache = this.cache;
+      session.once('complete', (result: SynthesisResult) => {
+        cache.set(cacheKey, toSynthesisOutput(result));
       });
+    }
 
-      // 发送音频数据事件
-      this.emit('audioChunk', {
-        data: audioBuffer,
-        size: audioBuffer.length,
-        sessionId: this.currentSessionId
-      });
-    } catch (error) {
-      logger.error('[StreamingTTSService] 处理音频数据失败:', error);
+    return session;
+  }
+
+  // 创建增量输入的合成会话：文本通过 appendText() 分段追加，endInput() 结束输入
+  createStreamingSession(options: SynthesisOptions = {}): TTSSession {
+    const params = this.resolveParams(options);
+    return this.registerSession(options.sessionId, params, { lexicon: this.compileLexicons(params.lexicons) });
+  }
+
+  // 合并请求引用的发音词典（会话创建时取词典的当前内容）；词典不存在时抛出 400
+  private compileLexicons(ids: string[]): LexiconMatcher | undefined {
+    if (ids.length === 0) {
+      return undefined;
     }
+    if (!this.lexicons) {
+      throw new ApplicationError('未启用发音词典', 400);
+    }
+    return this.lexicons.compile(ids);
   }
 
-  // 处理合成完成
-  private handleSynthesisComplete(): void {
-    this.isProcessing = false;
-    
-    // 合并所有音频块
-    const totalAudio = Buffer.concat(this.audioChunks);
-    
-    logger.info('[StreamingTTSService] 语音合成完成', {
-      totalSize: totalAudio.length,
-      chunks: this.audioChunks.length,
-      sessionId: this.currentSessionId
+  // 校验并注册会话
+  private registerSession(sessionId: string | undefined, params: SynthesisParams, sessionOptions?: SessionOptions): TTSSession {
+    if (!this.config.enabled) {
+      throw new ApplicationError('TTS服务已禁用', 503);
+    }
+
+    const id = sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    if (this.sessions.has(id)) {
+      throw new ApplicationError(`会话 ${id} 正在处理中`, 409);
+    }
+
+    if (this.sessions.size >= this.config.maxConcurrentSessions) {
+      throw new ApplicationError('并发合成会话数已达上限，请稍后再试', 429);
+    }
+
+    // 单次请求参数只作用于本会话，不会修改服务的默认配置
+    const session = new TTSSession(id, params, {
+      provider: this.provider,
+      sampleRate: this.config.sampleRate,
+      channels: this.config.channels,
+      lookahead: this.config.lookahead,
+      connectTimeout: this.config.connectTimeout,
+      firstChunkTimeout: this.config.firstChunkTimeout,
+      idleTimeout: this.config.idleTimeout,
+      retryAttempts: this.config.retryAttempts,
+      retryDelay: this.config.retryDelay,
+      retryMaxDelay: this.config.retryMaxDelay
+    }, sessionOptions);
+    this.sessions.set(id, session);
+
+    for (const event of FORWARDED_EVENTS) {
+      session.on(event, (data: any) => this.emit(event, data));
+    }
+
+    session.on('error', (error: Error) => {
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', error, id);
+      }
     });
-    
-    this.emit('complete', {
-      audioData: totalAudio,
-      sessionId: this.currentSessionId
+
+    session.once('end', () => {
+      this.sessions.delete(id);
+      logger.debug('[StreamingTTSService] 会话已移除', {
+        sessionId: id,
+        activeSessions: this.sessions.size
+      });
     });
-    
-    // 清理
-    this.audioChunks = [];
-    this.currentSessionId = null;
+
+    return session;
   }
 
   // 合成文本为语音
-  async synthesizeText(text: string, sessionId?: string): Promise<Buffer> {
-    if (!this.config.enabled) {
-      throw new Error('TTS服务已禁用');
+  async synthesizeText(text: string, options: SynthesisOptions = {}): Promise<SynthesisResult> {
+    const session = await this.createSession(text, options);
+    return session.start();
+  }
+
+  // 合成 SSML 为语音
+  async synthesizeSsml(ssml: string, options: SynthesisOptions = {}): Promise<SynthesisResult> {
+    const session = await this.createSsmlSession(ssml, options);
+    return session.start();
+  }
+
+  // 提前校验单次请求参数和引用的发音词典（不创建会话），无效时抛出 400
+  checkOptions(options: SynthesisOptions = {}): SynthesisParams {
+    const params = this.resolveParams(options);
+    this.compileLexicons(params.lexicons);
+    return params;
+  }
+
+  // 将单次请求参数与默认配置合并为实际生效的参数
+  resolveParams(options: SynthesisOptions = {}): SynthesisParams {
+    const format = normalizeFormat(options.format ?? this.config.format);
+    if (!format) {
+      throw new ApplicationError(
+        `不支持的音频格式: ${options.format ?? this.config.format}，可用格式: ${OUTPUT_FORMATS.join(', ')}`,
+        400
+      );
     }
 
-    if (!text || text.trim().length === 0) {
-      throw new Error('文本为空');
+    const sampleRate = options.sampleRate ?? this.config.sampleRate;
+    const channels = options.channels ?? this.config.channels;
+    const specError = checkOutputSpec(format, sampleRate, channels);
+    if (specError) {
+      throw new ApplicationError(specError, 400);
     }
 
-    if (this.isProcessing) {
-      throw new Error('正在处理中，请稍后再试');
+    const locale = options.locale ?? this.config.locale;
+    if (!isNormalizeLocale(locale)) {
+      throw new ApplicationError(`不支持的规范化语言: ${locale}，可用值: ${NORMALIZE_LOCALES.join(', ')}`, 400);
     }
 
-    return new Promise((resolve, reject) => {
-      try {
-        this.isProcessing = true;
-        this.audioChunks = [];
-        this.currentSessionId = sessionId || `session_${Date.now()}`;
-        
-        logger.info('[StreamingTTSService] 开始流式语音合成:', {
-          text: text.substring(0, 100) + (text.length > 100 ? '...' : ''),
-          sessionId: this.currentSessionId
-        });
-
-        // 监听完成事件
-        const onComplete = (data: any) => {
-          this.off('complete', onComplete);
-          this.off('error', onError);
-          resolve(data.audioData);
-        };
+    return {
+      voiceId: options.voiceId || this.config.voiceId,
+      speed: options.speed ?? this.config.speed,
+      sampleRate,
+      channels,
+      format,
+      normalize: options.normalize ?? this.config.normalize,
+      locale,
+      lexicons: options.lexicons ?? []
+    };
+  }
 
-        const onError = (error: any) => {
-          this.off('complete', onComplete);
-          this.off('error', onError);
-          this.isProcessing = false;
-          reject(error);
-        };
+  // 按会话合成时的流程分句、应用发音词典并规范化文本（不合成），返回实际使用的读法语言和各片段发送给上游的文本
+  normalizeText(text: string, locale?: string, lexicons: string[] = []): { locale: ReadingLanguage; segments: NormalizedSegment[] } {
+    const requested = locale ?? this.config.locale;
+    if (!isNormalizeLocale(requested)) {
+      throw new ApplicationError(`不支持的规范化语言: ${requested}，可用值: ${NORMALIZE_LOCALES.join(', ')}`, 400);
+    }
 
-        this.on('complete', onComplete);
-        this.on('error', onError);
-
-        // 初始化WebSocket客户端并开始合成
-        this.initializeWebSocketClient()
-          .then(() => {
-            // 发送合成请求
-            const request = {
-              text: text,
-              voice_id: this.config.voiceId,
-              sample_rate: this.config.sampleRate,
-              channels: this.config.channels,
-              speed: this.config.speed,
-              format: this.config.format
-            };
-            
-            if (this.wsClient && this.wsClient.readyState === WebSocket.OPEN) {
-              this.wsClient.send(JSON.stringify(request));
-            } else {
-              throw new Error('WebSocket连接未就绪');
-            }
-          })
-          .catch(reject);
-
-        this.emit('start', { text, sessionId: this.currentSessionId });
-      } catch (error) {
-        this.isProcessing = false;
-        reject(error);
-      }
-    });
+    const lexicon = this.compileLexicons(lexicons) ?? null;
+    const language = resolveLocale(text, requested);
+    return {
+      locale: language,
+      segments: segmentText(text, { maxLength: this.config.segmentMaxLength }).map(segment => ({
+        text: segment,
+        normalized: toSpokenText(segment, language, lexicon, true)
+      }))
+    };
+  }
+
+  // 获取会话
+  getSession(sessionId: string): TTSSession | undefined {
+    return this.sessions.get(sessionId);
   }
 
-  // 停止当前合成
-  async stopSynthesis(): Promise<void> {
-    if (this.wsClient) {
-      this.wsClient.close();
-      this.wsClient = null;
+  // 停止合成：指定sessionId时只停止该会话，否则停止全部会话
+  async stopSynthesis(sessionId?: string): Promise<number> {
+    const targets = sessionId
+      ? [this.sessions.get(sessionId)].filter((s): s is TTSSession => !!s)
+      : Array.from(this.sessions.values());
+
+    for (const session of targets) {
+      session.stop();
     }
-    
-    this.isProcessing = false;
-    this.audioChunks = [];
-    this.currentSessionId = null;
-    
-    logger.info('[StreamingTTSService] 语音合成已停止');
+
+    logger.info('[StreamingTTSService] 语音合成已停止', {
+      sessionId: sessionId || '(全部)',
+      stopped: targets.length
+    });
+
+    return targets.length;
   }
 
   // 更新配置
@@ -292,7 +351,25 @@ export class StreamingTTSService extends EventEmitter {
 
   // 获取处理状态
   getIsProcessing(): boolean {
-    return this.isProcessing;
+    return this.sessions.size > 0;
+  }
+
+  // 获取活跃会话列表
+  getActiveSessions(): SessionInfo[] {
+    return Array.from(this.sessions.values()).map(session => session.getInfo());
+  }
+
+  // 获取合成服务提供方及其能力
+  getProviderInfo(): { name: string; capabilities: ProviderCapabilities } {
+    return {
+      name: this.provider.name,
+      capabilities: this.provider.getCapabilities()
+    };
+  }
+
+  // 获取缓存统计信息，未启用缓存时返回 null
+  getCacheStats(): SynthesisCacheStats | null {
+    return this.cache ? this.cache.getStats() : null;
   }
 
   // 设置是否启用
@@ -312,4 +389,20 @@ export class StreamingTTSService extends EventEmitter {
     this.removeAllListeners();
     logger.info('[StreamingTTSService] 资源清理完成');
   }
-}
\ No newline at end of file
+}
+
+// SSML 中的相对语速与请求语速相乘后限制在上游支持的范围内
+const clampSpeed = (speed: number): number => {
+  return Math.round(Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed)) * 100) / 100;
+};
+
+// 从合成结果中取出可缓存的部分
+const toSynthesisOutput = (result: SynthesisResult): SynthesisOutput => ({
+  audioData: result.audioData,
+  audioSpec: result.audioSpec,
+  format: result.format,
+  mimeType: result.mimeType,
+  extension: result.extension,
+  durationMs: result.durationMs,
+  segments: result.segments
+});
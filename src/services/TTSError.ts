@@ -0,0 +1,53 @@
+// 上游合成错误 - 区分失败原因，映射为对应的HTTP状态码，并标记是否值得重试
+import { ApplicationError } from '../middleware/errorHandler';
+
+// timeout: 连接、首个音频块或音频流超时
+// auth: 上游鉴权失败（令牌缺失、无效或无权限）
+// connection: 无法建立上游连接或上游拒绝连接
+// upstream_closed: 上游在合成完成前关闭了连接
+// protocol: 上游返回了无法解析的消息
+// upstream_error: 上游返回了错误事件
+export type TTSErrorCode = 'timeout' | 'auth' | 'connection' | 'upstream_closed' | 'protocol' | 'upstream_error';
+
+const STATUS_CODES: Record<TTSErrorCode, number> = {
+  timeout: 504,
+  auth: 502,
+  connection: 503,
+  upstream_closed: 502,
+  protocol: 502,
+  upstream_error: 502
+};
+
+// 鉴权失败、协议错误和上游明确返回的错误重试也无法恢复
+const RETRYABLE: Record<TTSErrorCode, boolean> = {
+  timeout: true,
+  auth: false,
+  connection: true,
+  upstream_closed: true,
+  protocol: false,
+  upstream_error: false
+};
+
+export class TTSError extends ApplicationError {
+  readonly code: TTSErrorCode;
+  readonly retryable: boolean;
+  readonly upstreamCode?: number | string;   // 上游错误码或 WebSocket 关闭码
+
+  constructor(code: TTSErrorCode, message: string, retryable: boolean = RETRYABLE[code], upstreamCode?: number | string) {
+    super(message, STATUS_CODES[code]);
+    this.name = 'TTSError';
+    this.code = code;
+    this.retryable = retryable;
+    this.upstreamCode = upstreamCode;
+  }
+}
+
+// 错误响应中的附加字段（非上游合成错误时为空）
+export const getErrorDetails = (error: unknown): { code?: TTSErrorCode; upstreamCode?: number | string } => {
+  if (!(error instanceof TTSError)) {
+    return {};
+  }
+  return { code: error.code, upstreamCode: error.upstreamCode };
+};
+
+export default TTSError;
@@ -0,0 +1,955 @@
+// 合成会话 - 每个会话拥有独立的上游连接、音频缓冲区和事件
+// 会话的文本由一个或多个片段（句子）组成：每个片段使用独立的上游连接，最多 lookahead 个片段同时合成，
+// 音频严格按片段顺序输出，共用同一条转码管线，输出为一段连续的音频
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger';
+import { ApplicationError } from '../middleware/errorHandler';
+import { TTSError } from './TTSError';
+import { normalizeText, resolveLocale } from '../text/normalizer';
+import type { LexiconMatcher } from '../text/lexicon';
+import type { ReadingLanguage } from '../text/numbers';
+import type {
+  AudioSpec,
+  CacheStatus,
+  SegmentInfo,
+  SynthesisOutput,
+  SynthesisParams,
+  SynthesisResult
+} from '../types/tts';
+import { AudioPipeline } from '../audio/AudioPipeline';
+import type { ProviderConnection, TTSProvider } from '../providers/TTSProvider';
+
+// 上游连接配置
+export interface UpstreamConfig {
+  provider: TTSProvider;
+  sampleRate: number;   // 向上游请求的PCM采样率
+  channels: number;     // 向上游请求的PCM声道数
+  lookahead: number;    // 同时合成的片段数上限（含正在输出的片段）
+  connectTimeout: number;      // 建立连接的超时（ms）
+  firstChunkTimeout: number;   // 发送合成请求后等待首个音频块的超时（ms）
+  idleTimeout: number;         // 音频块之间的最长间隔（ms）
+  retryAttempts: number;       // 片段尚未输出音频时失败的最大重试次数
+  retryDelay: number;          // 首次重试的基础延迟（ms），之后按指数增长
+  retryMaxDelay: number;       // 重试延迟上限（ms）
+}
+
+// 会话选项
+export interface SessionOptions {
+  cached?: SynthesisOutput;     // 命中缓存时直接回放的输出
+  cacheStatus?: CacheStatus;
+  lexicon?: LexiconMatcher;     // 合成前应用的发音词典
+  locale?: ReadingLanguage;     // 读法语言（规范化语言为 auto 时由创建方按全文确定）
+}
+
+// 片段实际发送给上游的文本：先应用发音词典，词典给出的读法再经过规范化（如替换结果中的数字）
+export const toSpokenText = (
+  text: string,
+  locale: ReadingLanguage,
+  lexicon: LexiconMatcher | null,
+  normalize: boolean
+): string => {
+  const lexiconText = lexicon ? lexicon.apply(text) : text;
+  return normalize ? normalizeText(lexiconText, locale) : lexiconText;
+};
+
+// 缓存回放时每个音频块的字节数
+const REPLAY_CHUNK_SIZE = 16 * 1024;
+
+// 会话状态（idle 表示已合成完所有片段，正在等待追加文本）
+export type SessionState = 'pending' | 'connecting' | 'synthesizing' | 'idle' | 'completed' | 'failed' | 'stopped';
+
+// 停止方式：immediate 立即停止，sentence 等正在输出的片段输出完后停止
+export type StopMode = 'immediate' | 'sentence';
+
+export const STOP_MODES: StopMode[] = ['immediate', 'sentence'];
+
+// 片段级别的合成参数（覆盖会话参数，如 SSML 中的 <voice> 和 <prosody rate>）
+export interface SegmentOverrides {
+  voiceId?: string;
+  speed?: number;
+}
+
+// 待合成的文本片段；silenceMs 不为空时是停顿片段，由服务生成静音，不经过上游
+interface TextSegment extends SegmentOverrides {
+  index: number;
+  text: string;          // 客户端提交的原文（用于片段事件）
+  spokenText: string;    // 发送给上游的文本（应用词典并规范化之后）
+  silenceMs?: number;
+}
+
+// 正在合成的片段：排在最前面的片段直接输出，其余片段的音频先缓存，轮到它时再按顺序输出
+interface SegmentJob {
+  segment: TextSegment;
+  connection: ProviderConnection | null;
+  buffered: Array<{ audio: Buffer; spec?: AudioSpec }>;
+  upstreamDone: boolean;
+  attempt: number;                  // 已发起的连接次数
+  delivered: boolean;               // 是否已有音频送入输出，之后失败不能再重试
+  timer: NodeJS.Timeout | null;     // 当前阶段的超时计时器或重试计时器
+}
+
+// 会话信息（用于状态查询）
+export interface SessionInfo {
+  sessionId: string;
+  state: SessionState;
+  textLength: number;
+  segmentCount: number;
+  completedSegments: number;
+  startedAt: string;
+  audioChunks: number;
+  audioBytes: number;
+  deliveredMs: number;          // 已输出的音频时长
+}
+
+export class TTSSession extends EventEmitter {
+  readonly sessionId: string;
+  readonly params: SynthesisParams;
+  readonly cacheStatus: CacheStatus;
+  owner: string | null = null;              // 创建会话的 API 客户端（由创建方设置，未启用认证时为 null）
+  private readonly upstream: UpstreamConfig;
+  private readonly cached: SynthesisOutput | null;
+  private readonly lexicon: LexiconMatcher | null;
+  private locale: ReadingLanguage | null;
+  private state: SessionState = 'pending';
+  private segments: TextSegment[] = [];
+  private jobs: SegmentJob[] = [];
+  private segmentCount: number = 0;
+  private completedSegments: number = 0;
+  private textLength: number = 0;
+  private segmentTextLengths: number[] = [];  // 各片段原文的长度（按片段序号，停顿为 0）
+  private outputSegment: number = -1;        // 最近输出了音频的片段序号
+  private inputEnded: boolean = false;
+  private completing: boolean = false;
+  // 输出端积压时暂停开始新的片段（缓存回放同样暂停）
+  private paused: boolean = false;
+  private resumeWaiters: Array<() => void> = [];
+  private stopAfterSegment: boolean = false;  // stop('sentence') 后等待正在输出的片段结束
+  // 已完成片段的音频总时长，用于计算各片段在输出中的起止位置
+  private segmentsEndMs: number = 0;
+  private segmentInfos: SegmentInfo[] = [];
+  private audioChunks: Buffer[] = [];        // 停止后释放，计数见 audioChunkCount
+  private audioChunkCount: number = 0;
+  private audioBytes: number = 0;
+  private deliveredMs: number = 0;
+  private audioSpec: AudioSpec;
+  private audioSpecNegotiated: boolean = false;
+  private pipeline: Promise<AudioPipeline> | null = null;
+  private outputQueue: Promise<void> = Promise.resolve();
+  private readonly startedAt: Date = new Date();
+  private pending: { resolve: (result: SynthesisResult) => void; reject: (error: Error) => void } | null = null;
+
+  constructor(sessionId: string, params: SynthesisParams, upstream: UpstreamConfig, options: SessionOptions = {}) {
+    super();
+    this.sessionId = sessionId;
+    this.params = params;
+    this.upstream = upstream;
+    this.cached = options.cached ?? null;
+    this.cacheStatus = options.cacheStatus ?? 'bypass';
+    this.lexicon = options.lexicon ?? null;
+    this.locale = options.locale ?? (params.locale === 'auto' ? null : params.locale);
+    // 在上游给出音频规格之前，按向上游请求的规格假定为 16 位 PCM
+    this.audioSpec = { sampleRate: upstream.sampleRate, channels: upstream.channels, bitDepth: 16 };
+  }
+
+  // 开始合成，完成后返回完整音频及实际生效的参数
+  // 已追加的片段立即开始合成，之后追加的片段排队合成，调用 endInput() 后全部合成完毕即完成
+  start(): Promise<SynthesisResult> {
+    if (this.state !== 'pending') {
+      return Promise.reject(new Error(`会话 ${this.sessionId} 已启动`));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+      this.state = 'idle';
+
+      const text = this.segments.map(segment => segment.text).join('');
+      logger.info('[TTSSession] 开始流式语音合成:', {
+        text: text.substring(0, 100) + (text.length > 100 ? '...' : ''),
+        sessionId: this.sessionId,
+        incremental: !this.inputEnded,
+        cacheStatus: this.cacheStatus,
+        params: this.params
+      });
+
+      this.emit('start', { text, sessionId: this.sessionId, params: this.params, cacheStatus: this.cacheStatus });
+
+      if (this.cached) {
+        this.replayCached(this.cached).catch((error) => this.fail(error));
+      } else {
+        this.pumpSegments();
+      }
+    });
+  }
+
+  // 追加一段待合成的文本，返回片段序号；overrides 只作用于该片段
+  appendText(text: string, overrides: SegmentOverrides = {}): number {
+    this.checkAppendable();
+
+    if (!text || text.trim().length === 0) {
+      throw new ApplicationError('文本为空', 400);
+    }
+
+    // 整个会话使用同一种读法语言：未指定时由第一个片段确定
+    if (!this.locale) {
+      this.locale = resolveLocale(text, this.params.locale);
+    }
+    const spokenText = toSpokenText(text, this.locale, this.lexicon, this.params.normalize);
+    const segment: TextSegment = { ...overrides, index: this.segmentCount++, text, spokenText };
+    // 规范化后没有可读内容（如只有表情符号或网址）的片段不请求上游
+    if (spokenText.trim().length === 0) {
+      segment.silenceMs = 0;
+    }
+    this.segments.push(segment);
+    this.segmentTextLengths.push(text.length);
+    this.textLength += text.length;
+
+    logger.debug('[TTSSession] 追加文本片段', {
+      sessionId: this.sessionId,
+      segmentIndex: segment.index,
+      textLength: text.length,
+      normalized: spokenText !== text,
+      ...overrides
+    });
+
+    this.pumpSegments();
+    return segment.index;
+  }
+
+  // 追加一段停顿（静音），返回片段序号
+  appendBreak(durationMs: number): number {
+    this.checkAppendable();
+
+    if (!Number.isFinite(durationMs) || durationMs < 0) {
+      throw new ApplicationError(`无效的停顿时长: ${durationMs}`, 400);
+    }
+
+    const segment: TextSegment = { index: this.segmentCount++, text: '', spokenText: '', silenceMs: durationMs };
+    this.segments.push(segment);
+    this.segmentTextLengths.push(0);
+
+    logger.debug('[TTSSession] 追加停顿片段', {
+      sessionId: this.sessionId,
+      segmentIndex: segment.index,
+      durationMs
+    });
+
+    this.pumpSegments();
+    return segment.index;
+  }
+
+  private checkAppendable(): void {
+    if (this.isFinished()) {
+      throw new ApplicationError(`会话 ${this.sessionId} 已结束`, 409);
+    }
+
+    if (this.stopAfterSegment) {
+      throw new ApplicationError(`会话 ${this.sessionId} 正在停止`, 409);
+    }
+
+    if (this.inputEnded) {
+      throw new ApplicationError(`会话 ${this.sessionId} 的文本输入已结束`, 409);
+    }
+  }
+
+  // 结束文本输入，剩余片段合成完毕后会话完成
+  endInput(): void {
+    if (this.inputEnded || this.isFinished()) {
+      return;
+    }
+
+    this.inputEnded = true;
+    this.pumpSegments();
+  }
+
+  // 暂停输出（客户端读取跟不上时使用）：不再开始新的片段，已开始的片段继续接收上游音频，
+  // 音频留在会话的输出队列中，恢复后按顺序输出
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    if (!this.paused) {
+      return;
+    }
+    this.paused = false;
+    this.releaseResumeWaiters();
+    // 缓存回放不经过片段队列
+    if (!this.cached) {
+      this.pumpSegments();
+    }
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  // 停止合成；mode 为 sentence 时丢弃排队的片段，正在输出的片段输出完后再停止（没有正在输出的片段时立即停止）
+  stop(mode: StopMode = 'immediate'): void {
+    if (this.isFinished()) {
+      return;
+    }
+
+    if (mode === 'sentence' && this.finishCurrentSegment()) {
+      logger.info('[TTSSession] 当前片段输出完后停止语音合成', { sessionId: this.sessionId });
+      return;
+    }
+
+    this.state = 'stopped';
+    this.releaseResumeWaiters();
+    this.segments = [];
+    this.closeConnections();
+    this.releasePipeline();
+    this.audioChunks = [];
+
+    logger.info('[TTSSession] 语音合成已停止', { sessionId: this.sessionId, deliveredMs: this.deliveredMs });
+
+    this.emit('stopped', { sessionId: this.sessionId, deliveredMs: this.deliveredMs });
+    this.settle(new ApplicationError('语音合成已停止', 409));
+  }
+
+  // 获取会话信息
+  getInfo(): SessionInfo {
+    return {
+      sessionId: this.sessionId,
+      state: this.state,
+      textLength: this.textLength,
+      segmentCount: this.segmentCount,
+      completedSegments: this.completedSegments,
+      startedAt: this.startedAt.toISOString(),
+      audioChunks: this.audioChunkCount,
+      audioBytes: this.audioBytes,
+      deliveredMs: this.deliveredMs
+    };
+  }
+
+  // 还没有输出任何音频的片段的原文长度（音频按片段顺序输出，停止的会话据此退还字符数）
+  getUnspokenTextLength(): number {
+    return this.segmentTextLengths.slice(this.outputSegment + 1).reduce((sum, length) => sum + length, 0);
+  }
+
+  getState(): SessionState {
+    return this.state;
+  }
+
+  getAudioSpec(): AudioSpec {
+    return { ...this.audioSpec };
+  }
+
+  isFinished(): boolean {
+    return this.state === 'completed' || this.state === 'failed' || this.state === 'stopped';
+  }
+
+  // 保留正在输出的片段，取消其余片段；返回 false 表示没有正在输出的片段，应立即停止
+  private finishCurrentSegment(): boolean {
+    if (this.state === 'pending') {
+      return false;
+    }
+
+    // 缓存回放在片段边界检查停止标记
+    if (this.cached) {
+      this.stopAfterSegment = true;
+      return true;
+    }
+
+    const head = this.jobs[0];
+    if (!head || !head.delivered) {
+      return false;
+    }
+
+    // 正在输出的已是最后一个片段时照常完成
+    if (this.inputEnded && this.segments.length === 0 && this.jobs.length === 1) {
+      return true;
+    }
+
+    this.stopAfterSegment = true;
+    this.segments = [];
+    for (const job of this.jobs.slice(1)) {
+      this.clearTimer(job);
+      this.closeConnection(job);
+    }
+    this.jobs = [head];
+    return true;
+  }
+
+  // 在 lookahead 范围内开始合成排队的片段；没有片段在合成且输入已结束时完成会话
+  private pumpSegments(): void {
+    if (this.state === 'pending' || this.isFinished()) {
+      return;
+    }
+
+    const lookahead = Math.max(1, this.upstream.lookahead);
+    while (!this.paused && this.jobs.length < lookahead && this.segments.length > 0) {
+      this.startSegmentJob(this.segments.shift()!);
+    }
+
+    // 暂停期间仍有片段排队时，等待恢复后继续
+    if (this.jobs.length === 0 && this.segments.length === 0) {
+      if (this.stopAfterSegment) {
+        // 冲洗编码器中剩余的音频后停止
+        this.enqueueOutput((pipeline) => {
+          this.emitAudioChunk(pipeline.flush(), Math.max(this.segmentCount - 1, 0), pipeline.getDurationMs());
+          this.stop();
+        });
+      } else if (this.inputEnded) {
+        this.handleSynthesisComplete();
+      } else {
+        this.state = 'idle';
+      }
+    }
+  }
+
+  // 为片段创建合成任务并建立上游连接
+  private startSegmentJob(segment: TextSegment): void {
+    const job: SegmentJob = {
+      segment,
+      connection: null,
+      buffered: [],
+      upstreamDone: false,
+      attempt: 0,
+      delivered: false,
+      timer: null
+    };
+    this.jobs.push(job);
+    if (this.state === 'idle') {
+      this.state = 'connecting';
+    }
+
+    if (segment.silenceMs !== undefined) {
+      this.renderSilence(job, segment.silenceMs);
+    } else {
+      this.connect(job);
+    }
+  }
+
+  // 停顿片段：在下一轮事件循环中按当前音频规格生成静音，与上游音频一样按片段顺序输出
+  private renderSilence(job: SegmentJob, durationMs: number): void {
+    job.timer = setTimeout(() => {
+      job.timer = null;
+      const { sampleRate, channels, bitDepth } = this.audioSpec;
+      const frames = Math.round(sampleRate * durationMs / 1000);
+      const silence = Buffer.alloc(frames * channels * (bitDepth / 8));
+      if (silence.length > 0) {
+        this.handleAudioData(job, silence);
+      }
+      this.handleSegmentComplete(job);
+    }, 0);
+  }
+
+  // 建立上游连接，连接就绪后发送合成请求（每次重试都会重新调用）
+  private connect(job: SegmentJob): void {
+    job.attempt++;
+    logger.info('[TTSSession] 连接上游', {
+      sessionId: this.sessionId,
+      segmentIndex: job.segment.index,
+      provider: this.upstream.provider.name,
+      attempt: job.attempt
+    });
+
+    let connection: ProviderConnection;
+    try {
+      connection = this.upstream.provider.connect(job.segment.voiceId ?? this.params.voiceId);
+    } catch (error) {
+      logger.error('[TTSSession] 上游连接初始化失败:', { sessionId: this.sessionId, error });
+      if (error instanceof TTSError) {
+        this.handleJobError(job, error);
+      } else {
+        this.fail(error as Error);
+      }
+      return;
+    }
+
+    job.connection = connection;
+    this.armTimer(job, this.upstream.connectTimeout, `连接上游超时（${this.upstream.connectTimeout}ms）`);
+
+    connection.on('open', () => {
+      logger.info('[TTSSession] 上游连接已建立', {
+        sessionId: this.sessionId,
+        segmentIndex: job.segment.index
+      });
+
+      if (this.state === 'connecting') {
+        this.state = 'synthesizing';
+      }
+
+      try {
+        connection.synthesize({
+          text: job.segment.spokenText,
+          voiceId: job.segment.voiceId ?? this.params.voiceId,
+          speed: job.segment.speed ?? this.params.speed,
+          sampleRate: this.upstream.sampleRate,
+          channels: this.upstream.channels
+        });
+      } catch (error) {
+        this.handleJobError(job, error as TTSError);
+        return;
+      }
+      this.armTimer(job, this.upstream.firstChunkTimeout, `等待上游首个音频块超时（${this.upstream.firstChunkTimeout}ms）`);
+    });
+
+    connection.on('audio', (audio: Buffer, spec?: AudioSpec) => {
+      if (!this.isFinished()) {
+        this.handleAudioData(job, audio, spec);
+      }
+    });
+
+    connection.on('completed', () => {
+      if (!this.isFinished()) {
+        this.handleSegmentComplete(job);
+      }
+    });
+
+    connection.on('error', (error: TTSError) => {
+      logger.error('[TTSSession] 上游合成失败:', {
+        sessionId: this.sessionId,
+        segmentIndex: job.segment.index,
+        code: error.code,
+        upstreamCode: error.upstreamCode,
+        error: error.message
+      });
+      job.connection = null;
+      this.handleJobError(job, error);
+    });
+  }
+
+  // 片段合成失败：该片段还没有音频送入输出时按指数退避重试，否则整个会话失败
+  private handleJobError(job: SegmentJob, error: TTSError): void {
+    if (this.isFinished() || job.upstreamDone || !this.jobs.includes(job)) {
+      return;
+    }
+
+    this.clearTimer(job);
+    this.closeConnection(job);
+
+    const retrying = error.retryable && !job.delivered && job.attempt <= this.upstream.retryAttempts;
+    this.emit('upstreamError', {
+      sessionId: this.sessionId,
+      segmentIndex: job.segment.index,
+      code: error.code,
+      retrying
+    });
+
+    if (!retrying) {
+      this.fail(error);
+      return;
+    }
+
+    // 丢弃本次尝试已缓存的音频，重试时重新合成整个片段
+    job.buffered = [];
+    const delay = getRetryDelay(job.attempt, this.upstream.retryDelay, this.upstream.retryMaxDelay);
+
+    logger.warn('[TTSSession] 片段合成失败，准备重试', {
+      sessionId: this.sessionId,
+      segmentIndex: job.segment.index,
+      attempt: job.attempt,
+      delay,
+      code: error.code,
+      error: error.message
+    });
+
+    job.timer = setTimeout(() => {
+      job.timer = null;
+      if (!this.isFinished()) {
+        this.connect(job);
+      }
+    }, delay);
+  }
+
+  // 为片段的当前阶段设置超时，超时值不大于 0 时不限制
+  private armTimer(job: SegmentJob, timeout: number, message: string): void {
+    this.clearTimer(job);
+    if (timeout > 0) {
+      job.timer = setTimeout(() => {
+        job.timer = null;
+        this.handleJobError(job, new TTSError('timeout', message));
+      }, timeout);
+    }
+  }
+
+  private clearTimer(job: SegmentJob): void {
+    if (job.timer) {
+      clearTimeout(job.timer);
+      job.timer = null;
+    }
+  }
+
+  // 处理音频数据
+  private handleAudioData(job: SegmentJob, audioBuffer: Buffer, spec?: AudioSpec): void {
+    try {
+      // 验证数据有效性
+      if (audioBuffer.length === 0) {
+        logger.warn('[TTSSession] 接收到空的音频数据', { sessionId: this.sessionId });
+        return;
+      }
+
+      logger.debug('[TTSSession] 接收上游音频数据块:', {
+        sessionId: this.sessionId,
+        segmentIndex: job.segment.index,
+        size: audioBuffer.length
+      });
+
+      // 收到音频后改为限制音频块之间的间隔
+      this.armTimer(job, this.upstream.idleTimeout, `上游音频流中断超过 ${this.upstream.idleTimeout}ms`);
+
+      // 只有排在最前面的片段直接输出，后面的片段先缓存
+      if (this.jobs[0] === job) {
+        job.delivered = true;
+        this.deliverAudio(job.segment, audioBuffer, spec);
+      } else {
+        job.buffered.push({ audio: audioBuffer, spec });
+      }
+    } catch (error) {
+      logger.error('[TTSSession] 处理音频数据失败:', error);
+    }
+  }
+
+  // 按片段顺序将上游音频送入转码管线
+  private deliverAudio(segment: TextSegment, audio: Buffer, spec?: AudioSpec): void {
+    // 第一个音频块输出时确定音频规格
+    if (!this.audioSpecNegotiated) {
+      this.negotiateAudioSpec(spec);
+    } else if (spec) {
+      this.checkAudioSpec(spec);
+    }
+
+    this.enqueueOutput((pipeline) => {
+      this.emitAudioChunk(pipeline.process(audio), segment.index, pipeline.getDurationMs());
+    });
+  }
+
+  // 根据上游给出的音频规格确定输出管线的输入规格
+  private negotiateAudioSpec(spec?: AudioSpec): void {
+    this.audioSpecNegotiated = true;
+    this.audioSpec = spec ? { ...spec } : this.audioSpec;
+
+    logger.debug('[TTSSession] 音频规格已确定:', {
+      sessionId: this.sessionId,
+      audioSpec: this.audioSpec,
+      fromUpstream: !!spec
+    });
+
+    this.createPipeline();
+  }
+
+  // 创建转码管线，就绪后通知输出格式
+  private createPipeline(): Promise<AudioPipeline> {
+    if (!this.pipeline) {
+      this.pipeline = AudioPipeline.create(this.getAudioSpec(), {
+        format: this.params.format,
+        sampleRate: this.params.sampleRate,
+        channels: this.params.channels
+      });
+      this.enqueueOutput((pipeline) => {
+        this.emit('audioFormat', {
+          sessionId: this.sessionId,
+          format: pipeline.format,
+          mimeType: pipeline.mimeType,
+          audioSpec: { ...pipeline.outputSpec }
+        });
+      });
+    }
+    return this.pipeline;
+  }
+
+  // 串行执行输出任务，保证音频块顺序并在管线出错时结束会话
+  private enqueueOutput(task: (pipeline: AudioPipeline) => void): void {
+    // 先创建管线，确保 audioFormat 通知排在第一个输出任务之前
+    const pipeline = this.createPipeline();
+    this.outputQueue = this.outputQueue
+      .then(async () => {
+        while (this.paused && !this.isFinished()) {
+          await new Promise<void>((resolve) => this.resumeWaiters.push(resolve));
+        }
+        if (this.isFinished()) {
+          return;
+        }
+        task(await pipeline);
+      })
+      .catch((error) => this.fail(error));
+  }
+
+  // 发送编码后的音频块；deliveredMs 为输出该块之后已输出的音频时长
+  private emitAudioChunk(data: Buffer, segmentIndex: number, deliveredMs: number): void {
+    if (data.length === 0) {
+      return;
+    }
+
+    this.audioChunks.push(data);
+    this.audioChunkCount++;
+    this.audioBytes += data.length;
+    this.deliveredMs = Math.round(deliveredMs);
+    this.outputSegment = Math.max(this.outputSegment, segmentIndex);
+
+    logger.debug('[TTSSession] 输出音频数据块:', {
+      sessionId: this.sessionId,
+      size: data.length,
+      totalChunks: this.audioChunkCount,
+      totalSize: this.audioBytes
+    });
+
+    this.emit('audioChunk', {
+      data,
+      size: data.length,
+      segmentIndex,
+      sessionId: this.sessionId
+    });
+  }
+
+  private releaseResumeWaiters(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  private releasePipeline(): void {
+    if (this.pipeline) {
+      this.pipeline.then((pipeline) => pipeline.close()).catch(() => undefined);
+    }
+  }
+
+  // 音频规格在合成过程中不允许变化，出现时只记录警告
+  private checkAudioSpec(spec: AudioSpec): void {
+    if (spec.sampleRate !== this.audioSpec.sampleRate ||
+        spec.channels !== this.audioSpec.channels ||
+        spec.bitDepth !== this.audioSpec.bitDepth) {
+      logger.warn('[TTSSession] 上游音频规格在合成过程中发生变化，已忽略', {
+        sessionId: this.sessionId,
+        current: this.audioSpec,
+        received: spec
+      });
+    }
+  }
+
+  // 片段的上游合成完成：关闭其连接；若它排在最前面，则依次输出后续已缓存的片段
+  private handleSegmentComplete(job: SegmentJob): void {
+    job.upstreamDone = true;
+    this.clearTimer(job);
+    this.closeConnection(job);
+
+    if (this.jobs[0] === job) {
+      this.advanceSegments();
+    }
+  }
+
+  // 移除已完成的首个片段，并将新的首个片段缓存的音频送入管线
+  private advanceSegments(): void {
+    while (this.jobs.length > 0) {
+      const head = this.jobs[0];
+      if (head.buffered.length > 0) {
+        head.delivered = true;
+      }
+      for (const { audio, spec } of head.buffered) {
+        this.deliverAudio(head.segment, audio, spec);
+      }
+      head.buffered = [];
+
+      if (!head.upstreamDone) {
+        break;
+      }
+
+      this.jobs.shift();
+      this.finishSegment(head.segment);
+    }
+
+    this.pumpSegments();
+  }
+
+  // 在片段的音频全部输出后通知片段完成
+  private finishSegment(segment: TextSegment): void {
+    this.enqueueOutput((pipeline) => {
+      const startMs = this.segmentsEndMs;
+      this.segmentsEndMs = pipeline.getDurationMs();
+      this.completedSegments++;
+      this.segmentInfos.push({
+        index: segment.index,
+        text: segment.text,
+        startMs,
+        durationMs: this.segmentsEndMs - startMs,
+        endOffset: this.audioBytes
+      });
+
+      logger.info('[TTSSession] 文本片段合成完成', {
+        sessionId: this.sessionId,
+        segmentIndex: segment.index,
+        durationMs: this.segmentsEndMs - startMs
+      });
+
+      this.emit('segmentComplete', {
+        sessionId: this.sessionId,
+        segmentIndex: segment.index,
+        text: segment.text,
+        startMs,
+        durationMs: this.segmentsEndMs - startMs
+      });
+    });
+  }
+
+  // 全部片段合成完成
+  private handleSynthesisComplete(): void {
+    if (this.completing) {
+      return;
+    }
+    this.completing = true;
+    this.state = 'synthesizing';
+
+    this.enqueueOutput((pipeline) => {
+      this.emitAudioChunk(pipeline.flush(), Math.max(this.segmentCount - 1, 0), pipeline.getDurationMs());
+
+      // 合并所有音频块，并修正文件头
+      this.completeWith({
+        audioData: pipeline.finalize(Buffer.concat(this.audioChunks)),
+        audioSpec: { ...pipeline.outputSpec },
+        format: pipeline.format,
+        mimeType: pipeline.mimeType,
+        extension: pipeline.extension,
+        durationMs: pipeline.getDurationMs(),
+        segments: this.segmentInfos
+      });
+    });
+  }
+
+  // 从缓存回放：按片段切分为音频块依次发送，事件顺序与实时合成一致
+  private async replayCached(cached: SynthesisOutput): Promise<void> {
+    this.state = 'synthesizing';
+    this.segments = [];
+
+    this.emit('audioFormat', {
+      sessionId: this.sessionId,
+      format: cached.format,
+      mimeType: cached.mimeType,
+      audioSpec: { ...cached.audioSpec }
+    });
+
+    const audio = cached.audioData;
+    let offset = 0;
+
+    for (let i = 0; i < cached.segments.length; i++) {
+      const segment = cached.segments[i];
+      // 最后一个片段包含编码器冲洗出的尾部数据
+      const start = offset;
+      const end = i === cached.segments.length - 1 ? audio.length : segment.endOffset;
+
+      while (offset < end) {
+        // 每个音频块之间让出事件循环，使回放过程中也能停止会话
+        await new Promise((resolve) => setImmediate(resolve));
+        if (this.paused) {
+          await new Promise<void>((resolve) => this.resumeWaiters.push(resolve));
+        }
+        if (this.isFinished()) {
+          return;
+        }
+        // stop('sentence')：尚未开始输出的片段不再输出
+        if (this.stopAfterSegment && offset === start) {
+          this.stop();
+          return;
+        }
+
+        const chunk = audio.subarray(offset, Math.min(end, offset + REPLAY_CHUNK_SIZE));
+        offset += chunk.length;
+        // 按字节比例估算片段内已输出的时长
+        this.emitAudioChunk(chunk, segment.index, segment.startMs + segment.durationMs * (offset - start) / (end - start));
+      }
+
+      this.completedSegments++;
+      this.emit('segmentComplete', {
+        sessionId: this.sessionId,
+        segmentIndex: segment.index,
+        text: segment.text,
+        startMs: segment.startMs,
+        durationMs: segment.durationMs
+      });
+    }
+
+    // 没有片段信息时（如空文本）整体作为一个音频块发送
+    if (offset < audio.length) {
+      this.emitAudioChunk(audio.subarray(offset), 0, cached.durationMs);
+    }
+
+    if (!this.isFinished()) {
+      this.completeWith(cached);
+    }
+  }
+
+  // 完成会话并返回结果
+  private completeWith(output: SynthesisOutput): void {
+    this.state = 'completed';
+
+    const result: SynthesisResult = {
+      ...output,
+      sessionId: this.sessionId,
+      params: this.params,
+      cacheStatus: this.cacheStatus
+    };
+
+    logger.info('[TTSSession] 语音合成完成', {
+      totalSize: result.audioData.length,
+      chunks: this.audioChunkCount,
+      segments: result.segments.length,
+      format: result.format,
+      durationMs: result.durationMs,
+      cacheStatus: this.cacheStatus,
+      sessionId: this.sessionId
+    });
+
+    this.emit('complete', result);
+    this.settle(null, result);
+  }
+
+  // 合成失败
+  private fail(error: Error): void {
+    if (this.isFinished()) {
+      return;
+    }
+
+    this.state = 'failed';
+    this.releaseResumeWaiters();
+    this.segments = [];
+    this.closeConnections();
+    this.releasePipeline();
+
+    // 没有监听者时不触发error事件，避免EventEmitter抛出异常
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+
+    this.settle(error);
+  }
+
+  // 结束挂起的Promise并通知会话结束
+  private settle(error: Error | null, result?: SynthesisResult): void {
+    const pending = this.pending;
+    this.pending = null;
+
+    if (pending) {
+      if (error || !result) {
+        pending.reject(error || new Error('合成结果为空'));
+      } else {
+        pending.resolve(result);
+      }
+    }
+
+    this.emit('end', { sessionId: this.sessionId, state: this.state });
+  }
+
+  private closeConnection(job: SegmentJob): void {
+    if (job.connection) {
+      job.connection.cancel();
+      job.connection = null;
+    }
+  }
+
+  // 关闭所有片段的上游连接并丢弃缓存的音频
+  private closeConnections(): void {
+    for (const job of this.jobs) {
+      this.clearTimer(job);
+      this.closeConnection(job);
+      job.buffered = [];
+    }
+    this.jobs = [];
+  }
+}
+
+// 指数退避的重试延迟，叠加随机抖动避免大量会话同时重连
+const getRetryDelay = (attempt: number, baseDelay: number, maxDelay: number): number => {
+  const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+};
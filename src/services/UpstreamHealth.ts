@@ -0,0 +1,109 @@
+// 上游健康探测 - 按间隔探测合成服务的连通性和鉴权，结果在间隔内复用，同一时间最多一个探测
+// 连续失败达到阈值前报告为 degraded 但仍视为就绪，避免偶发失败导致 Kubernetes 反复摘除实例
+import { logger } from '../utils/logger';
+import { TTSError, TTSErrorCode } from './TTSError';
+import type { TTSProvider } from '../providers/TTSProvider';
+
+// connected 最近一次探测成功；degraded 探测失败但未达到连续失败阈值；disconnected 已达到阈值；unknown 尚未探测
+export type UpstreamStatus = 'connected' | 'degraded' | 'disconnected' | 'unknown';
+
+export interface UpstreamHealthStatus {
+  provider: string;
+  status: UpstreamStatus;
+  ready: boolean;
+  lastCheck: string | null;
+  latencyMs: number | null;          // 最近一次探测的耗时
+  lastSuccess: string | null;
+  lastError: { code: TTSErrorCode; message: string; at: string } | null;
+  consecutiveFailures: number;
+}
+
+export interface UpstreamHealthConfig {
+  timeout: number;              // 单次探测的超时（ms）
+  interval: number;             // 两次探测的最小间隔（ms），间隔内返回上次的结果
+  failureThreshold: number;     // 连续失败多少次后视为未就绪
+  getVoiceId: () => string;     // 探测使用的音色（跟随服务的默认配置）
+}
+
+export class UpstreamHealthMonitor {
+  private readonly provider: TTSProvider;
+  private readonly config: UpstreamHealthConfig;
+  private checkedAt: number | null = null;
+  private inFlight: Promise<UpstreamHealthStatus> | null = null;
+  private latencyMs: number | null = null;
+  private lastSuccess: Date | null = null;
+  private lastError: UpstreamHealthStatus['lastError'] = null;
+  private lastFailed: boolean = false;
+  private consecutiveFailures: number = 0;
+
+  constructor(provider: TTSProvider, config: UpstreamHealthConfig) {
+    this.provider = provider;
+    this.config = config;
+  }
+
+  // 返回上游健康状态，距上次探测超过间隔时先进行一次探测
+  check(): Promise<UpstreamHealthStatus> {
+    if (this.inFlight) {
+      return this.inFlight;
+    }
+    if (this.checkedAt !== null && Date.now() - this.checkedAt < this.config.interval) {
+      return Promise.resolve(this.getStatus());
+    }
+
+    this.inFlight = this.probe().finally(() => {
+      this.inFlight = null;
+    });
+    return this.inFlight;
+  }
+
+  // 当前记录的状态（不触发探测）
+  getStatus(): UpstreamHealthStatus {
+    const ready = this.consecutiveFailures < this.config.failureThreshold;
+    let status: UpstreamStatus = 'unknown';
+    if (this.checkedAt !== null) {
+      status = !this.lastFailed ? 'connected' : ready ? 'degraded' : 'disconnected';
+    }
+
+    return {
+      provider: this.provider.name,
+      status,
+      ready,
+      lastCheck: this.checkedAt !== null ? new Date(this.checkedAt).toISOString() : null,
+      latencyMs: this.latencyMs,
+      lastSuccess: this.lastSuccess ? this.lastSuccess.toISOString() : null,
+      lastError: this.lastError,
+      consecutiveFailures: this.consecutiveFailures
+    };
+  }
+
+  private async probe(): Promise<UpstreamHealthStatus> {
+    const startedAt = Date.now();
+    try {
+      await this.provider.probe(this.config.getVoiceId(), this.config.timeout);
+      this.lastSuccess = new Date();
+      this.lastFailed = false;
+      this.consecutiveFailures = 0;
+    } catch (error) {
+      const ttsError = error instanceof TTSError
+        ? error
+        : new TTSError('connection', error instanceof Error ? error.message : String(error));
+      this.lastFailed = true;
+      this.consecutiveFailures++;
+      this.lastError = { code: ttsError.code, message: ttsError.message, at: new Date().toISOString() };
+
+      logger.warn('[UpstreamHealth] 上游探测失败', {
+        provider: this.provider.name,
+        code: ttsError.code,
+        error: ttsError.message,
+        consecutiveFailures: this.consecutiveFailures,
+        failureThreshold: this.config.failureThreshold
+      });
+    }
+
+    this.latencyMs = Date.now() - startedAt;
+    this.checkedAt = Date.now();
+    return this.getStatus();
+  }
+}
+
+export default UpstreamHealthMonitor;
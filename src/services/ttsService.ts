@@ -0,0 +1,82 @@
+// TTS服务实例 - HTTP 接口与 WebSocket 接口共用同一个会话管理器和并发上限
+import { StreamingTTSService } from './StreamingTTSService';
+import { UpstreamHealthMonitor } from './UpstreamHealth';
+import { createSynthesisCache } from '../cache/SynthesisCache';
+import { createProvider } from '../providers';
+import { LexiconStore } from '../lexicon/LexiconStore';
+import { QuotaManager } from '../quota/QuotaManager';
+import { SynthesisJobQueue } from '../jobs/SynthesisJobQueue';
+import { WebhookNotifier } from '../jobs/WebhookNotifier';
+import { ResumableStreamRegistry } from '../sse/ResumableStream';
+import { observeService } from '../metrics';
+import config from '../config';
+
+// 合成服务提供方（TTS_PROVIDER 选择 coze 或 offline）
+const provider = createProvider(config.provider, {
+  token: config.coze.apiToken,
+  wsUrl: config.coze.wsUrl
+});
+
+// 合成缓存（CACHE_STORE=none 时不启用）
+const cache = createSynthesisCache({
+  store: config.cache.store,
+  maxBytes: config.cache.maxBytes,
+  ttlMs: config.cache.ttlMs,
+  directory: config.cache.directory
+});
+
+// 发音词典（保存在 LEXICON_FILE 中，合成请求通过 lexicons 字段引用）
+export const lexiconStore = new LexiconStore(config.lexicon.file);
+
+export const ttsService = new StreamingTTSService(provider, {
+  voiceId: config.coze.voiceId,
+  enabled: true,
+  sampleRate: config.audio.sampleRate,
+  channels: config.audio.channels,
+  speed: config.audio.speed,
+  format: config.audio.format,
+  normalize: config.text.normalize,
+  locale: config.text.locale,
+  maxConcurrentSessions: config.session.maxConcurrent,
+  segmentMaxLength: config.session.segmentMaxLength,
+  lookahead: config.session.lookahead,
+  connectTimeout: config.websocket.timeout,
+  firstChunkTimeout: config.websocket.firstChunkTimeout,
+  idleTimeout: config.websocket.idleTimeout,
+  retryAttempts: config.websocket.reconnectAttempts,
+  retryDelay: config.websocket.reconnectDelay,
+  retryMaxDelay: config.websocket.reconnectMaxDelay
+}, cache, lexiconStore);
+
+// 合成延迟、字符数、音频时长和上游错误等指标由 GET /metrics 输出
+observeService(ttsService);
+
+// 上游健康探测（健康检查和就绪检查使用）
+export const upstreamHealth = new UpstreamHealthMonitor(provider, {
+  timeout: config.health.timeout,
+  interval: config.health.probeInterval,
+  failureThreshold: config.health.failureThreshold,
+  getVoiceId: () => ttsService.getConfig().voiceId
+});
+
+// 用量配额（按 API 客户端或 IP 统计字符数和音频时长）
+export const quotaManager = new QuotaManager({
+  characters: { minute: config.quota.charactersPerMinute, day: config.quota.charactersPerDay },
+  audioSeconds: { minute: config.quota.audioSecondsPerMinute, day: config.quota.audioSecondsPerDay }
+});
+
+// 异步合成任务（长文本提交后轮询状态，完成后下载音频）
+export const jobQueue = new SynthesisJobQueue(ttsService, {
+  concurrency: config.jobs.concurrency,
+  maxQueued: config.jobs.maxQueued,
+  retentionMs: config.jobs.retentionMs
+});
+
+// 任务回调（提交任务时登记 callbackUrl，结束后发送签名通知）
+export const webhookNotifier = new WebhookNotifier(config.webhook);
+webhookNotifier.attach(jobQueue);
+
+// 可恢复的 SSE 流（断开后在宽限期内可携带 Last-Event-ID 重连）
+export const sseStreams = new ResumableStreamRegistry(config.sse);
+
+export default ttsService;
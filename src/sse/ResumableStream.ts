@@ -0,0 +1,239 @@
+// 可恢复的 SSE 流 - 每个事件带有 `id: <sessionId>:<序号>`，已发送的事件保留在重放缓冲区中
+// 客户端断开后会话继续合成一段宽限期，期间携带 Last-Event-ID 重连即可从下一个事件继续；超过宽限期未重连时放弃会话
+import { ServerResponse } from 'http';
+import { logger } from '../utils/logger';
+
+export interface ResumableStreamConfig {
+  heartbeatInterval: number;   // 心跳注释行的间隔（ms），0 表示不发送
+  graceMs: number;             // 断开后等待重连的时长；流结束后重放缓冲区同样保留该时长（ms）
+  replayMaxBytes: number;      // 每个流的重放缓冲区上限，超出时丢弃最早的事件
+  retryMs: number;             // 通过 retry: 字段建议客户端的重连间隔（ms）
+}
+
+// Last-Event-ID 能否继续
+export type ResumeCheck = 'ok' | 'gap' | 'done';
+
+interface BufferedEvent {
+  seq: number;
+  frame: string;
+}
+
+export class ResumableStream {
+  readonly sessionId: string;
+  readonly owner: string | null;          // 创建流的 API 客户端，未启用认证时为 null
+  private readonly config: ResumableStreamConfig;
+  private readonly onAbandon: () => void;
+  private readonly onExpire: () => void;
+  private events: BufferedEvent[] = [];
+  private bytes: number = 0;
+  private nextSeq: number = 1;
+  private res: ServerResponse | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private expiryTimer: NodeJS.Timeout | null = null;
+  private finished: boolean = false;
+
+  constructor(
+    sessionId: string,
+    owner: string | null,
+    config: ResumableStreamConfig,
+    onAbandon: () => void,
+    onExpire: () => void
+  ) {
+    this.sessionId = sessionId;
+    this.owner = owner;
+    this.config = config;
+    this.onAbandon = onAbandon;
+    this.onExpire = onExpire;
+  }
+
+  get attached(): boolean {
+    return this.res !== null;
+  }
+
+  get isFinished(): boolean {
+    return this.finished;
+  }
+
+  // 发送事件：分配序号并写入重放缓冲区，有客户端连接时立即写出
+  send(event: object): void {
+    if (this.finished) {
+      return;
+    }
+
+    const seq = this.nextSeq++;
+    const frame = `id: ${this.sessionId}:${seq}\ndata: ${JSON.stringify(event)}\n\n`;
+    this.events.push({ seq, frame });
+    this.bytes += frame.length;
+
+    // 保留最近的事件；被丢弃事件之前的 Last-Event-ID 无法继续
+    while (this.bytes > this.config.replayMaxBytes && this.events.length > 1) {
+      this.bytes -= this.events.shift()!.frame.length;
+    }
+
+    this.res?.write(frame);
+  }
+
+  // 流结束：结束当前连接，重放缓冲区再保留一个宽限期供错过结尾的客户端重连
+  finish(): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+    this.releaseResponse()?.end();
+    this.scheduleExpiry(this.onExpire);
+  }
+
+  // 检查 Last-Event-ID 的序号之后的事件是否都还在缓冲区中
+  check(afterSeq: number): ResumeCheck {
+    const lastSeq = this.nextSeq - 1;
+    if (afterSeq > lastSeq) {
+      return 'gap';
+    }
+    if (this.finished && afterSeq === lastSeq) {
+      return 'done';
+    }
+    const firstSeq = this.events.length > 0 ? this.events[0].seq : this.nextSeq;
+    return afterSeq + 1 >= firstSeq ? 'ok' : 'gap';
+  }
+
+  // 连接客户端，并重放 afterSeq 之后的事件（调用前先用 check() 确认可以继续）
+  // 已有连接时（旧连接尚未检测到断开）结束旧连接
+  attach(res: ServerResponse, afterSeq: number, prelude: string = ''): void {
+    this.releaseResponse()?.end();
+    this.clearExpiry();
+
+    this.res = res;
+    res.write(`retry: ${this.config.retryMs}\n\n${prelude}`);
+    for (const event of this.events) {
+      if (event.seq > afterSeq) {
+        res.write(event.frame);
+      }
+    }
+
+    if (this.finished) {
+      this.releaseResponse()?.end();
+      this.scheduleExpiry(this.onExpire);
+      return;
+    }
+
+    res.on('close', () => {
+      if (this.res === res) {
+        this.detach();
+      }
+    });
+
+    if (this.config.heartbeatInterval > 0) {
+      // 注释行不触发客户端事件，只用于防止代理因空闲关闭连接
+      this.heartbeatTimer = setInterval(() => res.write(': heartbeat\n\n'), this.config.heartbeatInterval);
+      this.heartbeatTimer.unref();
+    }
+  }
+
+  // 立即结束流并释放资源（关闭服务时调用）
+  dispose(): void {
+    this.finished = true;
+    this.releaseResponse()?.end();
+    this.clearExpiry();
+    this.events = [];
+    this.bytes = 0;
+  }
+
+  // 客户端断开：宽限期内未重连则放弃会话
+  private detach(): void {
+    this.releaseResponse();
+    if (this.finished) {
+      return;
+    }
+
+    logger.info('[SSE] 客户端断开连接，等待重连', { sessionId: this.sessionId, graceMs: this.config.graceMs });
+    this.scheduleExpiry(() => {
+      logger.info('[SSE] 客户端未在宽限期内重连，停止语音合成', { sessionId: this.sessionId });
+      this.onAbandon();
+      this.onExpire();
+    });
+  }
+
+  private releaseResponse(): ServerResponse | null {
+    const res = this.res;
+    this.res = null;
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    return res;
+  }
+
+  private scheduleExpiry(callback: () => void): void {
+    this.clearExpiry();
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = null;
+      callback();
+    }, this.config.graceMs);
+    this.expiryTimer.unref();
+  }
+
+  private clearExpiry(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+}
+
+// 按会话ID管理可恢复的流
+export class ResumableStreamRegistry {
+  readonly config: ResumableStreamConfig;
+  private readonly streams: Map<string, ResumableStream> = new Map();
+
+  constructor(config: ResumableStreamConfig) {
+    this.config = config;
+  }
+
+  // 为会话创建流；同一会话ID的旧流（已结束，仅保留重放缓冲区）被替换
+  // onAbandon 在客户端断开超过宽限期时调用（停止会话）
+  create(sessionId: string, owner: string | null, onAbandon: () => void): ResumableStream {
+    this.streams.get(sessionId)?.dispose();
+
+    const stream = new ResumableStream(sessionId, owner, this.config, onAbandon, () => {
+      if (this.streams.get(sessionId) === stream) {
+        this.streams.delete(sessionId);
+        stream.dispose();
+      }
+    });
+    this.streams.set(sessionId, stream);
+    return stream;
+  }
+
+  // 获取流；owner 不为 null 时只能访问自己创建的流
+  get(sessionId: string, owner: string | null = null): ResumableStream | null {
+    const stream = this.streams.get(sessionId);
+    if (!stream || (owner !== null && stream.owner !== owner)) {
+      return null;
+    }
+    return stream;
+  }
+
+  get size(): number {
+    return this.streams.size;
+  }
+
+  close(): void {
+    for (const stream of this.streams.values()) {
+      stream.dispose();
+    }
+    this.streams.clear();
+  }
+}
+
+// 解析 Last-Event-ID（`<sessionId>:<序号>`，会话ID本身可能包含冒号）
+export const parseEventId = (eventId: string): { sessionId: string; seq: number } | null => {
+  const separator = eventId.lastIndexOf(':');
+  if (separator <= 0) {
+    return null;
+  }
+  const seq = Number(eventId.slice(separator + 1));
+  if (!Number.isInteger(seq) || seq < 0) {
+    return null;
+  }
+  return { sessionId: eventId.slice(0, separator), seq };
+};
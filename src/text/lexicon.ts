@@ -0,0 +1,98 @@
+// 发音词典替换 - 按最长匹配把词条原文替换为指定读法（文本或拼音），含字母数字的词条只按整词匹配
+import crypto from 'crypto';
+
+// 词条：replacement 与 pinyin 二选一
+export interface LexiconEntry {
+  grapheme: string;       // 原文
+  replacement?: string;   // 替换读法
+  pinyin?: string;        // 数字标调的拼音，如 "chong2 qing4"
+}
+
+// 单个拼音音节（声调 1-4，轻声为 5 或 0，ü 可写作 v）
+const PINYIN_SYLLABLE = /^([a-zü]*[aeiouvü][a-zü]*)([0-5])$/i;
+
+const TONE_MARKS: Record<string, string[]> = {
+  a: ['ā', 'á', 'ǎ', 'à'],
+  e: ['ē', 'é', 'ě', 'è'],
+  i: ['ī', 'í', 'ǐ', 'ì'],
+  o: ['ō', 'ó', 'ǒ', 'ò'],
+  u: ['ū', 'ú', 'ǔ', 'ù'],
+  ü: ['ǖ', 'ǘ', 'ǚ', 'ǜ']
+};
+
+// 校验数字标调拼音，返回错误信息，有效时返回 null
+export const checkPinyin = (pinyin: string): string | null => {
+  const syllables = pinyin.trim().split(/\s+/);
+  const invalid = syllables.find(syllable => !PINYIN_SYLLABLE.test(syllable));
+  return invalid === undefined ? null : `无效的拼音音节 "${invalid}"，应为带数字声调的音节，如 zhong1`;
+};
+
+// 数字标调转为调号：a、e 优先标调，ou 标在 o 上，否则标在最后一个元音上
+export const toToneMarks = (pinyin: string): string => {
+  return pinyin.trim().split(/\s+/).map((syllable) => {
+    const match = PINYIN_SYLLABLE.exec(syllable);
+    if (!match) {
+      return syllable;
+    }
+    const base = match[1].toLowerCase().replace(/v/g, 'ü');
+    const tone = Number(match[2]);
+    if (tone < 1 || tone > 4) {
+      return base;
+    }
+
+    let index = base.search(/[ae]/);
+    if (index < 0) {
+      index = base.indexOf('ou');
+    }
+    if (index < 0) {
+      index = Math.max(...['i', 'o', 'u', 'ü'].map(vowel => base.lastIndexOf(vowel)));
+    }
+    return base.slice(0, index) + TONE_MARKS[base[index]][tone - 1] + base.slice(index + 1);
+  }).join(' ');
+};
+
+// 词条的读法
+const getSpokenForm = (entry: LexiconEntry): string => {
+  return entry.pinyin !== undefined ? toToneMarks(entry.pinyin) : entry.replacement ?? entry.grapheme;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 首尾为字母或数字的词条不能匹配单词的一部分
+const toPattern = (grapheme: string): string => {
+  const before = /^[A-Za-z0-9]/.test(grapheme) ? '(?<![A-Za-z0-9_])' : '';
+  const after = /[A-Za-z0-9]$/.test(grapheme) ? '(?![A-Za-z0-9_])' : '';
+  return `${before}${escapeRegExp(grapheme)}${after}`;
+};
+
+// 编译后的词典：多个词典合并，后面的词典覆盖前面词典中相同原文的词条
+export class LexiconMatcher {
+  readonly size: number;
+  readonly fingerprint: string;        // 词条内容的摘要，用于缓存键
+  private readonly spoken: Map<string, string>;
+  private readonly pattern: RegExp | null;
+
+  constructor(entries: LexiconEntry[]) {
+    this.spoken = new Map();
+    for (const entry of entries) {
+      this.spoken.set(entry.grapheme, getSpokenForm(entry));
+    }
+
+    // 按长度降序排列，正则的分支顺序即为最长匹配
+    const graphemes = Array.from(this.spoken.keys()).sort((a, b) => b.length - a.length || a.localeCompare(b));
+    this.size = graphemes.length;
+    this.pattern = graphemes.length > 0 ? new RegExp(graphemes.map(toPattern).join('|'), 'g') : null;
+    this.fingerprint = crypto.createHash('sha256')
+      .update(JSON.stringify(graphemes.map(grapheme => [grapheme, this.spoken.get(grapheme)])))
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  // 一次扫描完成替换，替换结果不会再次匹配
+  apply(text: string): string {
+    if (!this.pattern) {
+      return text;
+    }
+    return text.replace(this.pattern, match => this.spoken.get(match) ?? match);
+  }
+}
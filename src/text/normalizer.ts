@@ -0,0 +1,244 @@
+// 文本规范化 - 合成前把数字、金额、日期时间、百分比、单位和缩写改写为读法文本，并去掉网址和表情符号
+// 上游对这些写法的读法不一致（如 2026-10-19 可能被读成减法），改写后读法稳定且与语言匹配
+import {
+  cardinalToWords,
+  dateToWords,
+  digitsToWords,
+  ordinalToWords,
+  ReadingLanguage,
+  telephoneToWords,
+  timeToWords
+} from './numbers';
+
+// 规范化语言：auto 按文本中是否含有汉字选择中文或英文读法
+export type NormalizeLocale = 'auto' | ReadingLanguage;
+
+export const NORMALIZE_LOCALES: NormalizeLocale[] = ['auto', 'zh', 'en'];
+
+export const isNormalizeLocale = (value: string): value is NormalizeLocale => {
+  return (NORMALIZE_LOCALES as string[]).includes(value);
+};
+
+// 带千分位或不带千分位的数字（可含小数）
+const NUM = '(?:\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.\\d+)?';
+
+// 负号：只在前面不是字母、数字或连字符时生效，避免把 3-5 的连字符读成负号
+const SIGN = '(?:(?<![\\w-])-)?';
+
+// 货币：中文名称、英文单数/复数名称、英文辅币单数/复数名称、金额后面可能重复书写的中文单位
+interface Currency {
+  zh: string;
+  en: [string, string];
+  enMinor: [string, string];
+  zhSuffixes: string[];
+}
+
+const CURRENCIES: Record<string, Currency> = {
+  CNY: { zh: '元', en: ['yuan', 'yuan'], enMinor: ['fen', 'fen'], zhSuffixes: ['元', '块钱', '块'] },
+  USD: { zh: '美元', en: ['dollar', 'dollars'], enMinor: ['cent', 'cents'], zhSuffixes: ['美元', '美金'] },
+  EUR: { zh: '欧元', en: ['euro', 'euros'], enMinor: ['cent', 'cents'], zhSuffixes: ['欧元'] },
+  GBP: { zh: '英镑', en: ['pound', 'pounds'], enMinor: ['penny', 'pence'], zhSuffixes: ['英镑'] }
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '¥': 'CNY', '￥': 'CNY', '$': 'USD', '€': 'EUR', '£': 'GBP' };
+const CURRENCY_CODES: Record<string, string> = { RMB: 'CNY', CNY: 'CNY', USD: 'USD', EUR: 'EUR', GBP: 'GBP' };
+
+// 货币符号后金额之后的中文单位（长的优先匹配）
+const CURRENCY_SUFFIXES = Array.from(new Set(Object.values(CURRENCIES).flatMap(currency => currency.zhSuffixes)))
+  .sort((a, b) => b.length - a.length);
+
+// 计量单位：中文读法、英文单数/复数读法
+const UNITS: Record<string, { zh: string; en: [string, string] }> = {
+  'km/h': { zh: '千米每小时', en: ['kilometer per hour', 'kilometers per hour'] },
+  'm/s': { zh: '米每秒', en: ['meter per second', 'meters per second'] },
+  'km': { zh: '千米', en: ['kilometer', 'kilometers'] },
+  'cm': { zh: '厘米', en: ['centimeter', 'centimeters'] },
+  'mm': { zh: '毫米', en: ['millimeter', 'millimeters'] },
+  'm': { zh: '米', en: ['meter', 'meters'] },
+  'kg': { zh: '千克', en: ['kilogram', 'kilograms'] },
+  'mg': { zh: '毫克', en: ['milligram', 'milligrams'] },
+  'g': { zh: '克', en: ['gram', 'grams'] },
+  'ml': { zh: '毫升', en: ['milliliter', 'milliliters'] },
+  'mL': { zh: '毫升', en: ['milliliter', 'milliliters'] },
+  'L': { zh: '升', en: ['liter', 'liters'] },
+  '°C': { zh: '摄氏度', en: ['degree Celsius', 'degrees Celsius'] },
+  '℃': { zh: '摄氏度', en: ['degree Celsius', 'degrees Celsius'] },
+  '°F': { zh: '华氏度', en: ['degree Fahrenheit', 'degrees Fahrenheit'] },
+  'ms': { zh: '毫秒', en: ['millisecond', 'milliseconds'] },
+  'GHz': { zh: '吉赫', en: ['gigahertz', 'gigahertz'] },
+  'MHz': { zh: '兆赫', en: ['megahertz', 'megahertz'] },
+  'kHz': { zh: '千赫', en: ['kilohertz', 'kilohertz'] },
+  'Hz': { zh: '赫兹', en: ['hertz', 'hertz'] },
+  'TB': { zh: '太字节', en: ['terabyte', 'terabytes'] },
+  'GB': { zh: '吉字节', en: ['gigabyte', 'gigabytes'] },
+  'MB': { zh: '兆字节', en: ['megabyte', 'megabytes'] },
+  'KB': { zh: '千字节', en: ['kilobyte', 'kilobytes'] }
+};
+
+// 按单词读出而不是逐字母读出的大写词
+const WORD_ACRONYMS = new Set(['NASA', 'NATO', 'UNESCO', 'COVID', 'OK', 'OPEC', 'LASER', 'RADAR']);
+
+// 网址（遇到空白或中文字符、全角标点即结束）
+const URL_PATTERN = /(?:https?:\/\/|www\.)[^\s\u3000-\u303f\u4e00-\u9fff\uff00-\uffef]+/gi;
+
+// 表情符号（含变体选择符、肤色修饰符、零宽连接序列和旗帜）
+const EMOJI_PATTERN = /[\u{1F1E6}-\u{1F1FF}]{2}|(?:\p{Extended_Pictographic}|[\u{1F3FB}-\u{1F3FF}])(?:\uFE0F|\u20E3|[\u{1F3FB}-\u{1F3FF}]|\u200D\p{Extended_Pictographic})*|\uFE0F/gu;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+// 规范化规则：replace 返回 null 时保留原文
+interface NormalizeRule {
+  pattern: RegExp;
+  replace: (match: RegExpExecArray, language: ReadingLanguage) => string | null;
+}
+
+const toNumber = (value: string): number => Number(value.replace(/,/g, ''));
+
+// 金额读法：人民币按元角分读，其他货币按小数读；英文按主币和辅币读
+const currencyToWords = (amount: string, code: string, language: ReadingLanguage): string | null => {
+  const currency = CURRENCIES[code];
+  const [integer, fraction = ''] = amount.replace(/,/g, '').split('.');
+
+  if (language === 'zh') {
+    if (code !== 'CNY' || fraction.length > 2) {
+      return `${cardinalToWords(amount, 'zh')}${currency.zh}`;
+    }
+    const [jiao = 0, fen = 0] = Array.from(fraction).map(Number);
+    const yuan = Number(integer) > 0 || (!jiao && !fen) ? `${cardinalToWords(integer, 'zh')}元` : '';
+    return `${yuan}${jiao ? `${digitsToWords(String(jiao), 'zh')}角` : ''}${fen ? `${digitsToWords(String(fen), 'zh')}分` : ''}`;
+  }
+
+  if (fraction.length > 2) {
+    return `${cardinalToWords(amount, 'en')} ${currency.en[1]}`;
+  }
+  const major = Number(integer);
+  const minor = Number(fraction.padEnd(2, '0') || 0);
+  const words = [`${cardinalToWords(integer, 'en')} ${currency.en[major === 1 ? 0 : 1]}`];
+  if (minor > 0) {
+    words.push(`${cardinalToWords(String(minor), 'en')} ${currency.enMinor[minor === 1 ? 0 : 1]}`);
+  }
+  return words.join(' and ');
+};
+
+const RULES: NormalizeRule[] = [
+  // 日期：2026-10-19、2026/10/19、2026.10.19
+  {
+    pattern: /(?<!\d)(\d{4})([-/.])(\d{1,2})\2(\d{1,2})(?!\d)/g,
+    replace: (match, language) => dateToWords(`${match[1]}-${match[3]}-${match[4]}`, 'ymd', language)
+  },
+  // 时刻：14:30、9:05:30
+  {
+    pattern: /(?<![\d:])(\d{1,2}):(\d{2})(?::(\d{2}))?(?![\d:])/g,
+    replace: (match, language) => timeToWords(
+      Number(match[1]), Number(match[2]), match[3] === undefined ? undefined : Number(match[3]), language
+    )
+  },
+  // 电话号码：010-12345678、138-0013-8000、(555) 123-4567
+  {
+    pattern: /(?<![\d-])(\d{3,4}-\d{7,8}|1\d{2}-\d{4}-\d{4}|\(\d{3}\) ?\d{3}-\d{4}|\d{3}-\d{3}-\d{4})(?![\d-])/g,
+    replace: (match, language) => telephoneToWords(match[1], language)
+  },
+  // 前置货币符号：¥1,250.50、$5；金额后重复书写的同一货币单位（¥100元、$5美元）不再读出
+  {
+    pattern: new RegExp(`([${Object.keys(CURRENCY_SYMBOLS).map(escapeRegExp).join('')}])\\s?(${NUM})(?:\\s?(${CURRENCY_SUFFIXES.join('|')}))?`, 'g'),
+    replace: (match, language) => {
+      const code = CURRENCY_SYMBOLS[match[1]];
+      const words = currencyToWords(match[2], code, language);
+      const suffix = match[3] ?? '';
+      return words === null || CURRENCIES[code].zhSuffixes.includes(suffix) ? words : `${words}${suffix}`;
+    }
+  },
+  // 货币代码：RMB 100、100 USD
+  {
+    pattern: new RegExp(`\\b(${Object.keys(CURRENCY_CODES).join('|')})\\s?(${NUM})|(${NUM})\\s?(${Object.keys(CURRENCY_CODES).join('|')})\\b`, 'g'),
+    replace: (match, language) => match[1]
+      ? currencyToWords(match[2], CURRENCY_CODES[match[1]], language)
+      : currencyToWords(match[3], CURRENCY_CODES[match[4]], language)
+  },
+  // 百分比：3.5%、-2％
+  {
+    pattern: new RegExp(`(${SIGN}${NUM})\\s?[%％]`, 'g'),
+    replace: (match, language) => {
+      const value = cardinalToWords(match[1], language);
+      return language === 'zh' ? `百分之${value}` : `${value} percent`;
+    }
+  },
+  // 数字加单位：5km、36.5℃、120 km/h（单位之后不能紧跟字母）
+  {
+    pattern: new RegExp(
+      `(${SIGN}${NUM})\\s?(${Object.keys(UNITS).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})(?![A-Za-z])`,
+      'g'
+    ),
+    replace: (match, language) => {
+      const unit = UNITS[match[2]];
+      const value = cardinalToWords(match[1], language);
+      return language === 'zh' ? `${value}${unit.zh}` : `${value} ${unit.en[toNumber(match[1]) === 1 ? 0 : 1]}`;
+    }
+  },
+  // 英文序数：1st、22nd、103rd
+  {
+    pattern: /(?<![\w.])(\d+)(st|nd|rd|th)\b/gi,
+    replace: (match, language) => ordinalToWords(match[1], language)
+  },
+  // 中文年份逐位读：2026年
+  {
+    pattern: /(?<![\d.])(\d{4})(?=\s?年)/g,
+    replace: (match, language) => language === 'zh' ? digitsToWords(match[1], 'zh') : null
+  },
+  // 以 0 开头或 11 位以上的数字串（编号、电话号码）按电话号码逐位读
+  {
+    pattern: /(?<![\d.,])(0\d+|\d{11,})(?![\d.,]*\d)/g,
+    replace: (match, language) => telephoneToWords(match[1], language)
+  },
+  // 其余数字按基数读
+  {
+    pattern: new RegExp(`(?<![\\d.,])(${SIGN}${NUM})(?![\\d])`, 'g'),
+    replace: (match, language) => cardinalToWords(match[1], language)
+  },
+  // 大写缩写逐字母读：API -> A P I
+  {
+    pattern: /(?<![A-Za-z])([A-Z]{2,5})(?![A-Za-z])/g,
+    replace: (match) => WORD_ACRONYMS.has(match[1]) ? null : Array.from(match[1]).join(' ')
+  }
+];
+
+// 英文读法插入到字母或数字旁边时补上空格
+const needsSpace = (char: string | undefined): boolean => !!char && /[A-Za-z0-9]/.test(char);
+
+const applyRule = (text: string, rule: NormalizeRule, language: ReadingLanguage): string => {
+  let result = '';
+  let last = 0;
+  rule.pattern.lastIndex = 0;
+
+  for (let match = rule.pattern.exec(text); match; match = rule.pattern.exec(text)) {
+    const replacement = rule.replace(match, language);
+    if (replacement === null) {
+      continue;
+    }
+    const before = text[match.index - 1];
+    const after = text[match.index + match[0].length];
+    result += text.slice(last, match.index) +
+      (needsSpace(before) && /^[A-Za-z]/.test(replacement) ? ' ' : '') +
+      replacement +
+      (needsSpace(after) && /[A-Za-z]$/.test(replacement) ? ' ' : '');
+    last = match.index + match[0].length;
+  }
+
+  return result + text.slice(last);
+};
+
+// 确定实际使用的读法语言
+export const resolveLocale = (text: string, locale: NormalizeLocale): ReadingLanguage => {
+  if (locale !== 'auto') {
+    return locale;
+  }
+  return /[\u3400-\u9fff]/.test(text) ? 'zh' : 'en';
+};
+
+// 规范化文本
+export const normalizeText = (text: string, locale: NormalizeLocale = 'auto'): string => {
+  const language = resolveLocale(text, locale);
+  const stripped = text.replace(URL_PATTERN, ' ').replace(EMOJI_PATTERN, '');
+  const normalized = RULES.reduce((current, rule) => applyRule(current, rule, language), stripped);
+  return normalized.replace(/[ \t]{2,}/g, ' ').replace(/ +(?=[，。！？、；：,.!?;:])/g, '').trim();
+};
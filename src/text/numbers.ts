@@ -0,0 +1,241 @@
+// 数字读法 - 将数字、序数、日期和电话号码转换为中文或英文的读法文本
+export type ReadingLanguage = 'zh' | 'en';
+
+const ZH_DIGITS = '零一二三四五六七八九';
+const ZH_UNITS = ['', '十', '百', '千'];
+const ZH_GROUPS = ['', '万', '亿', '万亿'];
+
+const EN_ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const EN_TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const EN_GROUPS = ['', 'thousand', 'million', 'billion', 'trillion'];
+const EN_MONTHS = ['January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'];
+const EN_ORDINAL_EXCEPTIONS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth'
+};
+
+// 超过该位数的整数按逐位读出
+const MAX_INTEGER_DIGITS = 15;
+
+const NUMBER_PATTERN = /^([+-]?)(\d+)(?:\.(\d+))?$/;
+
+// 四位以内的中文读法（不含万、亿）
+const zhGroup = (value: number): string => {
+  let result = '';
+  let pendingZero = false;
+  for (let i = 3; i >= 0; i--) {
+    const digit = Math.floor(value / 10 ** i) % 10;
+    if (digit === 0) {
+      pendingZero = result.length > 0;
+      continue;
+    }
+    if (pendingZero) {
+      result += '零';
+      pendingZero = false;
+    }
+    result += ZH_DIGITS[digit] + ZH_UNITS[i];
+  }
+  return result;
+};
+
+const zhInteger = (value: number): string => {
+  if (value === 0) {
+    return ZH_DIGITS[0];
+  }
+
+  const groups: number[] = [];
+  for (let rest = value; rest > 0; rest = Math.floor(rest / 10000)) {
+    groups.push(rest % 10000);
+  }
+
+  let result = '';
+  let pendingZero = false;
+  for (let i = groups.length - 1; i >= 0; i--) {
+    const group = groups[i];
+    if (group === 0) {
+      pendingZero = result.length > 0;
+      continue;
+    }
+    // 高位组之后跟不足千位的组时补“零”，如 10050 读作一万零五十
+    if (result && (pendingZero || group < 1000)) {
+      result += '零';
+    }
+    result += zhGroup(group) + ZH_GROUPS[i];
+    pendingZero = false;
+  }
+
+  // 10-19 开头读作“十…”而不是“一十…”
+  return result.startsWith('一十') ? result.slice(1) : result;
+};
+
+// 千以内的英文读法
+const enGroup = (value: number): string => {
+  const words: string[] = [];
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  if (hundreds > 0) {
+    words.push(EN_ONES[hundreds], 'hundred');
+  }
+  if (rest >= 20) {
+    words.push(rest % 10 ? `${EN_TENS[Math.floor(rest / 10)]}-${EN_ONES[rest % 10]}` : EN_TENS[rest / 10]);
+  } else if (rest > 0) {
+    words.push(EN_ONES[rest]);
+  }
+  return words.join(' ');
+};
+
+const enInteger = (value: number): string => {
+  if (value === 0) {
+    return EN_ONES[0];
+  }
+
+  const words: string[] = [];
+  let groupIndex = 0;
+  for (let rest = value; rest > 0; rest = Math.floor(rest / 1000), groupIndex++) {
+    const group = rest % 1000;
+    if (group > 0) {
+      words.unshift(EN_GROUPS[groupIndex] ? `${enGroup(group)} ${EN_GROUPS[groupIndex]}` : enGroup(group));
+    }
+  }
+  return words.join(' ');
+};
+
+// 逐位读出数字串，非数字字符原样保留
+export const digitsToWords = (digits: string, language: ReadingLanguage): string => {
+  const words = Array.from(digits).map(char => {
+    if (!/\d/.test(char)) {
+      return char;
+    }
+    return language === 'zh' ? ZH_DIGITS[Number(char)] : EN_ONES[Number(char)];
+  });
+  return language === 'zh' ? words.join('') : words.join(' ');
+};
+
+// 基数读法，支持正负号和小数；不是数字时返回 null
+export const cardinalToWords = (value: string, language: ReadingLanguage): string | null => {
+  const match = NUMBER_PATTERN.exec(value.replace(/,/g, '').trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, integerPart, fractionPart] = match;
+  const digits = integerPart.replace(/^0+(?=\d)/, '');
+  const integer = digits.length > MAX_INTEGER_DIGITS
+    ? digitsToWords(digits, language)
+    : language === 'zh' ? zhInteger(Number(digits)) : enInteger(Number(digits));
+
+  const parts: string[] = [];
+  if (sign === '-') {
+    parts.push(language === 'zh' ? '负' : 'minus');
+  }
+  parts.push(integer);
+  if (fractionPart) {
+    parts.push(language === 'zh' ? '点' : 'point', digitsToWords(fractionPart, language));
+  }
+  return language === 'zh' ? parts.join('') : parts.join(' ');
+};
+
+// 序数读法；不是整数时返回 null
+export const ordinalToWords = (value: string, language: ReadingLanguage): string | null => {
+  if (!/^\d+$/.test(value.replace(/,/g, '').trim())) {
+    return null;
+  }
+
+  const cardinal = cardinalToWords(value, language)!;
+  if (language === 'zh') {
+    return `第${cardinal}`;
+  }
+
+  // 只变换最后一个词，如 twenty-three -> twenty-third
+  return cardinal.replace(/([a-z]+)$/, (word) => {
+    if (EN_ORDINAL_EXCEPTIONS[word]) {
+      return EN_ORDINAL_EXCEPTIONS[word];
+    }
+    return word.endsWith('y') ? `${word.slice(0, -1)}ieth` : `${word}th`;
+  });
+};
+
+// 英文年份读法，如 1999 -> nineteen ninety-nine，2005 -> two thousand five
+const enYear = (year: number): string => {
+  if (year < 1000 || year > 9999 || (year >= 2000 && year < 2010)) {
+    return enInteger(year);
+  }
+
+  const high = Math.floor(year / 100);
+  const low = year % 100;
+  if (low === 0) {
+    return `${enInteger(high)} hundred`;
+  }
+  return `${enInteger(high)} ${low < 10 ? `oh ${EN_ONES[low]}` : enInteger(low)}`;
+};
+
+// 日期字段顺序（y 年、m 月、d 日）
+export const DATE_FORMATS = ['ymd', 'mdy', 'dmy', 'ym', 'my', 'md', 'dm', 'y', 'm', 'd'];
+
+// 日期读法，value 中的数字按 format 的顺序解释；字段个数不符或取值无效时返回 null
+export const dateToWords = (value: string, format: string, language: ReadingLanguage): string | null => {
+  const numbers = value.match(/\d+/g) || [];
+  if (!DATE_FORMATS.includes(format) || numbers.length !== format.length) {
+    return null;
+  }
+
+  const fields: Record<string, number> = {};
+  Array.from(format).forEach((field, i) => {
+    fields[field] = Number(numbers[i]);
+  });
+  const { y: year, m: month, d: day } = fields;
+  if ((month !== undefined && (month < 1 || month > 12)) || (day !== undefined && (day < 1 || day > 31))) {
+    return null;
+  }
+
+  if (language === 'zh') {
+    return [
+      year !== undefined ? `${digitsToWords(String(year), 'zh')}年` : '',
+      month !== undefined ? `${zhInteger(month)}月` : '',
+      day !== undefined ? `${zhInteger(day)}日` : ''
+    ].join('');
+  }
+
+  const monthDay = [
+    month !== undefined ? EN_MONTHS[month - 1] : '',
+    day !== undefined ? ordinalToWords(String(day), 'en') : ''
+  ].filter(Boolean).join(' ');
+  const yearWords = year !== undefined ? enYear(year) : '';
+  return monthDay && yearWords ? `${monthDay}, ${yearWords}` : monthDay || yearWords;
+};
+
+// 时刻读法（24 小时制），如 14:30 读作十四点三十分 / fourteen thirty；取值无效时返回 null
+export const timeToWords = (hours: number, minutes: number, seconds: number | undefined, language: ReadingLanguage): string | null => {
+  if (hours > 23 || minutes > 59 || (seconds !== undefined && seconds > 59)) {
+    return null;
+  }
+
+  if (language === 'zh') {
+    const minute = minutes === 0 ? '' : `${minutes < 10 ? '零' : ''}${zhInteger(minutes)}分`;
+    const second = seconds ? `${zhInteger(seconds)}秒` : '';
+    return `${zhInteger(hours)}点${minute || (second ? '零分' : '')}${second}`;
+  }
+
+  const minute = minutes === 0 ? 'o\'clock' : minutes < 10 ? `oh ${EN_ONES[minutes]}` : enInteger(minutes);
+  const second = seconds ? ` and ${enInteger(seconds)} second${seconds === 1 ? '' : 's'}` : '';
+  return `${enInteger(hours)} ${minute}${second}`;
+};
+
+// 电话号码读法：逐位读出，分隔符处停顿；中文中的 1 读作“幺”
+export const telephoneToWords = (value: string, language: ReadingLanguage): string => {
+  const groups = value.split(/[^\d+]+/).filter(Boolean).map((group) => {
+    const digits = group.replace(/^\+/, '');
+    const prefix = group.startsWith('+') ? (language === 'zh' ? '加' : 'plus ') : '';
+    const words = digitsToWords(digits, language);
+    return prefix + (language === 'zh' ? words.replace(/一/g, '幺') : words);
+  });
+  return groups.join(language === 'zh' ? '，' : ', ');
+};
+
+// 逐字符读出（字母和数字之间以空格分隔）
+export const charactersToWords = (value: string, language: ReadingLanguage): string => {
+  return Array.from(value.replace(/\s+/g, ''))
+    .map(char => /\d/.test(char) ? digitsToWords(char, language) : char)
+    .join(' ');
+};
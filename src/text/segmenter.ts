@@ -0,0 +1,212 @@
+// 文本分句 - 按句子和分句边界切分长文本，使合成可以逐句流水线进行
+// 句子边界：中文 。！？；…… 英文 . ! ? ; 以及换行；英文句点需后接空白，避免切开小数和常见缩写；网址内的标点不作为边界
+// 句子超过最大长度时再按逗号、顿号、冒号等分句标点切分，仍然过长时按最大长度硬切（英文优先在空格处）
+
+export interface SegmenterOptions {
+  maxLength: number;   // 单个片段的最大字符数
+}
+
+// 句末标点
+const SENTENCE_TERMINATORS = new Set(['。', '！', '？', '；', '…', '!', '?', ';', '\n']);
+
+// 分句标点
+const CLAUSE_TERMINATORS = new Set(['，', '、', '：', ',', ':']);
+
+// 紧跟在句末标点之后、仍属于当前句子的闭合符号
+const CLOSING_MARKS = new Set(['"', '\'', '”', '’', '」', '』', '）', ')', '】', ']', '》']);
+
+// 句点不表示句末的英文缩写
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'no']);
+
+// 网址（与规范化时移除的网址范围一致）：网址内的 ?、;、:、. 等不作为边界
+const URL_PATTERN = /(?:https?:\/\/|www\.)[^\s\u3000-\u303f\u4e00-\u9fff\uff00-\uffef]*/iy;
+
+// 网址末尾的标点仍按标点处理
+const URL_TRAILING_PUNCTUATION = /[.,;:!?'")\]]+$/;
+
+const isWhitespace = (char: string): boolean => /\s/.test(char);
+
+// text[index] 处开始的网址的结束位置（不含），不是网址时返回 -1
+const findUrlEnd = (text: string, index: number): number => {
+  URL_PATTERN.lastIndex = index;
+  const match = URL_PATTERN.exec(text);
+  return match ? index + match[0].replace(URL_TRAILING_PUNCTUATION, '').length : -1;
+};
+
+// 判断 text[index] 处的英文句点是否为句末（needMore 表示需要更多输入才能判断）
+const isSentencePeriod = (text: string, index: number): boolean | 'needMore' => {
+  if (index + 1 >= text.length) {
+    return 'needMore';
+  }
+
+  const next = text[index + 1];
+  if (!isWhitespace(next) && !CLOSING_MARKS.has(next)) {
+    return false;
+  }
+
+  const word = text.slice(0, index).split(/\s/).pop() || '';
+  return !ABBREVIATIONS.has(word.toLowerCase());
+};
+
+// 从 start 开始查找下一个句子边界，返回句子结束位置（不含）；final 为 false 时末尾不确定的边界视为未结束
+const findSentenceEnd = (text: string, start: number, final: boolean): number => {
+  for (let i = start; i < text.length; i++) {
+    const urlEnd = findUrlEnd(text, i);
+    if (urlEnd > i) {
+      // 网址延续到输入末尾时，后面可能还有网址的剩余部分
+      if (urlEnd >= text.length && !final) {
+        return -1;
+      }
+      i = urlEnd - 1;
+      continue;
+    }
+
+    const char = text[i];
+    let isEnd = SENTENCE_TERMINATORS.has(char);
+
+    if (char === '.') {
+      const period = isSentencePeriod(text, i);
+      if (period === 'needMore') {
+        return final ? text.length : -1;
+      }
+      isEnd = period;
+    }
+
+    if (!isEnd) {
+      continue;
+    }
+
+    // 连续的句末标点（如 ?! 或 ……）和闭合引号、括号归入当前句子
+    let end = i + 1;
+    while (end < text.length && (SENTENCE_TERMINATORS.has(text[end]) || CLOSING_MARKS.has(text[end]) || text[end] === '.')) {
+      end++;
+    }
+
+    // 输入尚未结束时，无法确定后面是否还有标点
+    if (end >= text.length && !final) {
+      return -1;
+    }
+    return end;
+  }
+
+  return final && start < text.length ? text.length : -1;
+};
+
+// 按最大长度硬切，英文优先在最后一个空白处切开
+const hardSplit = (text: string, maxLength: number): string[] => {
+  const pieces: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxLength) {
+    const window = rest.slice(0, maxLength);
+    const space = window.search(/\s\S*$/);
+    const cut = space > maxLength / 2 ? space + 1 : maxLength;
+    pieces.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+
+  if (rest.length > 0) {
+    pieces.push(rest);
+  }
+  return pieces;
+};
+
+// 将超长句子按分句标点切开，再把相邻分句尽量合并到最大长度以内
+const splitLongSentence = (sentence: string, maxLength: number): string[] => {
+  if (sentence.length <= maxLength) {
+    return [sentence];
+  }
+
+  const clauses: string[] = [];
+  let start = 0;
+  for (let i = 0; i < sentence.length; i++) {
+    const urlEnd = findUrlEnd(sentence, i);
+    if (urlEnd > i) {
+      i = urlEnd - 1;
+      continue;
+    }
+    if (CLAUSE_TERMINATORS.has(sentence[i])) {
+      clauses.push(sentence.slice(start, i + 1));
+      start = i + 1;
+    }
+  }
+  if (start < sentence.length) {
+    clauses.push(sentence.slice(start));
+  }
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const clause of clauses.flatMap(c => hardSplit(c, maxLength))) {
+    if (current.length + clause.length > maxLength && current.length > 0) {
+      pieces.push(current);
+      current = '';
+    }
+    current += clause;
+  }
+  if (current.length > 0) {
+    pieces.push(current);
+  }
+
+  return pieces;
+};
+
+// 增量分句器：文本可以分多次追加，只输出已经确定结束的片段
+export class TextSegmenter {
+  private readonly maxLength: number;
+  private buffer: string = '';
+
+  constructor(options: SegmenterOptions) {
+    if (!Number.isInteger(options.maxLength) || options.maxLength <= 0) {
+      throw new Error(`无效的最大片段长度: ${options.maxLength}`);
+    }
+    this.maxLength = options.maxLength;
+  }
+
+  // 追加文本，返回已完整的片段
+  push(text: string): string[] {
+    this.buffer += text;
+    return this.drain(false);
+  }
+
+  // 输入结束，返回剩余的全部片段
+  flush(): string[] {
+    return this.drain(true);
+  }
+
+  // 尚未输出的文本长度
+  get pendingLength(): number {
+    return this.buffer.length;
+  }
+
+  private drain(final: boolean): string[] {
+    const segments: string[] = [];
+    let start = 0;
+
+    for (;;) {
+      const end = findSentenceEnd(this.buffer, start, final);
+      if (end < 0) {
+        break;
+      }
+      segments.push(...splitLongSentence(this.buffer.slice(start, end), this.maxLength));
+      start = end;
+    }
+
+    let rest = this.buffer.slice(start);
+
+    // 未结束的句子已经超过最大长度时，先输出其中完整的部分
+    if (!final && rest.length > this.maxLength) {
+      const pieces = splitLongSentence(rest, this.maxLength);
+      rest = pieces.pop() || '';
+      segments.push(...pieces);
+    }
+
+    this.buffer = final ? '' : rest;
+    return segments.map(segment => segment.trim()).filter(segment => segment.length > 0);
+  }
+}
+
+// 一次性切分完整文本
+export const segmentText = (text: string, options: SegmenterOptions): string[] => {
+  const segmenter = new TextSegmenter(options);
+  return [...segmenter.push(text), ...segmenter.flush()];
+};
@@ -0,0 +1,568 @@
+// SSML 解析 - 解析并校验受支持的 SSML 子集，展开为按顺序排列的文本片段和停顿
+// 上游只接受纯文本，因此 <break> 由服务生成静音，<prosody rate>/<emphasis> 转换为片段语速，
+// <voice> 转换为片段音色，<say-as>/<sub> 在服务端展开为文本
+//
+// 支持的元素：
+//   <speak xml:lang>               根元素（必需）
+//   <p> <s>                        段落/句子，前后断开片段
+//   <break time strength/>         停顿，time 为 500ms / 1.5s，strength 为 none/x-weak/weak/medium/strong/x-strong
+//   <prosody rate>                 语速：x-slow/slow/medium/fast/x-fast、120%、+20%/-10% 或倍数 1.2
+//   <emphasis level>               强调（strong/moderate/none/reduced），以放慢语速实现
+//   <voice name>                   切换音色
+//   <say-as interpret-as format>   cardinal/number/ordinal/digits/characters/spell-out/date/telephone
+//   <sub alias>                    以 alias 替换元素内容
+import { ApplicationError } from '../middleware/errorHandler';
+import {
+  cardinalToWords,
+  charactersToWords,
+  DATE_FORMATS,
+  dateToWords,
+  digitsToWords,
+  ordinalToWords,
+  ReadingLanguage,
+  telephoneToWords
+} from './numbers';
+
+// 单个 <break> 的最长停顿（ms）
+export const MAX_BREAK_MS = 10000;
+
+// 解析结果中的片段：文本（带音色和相对语速）或停顿
+export type SsmlSpan =
+  | { type: 'text'; text: string; voiceId?: string; rate: number }
+  | { type: 'break'; durationMs: number };
+
+// 校验问题（行列号从 1 开始）
+export interface SsmlIssue {
+  message: string;
+  line: number;
+  column: number;
+  element?: string;
+}
+
+// SSML 无效
+export class SsmlError extends ApplicationError {
+  readonly issues: SsmlIssue[];
+
+  constructor(issues: SsmlIssue[]) {
+    const first = issues[0];
+    super(`SSML 无效: ${first.message}（第 ${first.line} 行第 ${first.column} 列）`, 400);
+    this.name = 'SsmlError';
+    this.issues = issues;
+  }
+}
+
+const BREAK_STRENGTHS: Record<string, number> = {
+  'none': 0,
+  'x-weak': 100,
+  'weak': 250,
+  'medium': 400,
+  'strong': 700,
+  'x-strong': 1000
+};
+
+const RATE_KEYWORDS: Record<string, number> = {
+  'x-slow': 0.6,
+  'slow': 0.8,
+  'medium': 1,
+  'default': 1,
+  'fast': 1.25,
+  'x-fast': 1.5
+};
+
+// 强调以放慢语速表达
+const EMPHASIS_RATES: Record<string, number> = {
+  strong: 0.85,
+  moderate: 0.92,
+  none: 1,
+  reduced: 1.1
+};
+
+const SAY_AS_TYPES = ['cardinal', 'number', 'ordinal', 'digits', 'characters', 'spell-out', 'date', 'telephone'];
+
+// 各元素允许的属性（命名空间声明另行放行）
+const ELEMENT_ATTRIBUTES: Record<string, string[]> = {
+  'speak': ['version', 'xmlns', 'xml:lang'],
+  'p': ['xml:lang'],
+  's': ['xml:lang'],
+  'break': ['time', 'strength'],
+  'prosody': ['rate'],
+  'emphasis': ['level'],
+  'voice': ['name', 'xml:lang'],
+  'say-as': ['interpret-as', 'format'],
+  'sub': ['alias']
+};
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' };
+
+interface SsmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: SsmlNode[];
+  offset: number;
+}
+
+type SsmlNode = SsmlElement | { text: string; offset: number };
+
+// 渲染上下文（由外层元素继承）
+interface RenderContext {
+  language: ReadingLanguage;
+  voiceId?: string;
+  rate: number;
+}
+
+const isElement = (node: SsmlNode): node is SsmlElement => 'name' in node;
+
+// 语法错误：立即中止解析
+class SyntaxIssue extends Error {
+  constructor(message: string, readonly offset: number) {
+    super(message);
+  }
+}
+
+// 将 XML 文本解析为元素树（只处理 SSML 需要的 XML 子集：元素、属性、文本、实体、注释和 CDATA）
+class SsmlParser {
+  private pos: number = 0;
+
+  constructor(private readonly source: string) {}
+
+  parseDocument(): SsmlElement {
+    this.skipMisc();
+    if (this.source.startsWith('<!DOCTYPE', this.pos)) {
+      throw new SyntaxIssue('不支持 DOCTYPE 声明', this.pos);
+    }
+    if (this.source[this.pos] !== '<') {
+      throw new SyntaxIssue('SSML 必须以 <speak> 元素开始', this.pos);
+    }
+
+    const root = this.parseElement();
+    this.skipMisc();
+    if (this.pos < this.source.length) {
+      throw new SyntaxIssue('根元素之后不能再有内容', this.pos);
+    }
+    return root;
+  }
+
+  // 跳过空白、XML 声明和注释
+  private skipMisc(): void {
+    for (;;) {
+      while (this.pos < this.source.length && /\s/.test(this.source[this.pos])) {
+        this.pos++;
+      }
+      if (this.source.startsWith('<?', this.pos)) {
+        this.pos = this.indexAfter('?>', '处理指令未结束');
+      } else if (this.source.startsWith('<!--', this.pos)) {
+        this.pos = this.indexAfter('-->', '注释未结束');
+      } else {
+        return;
+      }
+    }
+  }
+
+  private indexAfter(token: string, message: string): number {
+    const index = this.source.indexOf(token, this.pos);
+    if (index < 0) {
+      throw new SyntaxIssue(message, this.pos);
+    }
+    return index + token.length;
+  }
+
+  private readName(): string {
+    const match = /^[A-Za-z_][\w.:-]*/.exec(this.source.slice(this.pos, this.pos + 100));
+    if (!match) {
+      throw new SyntaxIssue('缺少元素名或属性名', this.pos);
+    }
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private skipSpaces(): boolean {
+    const start = this.pos;
+    while (this.pos < this.source.length && /\s/.test(this.source[this.pos])) {
+      this.pos++;
+    }
+    return this.pos > start;
+  }
+
+  private parseElement(): SsmlElement {
+    const offset = this.pos;
+    this.pos++;
+    const name = this.readName();
+    const attributes: Record<string, string> = {};
+
+    for (;;) {
+      const spaced = this.skipSpaces();
+      if (this.pos >= this.source.length) {
+        throw new SyntaxIssue(`<${name}> 标签未结束`, offset);
+      }
+      if (this.source.startsWith('/>', this.pos)) {
+        this.pos += 2;
+        return { name, attributes, children: [], offset };
+      }
+      if (this.source[this.pos] === '>') {
+        this.pos++;
+        break;
+      }
+      if (!spaced) {
+        throw new SyntaxIssue('属性之间必须以空白分隔', this.pos);
+      }
+
+      const attributeOffset = this.pos;
+      const attribute = this.readName();
+      this.skipSpaces();
+      if (this.source[this.pos] !== '=') {
+        throw new SyntaxIssue(`属性 ${attribute} 缺少值`, attributeOffset);
+      }
+      this.pos++;
+      this.skipSpaces();
+      const quote = this.source[this.pos];
+      if (quote !== '"' && quote !== '\'') {
+        throw new SyntaxIssue(`属性 ${attribute} 的值必须用引号括起`, this.pos);
+      }
+      const end = this.source.indexOf(quote, this.pos + 1);
+      if (end < 0) {
+        throw new SyntaxIssue(`属性 ${attribute} 的值未结束`, this.pos);
+      }
+      if (attribute in attributes) {
+        throw new SyntaxIssue(`属性 ${attribute} 重复`, attributeOffset);
+      }
+      attributes[attribute] = this.decodeEntities(this.source.slice(this.pos + 1, end), this.pos + 1);
+      this.pos = end + 1;
+    }
+
+    return { name, attributes, children: this.parseChildren(name, offset), offset };
+  }
+
+  // 解析元素内容直到对应的结束标签
+  private parseChildren(name: string, offset: number): SsmlNode[] {
+    const children: SsmlNode[] = [];
+
+    for (;;) {
+      if (this.pos >= this.source.length) {
+        throw new SyntaxIssue(`<${name}> 元素缺少结束标签`, offset);
+      }
+
+      if (this.source.startsWith('</', this.pos)) {
+        const closeOffset = this.pos;
+        this.pos += 2;
+        const closeName = this.readName();
+        this.skipSpaces();
+        if (this.source[this.pos] !== '>') {
+          throw new SyntaxIssue(`</${closeName}> 标签未结束`, closeOffset);
+        }
+        this.pos++;
+        if (closeName !== name) {
+          throw new SyntaxIssue(`结束标签 </${closeName}> 与开始标签 <${name}> 不匹配`, closeOffset);
+        }
+        return children;
+      }
+
+      if (this.source.startsWith('<!--', this.pos)) {
+        this.pos = this.indexAfter('-->', '注释未结束');
+      } else if (this.source.startsWith('<![CDATA[', this.pos)) {
+        const start = this.pos + '<![CDATA['.length;
+        this.pos = this.indexAfter(']]>', 'CDATA 未结束');
+        children.push({ text: this.source.slice(start, this.pos - 3), offset: start });
+      } else if (this.source[this.pos] === '<') {
+        children.push(this.parseElement());
+      } else {
+        const start = this.pos;
+        const end = this.source.indexOf('<', start);
+        this.pos = end < 0 ? this.source.length : end;
+        children.push({ text: this.decodeEntities(this.source.slice(start, this.pos), start), offset: start });
+      }
+    }
+  }
+
+  private decodeEntities(text: string, offset: number): string {
+    return text.replace(/&([^;\s<&]*);?/g, (match, entity: string, index: number) => {
+      if (!match.endsWith(';')) {
+        throw new SyntaxIssue('& 必须写作 &amp;', offset + index);
+      }
+      if (entity in NAMED_ENTITIES) {
+        return NAMED_ENTITIES[entity];
+      }
+      const code = /^#x([0-9a-f]+)$/i.exec(entity)?.[1];
+      const value = code ? parseInt(code, 16) : /^#\d+$/.test(entity) ? Number(entity.slice(1)) : NaN;
+      if (!Number.isInteger(value) || value <= 0 || value > 0x10ffff) {
+        throw new SyntaxIssue(`无法识别的实体 ${match}`, offset + index);
+      }
+      return String.fromCodePoint(value);
+    });
+  }
+}
+
+// 将元素树展开为片段；相邻且音色、语速相同的文本合并为一个片段，段落、句子和停顿处断开
+class SsmlRenderer {
+  readonly spans: SsmlSpan[] = [];
+  readonly issues: SsmlIssue[] = [];
+  private pending: { text: string; voiceId?: string; rate: number } | null = null;
+
+  constructor(private readonly locate: (offset: number) => { line: number; column: number }) {}
+
+  render(root: SsmlElement): void {
+    if (root.name !== 'speak') {
+      this.report(root, '根元素必须是 <speak>');
+      return;
+    }
+    this.checkAttributes(root);
+    const context: RenderContext = { language: toLanguage(root.attributes['xml:lang']) ?? 'zh', rate: 1 };
+    this.renderChildren(root, context);
+    this.flush();
+  }
+
+  private renderChildren(element: SsmlElement, context: RenderContext): void {
+    for (const child of element.children) {
+      if (isElement(child)) {
+        this.renderElement(child, context);
+      } else {
+        this.addText(child.text, context);
+      }
+    }
+  }
+
+  private renderElement(element: SsmlElement, context: RenderContext): void {
+    if (!(element.name in ELEMENT_ATTRIBUTES) || element.name === 'speak') {
+      this.report(element, element.name === 'speak' ? '<speak> 不能嵌套' : `不支持的元素 <${element.name}>`);
+      return;
+    }
+    this.checkAttributes(element);
+
+    const { attributes } = element;
+    const language = toLanguage(attributes['xml:lang']) ?? context.language;
+
+    switch (element.name) {
+      case 'p':
+      case 's':
+        this.flush();
+        this.renderChildren(element, { ...context, language });
+        this.flush();
+        break;
+      case 'break':
+        if (element.children.length > 0) {
+          this.report(element, '<break> 必须是空元素');
+        }
+        this.addBreak(this.getBreakDuration(element));
+        break;
+      case 'prosody': {
+        const rate = attributes.rate === undefined ? 1 : parseRate(attributes.rate);
+        if (rate === null) {
+          this.report(element, `无效的语速 rate="${attributes.rate}"`);
+          return;
+        }
+        this.renderChildren(element, { ...context, rate: context.rate * rate });
+        break;
+      }
+      case 'emphasis': {
+        const rate = EMPHASIS_RATES[attributes.level ?? 'moderate'];
+        if (rate === undefined) {
+          this.report(element, `无效的强调级别 level="${attributes.level}"，可用值: ${Object.keys(EMPHASIS_RATES).join(', ')}`);
+          return;
+        }
+        this.renderChildren(element, { ...context, rate: context.rate * rate });
+        break;
+      }
+      case 'voice':
+        if (!attributes.name) {
+          this.report(element, '<voice> 缺少 name 属性');
+          return;
+        }
+        this.flush();
+        this.renderChildren(element, { ...context, language, voiceId: attributes.name });
+        this.flush();
+        break;
+      case 'say-as': {
+        const text = this.getTextContent(element);
+        const expanded = text === null ? null : this.expandSayAs(element, text.trim(), context.language);
+        if (expanded !== null) {
+          this.addText(expanded, context);
+        }
+        break;
+      }
+      case 'sub':
+        if (attributes.alias === undefined) {
+          this.report(element, '<sub> 缺少 alias 属性');
+          return;
+        }
+        this.getTextContent(element);
+        this.addText(attributes.alias, context);
+        break;
+    }
+  }
+
+  private checkAttributes(element: SsmlElement): void {
+    const allowed = ELEMENT_ATTRIBUTES[element.name];
+    for (const attribute of Object.keys(element.attributes)) {
+      if (!allowed.includes(attribute) && !attribute.startsWith('xmlns:')) {
+        this.report(element, `<${element.name}> 不支持属性 ${attribute}`);
+      }
+    }
+  }
+
+  private getBreakDuration(element: SsmlElement): number {
+    const { time, strength } = element.attributes;
+    if (time !== undefined) {
+      const match = /^(\d+(?:\.\d+)?)(ms|s)$/.exec(time.trim());
+      if (!match) {
+        this.report(element, `无效的停顿时长 time="${time}"，应为 500ms 或 1.5s 的形式`);
+        return 0;
+      }
+      const durationMs = Math.round(Number(match[1]) * (match[2] === 's' ? 1000 : 1));
+      if (durationMs > MAX_BREAK_MS) {
+        this.report(element, `停顿时长不能超过 ${MAX_BREAK_MS}ms`);
+        return 0;
+      }
+      return durationMs;
+    }
+
+    const durationMs = BREAK_STRENGTHS[strength ?? 'medium'];
+    if (durationMs === undefined) {
+      this.report(element, `无效的停顿强度 strength="${strength}"，可用值: ${Object.keys(BREAK_STRENGTHS).join(', ')}`);
+      return 0;
+    }
+    return durationMs;
+  }
+
+  // 只包含文本的元素的内容（<say-as> 和 <sub> 不能嵌套元素）
+  private getTextContent(element: SsmlElement): string | null {
+    if (element.children.some(isElement)) {
+      this.report(element, `<${element.name}> 只能包含文本`);
+      return null;
+    }
+    return element.children.map(child => (child as { text: string }).text).join('');
+  }
+
+  private expandSayAs(element: SsmlElement, text: string, language: ReadingLanguage): string | null {
+    const interpretAs = element.attributes['interpret-as'];
+    if (!interpretAs || !SAY_AS_TYPES.includes(interpretAs)) {
+      this.report(element, `无效的 interpret-as="${interpretAs ?? ''}"，可用值: ${SAY_AS_TYPES.join(', ')}`);
+      return null;
+    }
+
+    let expanded: string | null;
+    switch (interpretAs) {
+      case 'cardinal':
+      case 'number':
+        expanded = cardinalToWords(text, language);
+        break;
+      case 'ordinal':
+        expanded = ordinalToWords(text, language);
+        break;
+      case 'digits':
+        expanded = /^[\d\s-]+$/.test(text) ? digitsToWords(text.replace(/[\s-]/g, ''), language) : null;
+        break;
+      case 'date': {
+        const format = element.attributes.format ?? 'ymd';
+        if (!DATE_FORMATS.includes(format)) {
+          this.report(element, `无效的日期格式 format="${format}"，可用值: ${DATE_FORMATS.join(', ')}`);
+          return null;
+        }
+        expanded = dateToWords(text, format, language);
+        break;
+      }
+      case 'telephone':
+        expanded = /^\+?[\d\s().-]+$/.test(text) ? telephoneToWords(text, language) : null;
+        break;
+      default:
+        expanded = charactersToWords(text, language);
+    }
+
+    if (expanded === null) {
+      this.report(element, `无法按 ${interpretAs} 读出 "${text}"`);
+    }
+    return expanded;
+  }
+
+  private addText(text: string, context: RenderContext): void {
+    const collapsed = text.replace(/\s+/g, ' ');
+    if (this.pending && this.pending.voiceId === context.voiceId && this.pending.rate === context.rate) {
+      this.pending.text += collapsed;
+      return;
+    }
+    if (collapsed.trim().length === 0) {
+      // 片段之间的空白只在同一片段内有意义
+      return;
+    }
+    this.flush();
+    this.pending = { text: collapsed, voiceId: context.voiceId, rate: context.rate };
+  }
+
+  private addBreak(durationMs: number): void {
+    this.flush();
+    if (durationMs > 0) {
+      this.spans.push({ type: 'break', durationMs });
+    }
+  }
+
+  private flush(): void {
+    if (this.pending) {
+      const text = this.pending.text.trim();
+      if (text.length > 0) {
+        this.spans.push({ type: 'text', text, voiceId: this.pending.voiceId, rate: this.pending.rate });
+      }
+      this.pending = null;
+    }
+  }
+
+  private report(element: SsmlElement, message: string): void {
+    this.issues.push({ message, ...this.locate(element.offset), element: element.name });
+  }
+}
+
+// xml:lang 映射为读法语言：en 开头为英文，其他为中文
+const toLanguage = (lang?: string): ReadingLanguage | undefined => {
+  if (!lang) {
+    return undefined;
+  }
+  return /^en\b/i.test(lang) ? 'en' : 'zh';
+};
+
+// 解析 <prosody rate>，返回相对语速倍数；无效时返回 null
+const parseRate = (value: string): number | null => {
+  const rate = value.trim();
+  if (rate in RATE_KEYWORDS) {
+    return RATE_KEYWORDS[rate];
+  }
+
+  const percent = /^([+-]?)(\d+(?:\.\d+)?)%$/.exec(rate);
+  if (percent) {
+    const amount = Number(percent[2]) / 100;
+    const multiplier = percent[1] === '+' ? 1 + amount : percent[1] === '-' ? 1 - amount : amount;
+    return multiplier > 0 ? multiplier : null;
+  }
+
+  const multiplier = /^\d+(?:\.\d+)?$/.test(rate) ? Number(rate) : NaN;
+  return multiplier > 0 ? multiplier : null;
+};
+
+// 根据字符位置计算行列号
+const createLocator = (source: string) => (offset: number): { line: number; column: number } => {
+  const before = source.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+};
+
+// 解析 SSML，返回按顺序排列的片段；标记无效时抛出 SsmlError（包含全部校验问题）
+export const parseSsml = (ssml: string): SsmlSpan[] => {
+  const locate = createLocator(ssml);
+
+  let root: SsmlElement;
+  try {
+    root = new SsmlParser(ssml).parseDocument();
+  } catch (error) {
+    if (error instanceof SyntaxIssue) {
+      throw new SsmlError([{ message: error.message, ...locate(error.offset) }]);
+    }
+    throw error;
+  }
+
+  const renderer = new SsmlRenderer(locate);
+  renderer.render(root);
+  if (renderer.issues.length > 0) {
+    throw new SsmlError(renderer.issues);
+  }
+
+  if (!renderer.spans.some(span => span.type === 'text')) {
+    throw new SsmlError([{ message: 'SSML 中没有可合成的文本', ...locate(root.offset), element: root.name }]);
+  }
+  return renderer.spans;
+};
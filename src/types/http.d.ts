@@ -0,0 +1,8 @@
+import type { ApiClient } from '../auth/apiKeys';
+
+// 通过 API 密钥认证的客户端（Express 的 Request 继承自 IncomingMessage，HTTP 和 WebSocket 升级请求共用）
+declare module 'http' {
+  interface IncomingMessage {
+    apiClient?: ApiClient;
+  }
+}
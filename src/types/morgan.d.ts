@@ -16,5 +16,9 @@ declare module 'morgan' {
   function morgan(format: string, options?: Options): RequestHandler;
   function morgan(format: FormatFn, options?: Options): RequestHandler;
   
+  namespace morgan {
+    function token(name: string, callback: (req: any, res: any, arg?: string) => string | undefined): typeof morgan;
+  }
+  
   export = morgan;
 }
\ No newline at end of file
@@ -0,0 +1,65 @@
+// TTS合成相关的共享类型定义
+import type { OutputFormat } from '../audio/formats';
+import type { NormalizeLocale } from '../text/normalizer';
+
+// 单次合成参数（未提供的字段使用服务默认配置）
+export interface SynthesisOptions {
+  sessionId?: string;
+  voiceId?: string;
+  speed?: number;
+  sampleRate?: number;
+  channels?: number;
+  format?: string;
+  normalize?: boolean;         // 是否在合成前规范化文本
+  locale?: string;             // 规范化语言 auto/zh/en
+  lexicons?: string[];         // 按顺序应用的发音词典 ID
+}
+
+// 实际生效的合成参数
+export interface SynthesisParams {
+  voiceId: string;
+  speed: number;
+  sampleRate: number;
+  channels: number;
+  format: OutputFormat;
+  normalize: boolean;
+  locale: NormalizeLocale;
+  lexicons: string[];
+}
+
+// PCM 音频规格（由上游 pcm_config 协商得出）
+export interface AudioSpec {
+  sampleRate: number;
+  channels: number;
+  bitDepth: number;
+}
+
+// 文本片段在输出音频中的位置
+export interface SegmentInfo {
+  index: number;
+  text: string;
+  startMs: number;
+  durationMs: number;
+  endOffset: number;           // 该片段的音频在输出中的结束字节位置
+}
+
+// 缓存状态：hit 命中缓存，miss 未命中（合成后写入缓存），bypass 未使用缓存
+export type CacheStatus = 'hit' | 'miss' | 'bypass';
+
+// 可缓存的合成输出（与会话无关的部分）
+export interface SynthesisOutput {
+  audioData: Buffer;           // 按输出格式编码后的完整音频
+  audioSpec: AudioSpec;        // 编码前的 PCM 规格（重采样和声道转换之后）
+  format: OutputFormat;
+  mimeType: string;
+  extension: string;
+  durationMs: number;
+  segments: SegmentInfo[];
+}
+
+// 合成结果
+export interface SynthesisResult extends SynthesisOutput {
+  sessionId: string;
+  params: SynthesisParams;
+  cacheStatus: CacheStatus;
+}
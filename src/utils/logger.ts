@@ -1,6 +1,7 @@
 import winston from 'winston';
 import path from 'path';
 import fs from 'fs';
+import { getRequestContext } from './requestContext';
 
 // 确保日志目录存在
 const logDir = 'logs';
@@ -8,10 +9,23 @@ if (!fs.existsSync(logDir)) {
   fs.mkdirSync(logDir, { recursive: true });
 }
 
+// 在请求中记录的日志附带请求ID和客户端ID
+const requestFields = winston.format((info) => {
+  const context = getRequestContext();
+  if (context?.requestId && info.requestId === undefined) {
+    info.requestId = context.requestId;
+  }
+  if (context?.clientId && info.clientId === undefined) {
+    info.clientId = context.clientId;
+  }
+  return info;
+});
+
 // 创建 Winston logger
 export const logger = winston.createLogger({
   level: process.env.LOG_LEVEL || 'info',
   format: winston.format.combine(
+    requestFields(),
     winston.format.timestamp({
       format: 'YYYY-MM-DD HH:mm:ss'
     }),
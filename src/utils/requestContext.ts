@@ -0,0 +1,12 @@
+// 请求上下文 - 在一次请求（或 WebSocket 连接）的异步调用链中传递请求ID和客户端ID，由日志自动附加到每条记录
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RequestContext {
+  requestId?: string;
+  clientId?: string;
+}
+
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// 当前调用链所属请求的上下文（不在请求中时为 undefined）
+export const getRequestContext = (): RequestContext | undefined => requestContext.getStore();
@@ -0,0 +1,105 @@
+// ZIP 归档（PKWARE APPNOTE），条目不压缩（store），用于打包批量合成的音频和清单
+// 只支持 ZIP32：单个条目和整个归档都不能超过 4GB，条目数不超过 65535
+
+export interface ZipEntry {
+  name: string;              // 归档内路径，使用 UTF-8 编码
+  data: Buffer;
+  modifiedAt?: Date;
+}
+
+// ZIP 使用的 CRC32（多项式 0xedb88320，反转）
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let j = 0; j < 8; j++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = (crc >>> 8) ^ CRC_TABLE[(crc ^ data[i]) & 0xff];
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS 日期和时间（精度 2 秒，1980 年之前的时间按 1980-01-01 记录）
+const toDosDateTime = (date: Date): { time: number; date: number } => {
+  if (date.getFullYear() < 1980) {
+    return { time: 0, date: (1 << 5) | 1 };
+  }
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+};
+
+const VERSION = 20;            // 2.0：支持目录和 store
+const FLAG_UTF8 = 0x0800;      // 文件名使用 UTF-8
+
+export const createZip = (entries: ZipEntry[]): Buffer => {
+  if (entries.length > 0xffff) {
+    throw new Error(`ZIP条目过多: ${entries.length}`);
+  }
+
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const crc = crc32(entry.data);
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(VERSION, 4);
+    local.writeUInt16LE(FLAG_UTF8, 6);
+    local.writeUInt16LE(0, 8);                      // store
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(entry.data.length, 18);     // 压缩后大小
+    local.writeUInt32LE(entry.data.length, 22);     // 原始大小
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);                     // 扩展字段长度
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(VERSION, 4);              // 创建版本
+    central.writeUInt16LE(VERSION, 6);              // 解压所需版本
+    central.writeUInt16LE(FLAG_UTF8, 8);
+    central.writeUInt16LE(0, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(entry.data.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    // 扩展字段、注释、磁盘号、内部属性、外部属性均为 0
+    central.writeUInt32LE(offset, 42);              // 本地文件头的偏移
+
+    localParts.push(local, name, entry.data);
+    centralParts.push(central, name);
+    offset += local.length + name.length + entry.data.length;
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  if (offset + centralSize > 0xffffffff) {
+    throw new Error('ZIP归档超过 4GB');
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);            // 本磁盘的条目数
+  end.writeUInt16LE(entries.length, 10);           // 条目总数
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);                   // 中央目录的偏移
+
+  return Buffer.concat([...localParts, ...centralParts, end]);
+};
@@ -0,0 +1,82 @@
+// 集成测试服务 - 启动模拟 Coze 服务，并让应用通过 COZE_WS_URL 连接到它
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { MockCozeServer } from '../mocks/mockCozeServer';
+
+export interface TestServer {
+  baseUrl: string;
+  mock: MockCozeServer;
+  close(): Promise<void>;
+}
+
+export const startTestServer = async (): Promise<TestServer> => {
+  const mock = await MockCozeServer.start();
+  process.env.COZE_WS_URL = mock.url;
+
+  // 配置在首次加载时读取环境变量，因此应用必须在设置上游地址之后加载
+  const { default: app } = await import('../../src/app');
+  const { jobQueue, sseStreams, ttsService, webhookNotifier } = await import('../../src/services/ttsService');
+
+  const server: Server = await new Promise((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    mock,
+    close: async () => {
+      jobQueue.close();
+      webhookNotifier.close();
+      sseStreams.close();
+      await ttsService.cleanup();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      await mock.close();
+    }
+  };
+};
+
+// SSE 事件
+export interface StreamEvent {
+  type: string;
+  [key: string]: any;
+}
+
+// SSE 帧（id 为 null 表示事件不带 id）
+export interface StreamFrame {
+  id: string | null;
+  event: StreamEvent;
+}
+
+// 解析 SSE 响应体中的全部事件帧（跳过 retry: 和心跳注释行）
+export const parseFrames = (body: string): StreamFrame[] => {
+  const frames: StreamFrame[] = [];
+  for (const block of body.split('\n\n')) {
+    const lines = block.trim().split('\n');
+    const data = lines.find(line => line.startsWith('data: '));
+    if (!data) {
+      continue;
+    }
+    const id = lines.find(line => line.startsWith('id: '));
+    frames.push({
+      id: id ? id.slice('id: '.length) : null,
+      event: JSON.parse(data.slice('data: '.length))
+    });
+  }
+  return frames;
+};
+
+// 解析 SSE 响应体中的全部事件
+export const parseEvents = (body: string): StreamEvent[] => parseFrames(body).map(frame => frame.event);
+
+// 发送 JSON 请求
+export const postJson = (baseUrl: string, path: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> => {
+  return fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+};
+
+// 读取 JSON 响应体
+export const readJson = async (res: Response): Promise<any> => res.json();
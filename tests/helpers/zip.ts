@@ -0,0 +1,43 @@
+// 读取测试中生成的 ZIP 归档（按中央目录定位各条目，只支持不压缩的条目）
+export interface ZipFile {
+  name: string;
+  data: Buffer;
+  crc: number;
+}
+
+export const readZip = (archive: Buffer): ZipFile[] => {
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (end < 0) {
+    throw new Error('missing end of central directory');
+  }
+
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  const files: ZipFile[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (archive.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error(`bad central directory entry at ${offset}`);
+    }
+    if (archive.readUInt16LE(offset + 10) !== 0) {
+      throw new Error('compressed entries are not supported');
+    }
+    const crc = archive.readUInt32LE(offset + 16);
+    const size = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+
+    if (archive.readUInt32LE(localOffset) !== 0x04034b50) {
+      throw new Error(`bad local header for ${name}`);
+    }
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    files.push({ name, data: archive.subarray(dataStart, dataStart + size), crc });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+};
@@ -0,0 +1,73 @@
+import { postJson, readJson, startTestServer, TestServer } from '../helpers/testServer';
+
+describe('API key authentication', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    // 应用在 startTestServer 中才加载，此时读取密钥配置
+    process.env.API_KEYS = 'web:web-key:synthesize,ops:ops-key:admin:config|admin:stop';
+    server = await startTestServer();
+  });
+
+  afterAll(async () => {
+    delete process.env.API_KEYS;
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.mock.reset();
+  });
+
+  const bearer = (key: string) => ({ Authorization: `Bearer ${key}` });
+
+  it('rejects requests without a key', async () => {
+    const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。' });
+    expect(res.status).toBe(401);
+    expect(res.headers.get('www-authenticate')).toBe('Bearer');
+    expect(await readJson(res)).toMatchObject({ success: false, error: '未认证' });
+    expect(server.mock.requests).toHaveLength(0);
+  });
+
+  it('rejects invalid keys', async () => {
+    const res = await fetch(`${server.baseUrl}/api/tts/status`, { headers: bearer('wrong') });
+    expect(res.status).toBe(401);
+    expect((await readJson(res)).message).toBe('API密钥无效');
+  });
+
+  it('accepts a bearer key with the required scope', async () => {
+    const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。' }, bearer('web-key'));
+    expect(res.status).toBe(200);
+  });
+
+  it('accepts the key as a query parameter', async () => {
+    const res = await postJson(server.baseUrl, '/api/tts/synthesize?api_key=web-key', { text: '你好。' });
+    expect(res.status).toBe(200);
+  });
+
+  it('rejects keys without the required scope', async () => {
+    const stream = await postJson(server.baseUrl, '/api/tts/synthesize-stream', { text: '你好。' }, bearer('web-key'));
+    expect(stream.status).toBe(403);
+    expect(await readJson(stream)).toMatchObject({ success: false, error: '权限不足' });
+
+    const config = await fetch(`${server.baseUrl}/api/tts/config`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...bearer('web-key') },
+      body: JSON.stringify({ speed: 1.2 })
+    });
+    expect(config.status).toBe(403);
+
+    const synthesize = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。' }, bearer('ops-key'));
+    expect(synthesize.status).toBe(403);
+  });
+
+  it('lets admin clients stop sessions', async () => {
+    const res = await postJson(server.baseUrl, '/api/tts/stop', { sessionId: 'missing' }, bearer('ops-key'));
+    expect(res.status).not.toBe(401);
+    expect(res.status).not.toBe(403);
+  });
+
+  it('keeps health and metrics public', async () => {
+    expect((await fetch(`${server.baseUrl}/health`)).status).toBe(200);
+    expect((await fetch(`${server.baseUrl}/metrics`)).status).toBe(200);
+  });
+});
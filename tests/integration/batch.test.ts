@@ -0,0 +1,126 @@
+import { DEFAULT_SCRIPT } from '../mocks/mockCozeServer';
+import { postJson, readJson, startTestServer, TestServer } from '../helpers/testServer';
+import { readZip } from '../helpers/zip';
+
+describe('batch synthesis', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.mock.reset();
+  });
+
+  const readArchive = async (res: Response) => {
+    const files = readZip(Buffer.from(await res.arrayBuffer()));
+    const manifest = JSON.parse(files.find(file => file.name === 'manifest.json')!.data.toString());
+    return { files, manifest };
+  };
+
+  it('returns an archive with one file per item and a manifest', async () => {
+    const res = await postJson(server.baseUrl, '/api/tts/batch', {
+      format: 'pcm',
+      items: [
+        { id: 'agenda-1', text: '第一项议程。' },
+        { id: 'agenda-2', text: '第二项议程。', format: 'wav', speed: 1.5 },
+        { id: 'closing', text: '会议结束。', voiceId: 'other-voice' }
+      ]
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('application/zip');
+    expect(res.headers.get('x-tts-batch-succeeded')).toBe('3');
+    expect(res.headers.get('x-tts-batch-failed')).toBe('0');
+
+    const { files, manifest } = await readArchive(res);
+    expect(files.map(file => file.name)).toEqual(['manifest.json', 'agenda-1.pcm', 'agenda-2.wav', 'closing.pcm']);
+    expect(manifest).toMatchObject({ batchId: res.headers.get('x-tts-batch-id'), succeeded: 3, failed: 0 });
+    expect(manifest.items[1]).toMatchObject({
+      id: 'agenda-2',
+      status: 'completed',
+      file: 'agenda-2.wav',
+      format: 'wav',
+      params: { speed: 1.5, format: 'wav' },
+      error: null
+    });
+    expect(files[2].data.subarray(0, 4).toString()).toBe('RIFF');
+    expect(files[1].data.length).toBe(manifest.items[0].size);
+    expect(manifest.items[2].params.voiceId).toBe('other-voice');
+
+    const voices = server.mock.requests.map(request => [request.text, request.voice_id]);
+    expect(voices).toEqual(expect.arrayContaining([['会议结束。', 'other-voice'], ['第一项议程。', 'test-voice']]));
+  });
+
+  it('waits for a free session when the concurrency cap is below the batch concurrency', async () => {
+    const { ttsService } = await import('../../src/services/ttsService');
+    const maxConcurrentSessions = ttsService.getConfig().maxConcurrentSessions;
+    // BATCH_CONCURRENCY 默认为 3，其余条目创建会话时收到 429
+    ttsService.updateConfig({ maxConcurrentSessions: 1 });
+
+    try {
+      const res = await postJson(server.baseUrl, '/api/tts/batch', {
+        format: 'pcm',
+        items: [
+          { id: 'first', text: '第一项议程。' },
+          { id: 'second', text: '第二项议程。' },
+          { id: 'third', text: '第三项议程。' }
+        ]
+      });
+
+      expect(res.status).toBe(200);
+      const { manifest } = await readArchive(res);
+      expect(manifest).toMatchObject({ succeeded: 3, failed: 0 });
+      expect(server.mock.requests).toHaveLength(3);
+    } finally {
+      ttsService.updateConfig({ maxConcurrentSessions });
+    }
+  });
+
+  it('records per-item failures without failing the batch', async () => {
+    server.mock.setScript((request) => request.text.includes('失败')
+      ? [{ type: 'error', code: 4001, msg: 'invalid text' }]
+      : DEFAULT_SCRIPT);
+
+    const res = await postJson(server.baseUrl, '/api/tts/batch', {
+      items: [
+        { id: 'ok', text: '正常。' },
+        { id: 'bad', text: '会失败。' }
+      ]
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('x-tts-batch-failed')).toBe('1');
+    const { files, manifest } = await readArchive(res);
+    expect(files.map(file => file.name)).toEqual(['manifest.json', 'ok.wav']);
+    expect(manifest.items[1]).toMatchObject({
+      id: 'bad',
+      status: 'failed',
+      file: null,
+      error: { upstreamCode: 4001 }
+    });
+  });
+
+  it('validates the items', async () => {
+    const cases = [
+      { items: [] },
+      { items: [{ id: 'a', text: '一。' }, { id: 'a', text: '二。' }] },
+      { items: [{ id: '../escape', text: '一。' }] },
+      { items: [{ id: 'a', text: '' }] },
+      { items: [{ id: 'a', text: '一。', speed: 5 }] },
+      { items: [{ id: 'a', text: '一。' }], format: 'flac' }
+    ];
+
+    for (const body of cases) {
+      const res = await postJson(server.baseUrl, '/api/tts/batch', body);
+      expect(res.status).toBe(400);
+      expect((await readJson(res)).error).toBe('请求参数验证失败');
+    }
+    expect(server.mock.requests).toHaveLength(0);
+  });
+});
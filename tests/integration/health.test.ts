@@ -0,0 +1,82 @@
+import { readJson, startTestServer, TestServer } from '../helpers/testServer';
+
+describe('health routes', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('GET /health reports the service as healthy', async () => {
+    const res = await fetch(`${server.baseUrl}/health`);
+    const body = await readJson(res);
+
+    expect(res.status).toBe(200);
+    expect(body.status).toBe('healthy');
+    expect(body.service).toBe('streaming-tts-service');
+  });
+
+  it('GET /api/health is an alias of /health', async () => {
+    const res = await fetch(`${server.baseUrl}/api/health`);
+
+    expect(res.status).toBe(200);
+    expect((await readJson(res)).status).toBe('healthy');
+  });
+
+  it('GET /health/detailed reports service, memory and config details', async () => {
+    const res = await fetch(`${server.baseUrl}/health/detailed`);
+    const body = await readJson(res);
+
+    expect([200, 503]).toContain(res.status);
+    expect(body.services.coze).toBeDefined();
+    expect(body.services.memory.used).toBeGreaterThan(0);
+    expect(body.config.port).toBeDefined();
+  });
+
+  it('GET /health/readiness reports the configuration as ready', async () => {
+    const res = await fetch(`${server.baseUrl}/health/readiness`);
+    const body = await readJson(res);
+
+    expect(body.checks.config).toBe(true);
+  });
+
+  it('GET /health/readiness probes the upstream handshake', async () => {
+    const res = await fetch(`${server.baseUrl}/health/readiness`);
+    const body = await readJson(res);
+
+    expect(body.checks.coze).toBe(true);
+    expect(body.coze).toMatchObject({ provider: 'coze', status: 'connected', ready: true, consecutiveFailures: 0 });
+    expect(body.coze.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(body.coze.lastSuccess).toBeTruthy();
+    expect(server.mock.requests).toHaveLength(0);
+  });
+
+  it('GET /health/readiness fails only after consecutive failed probes', async () => {
+    server.mock.handshakeStatus = 401;
+
+    const first = await readJson(await fetch(`${server.baseUrl}/health/readiness`));
+    expect(first.checks.coze).toBe(true);
+    expect(first.coze).toMatchObject({ status: 'degraded', ready: true, consecutiveFailures: 1 });
+    expect(first.coze.lastError).toMatchObject({ code: 'auth' });
+
+    const second = await fetch(`${server.baseUrl}/health/readiness`);
+    const body = await readJson(second);
+    expect(second.status).toBe(503);
+    expect(body.coze).toMatchObject({ status: 'disconnected', ready: false, consecutiveFailures: 2 });
+
+    server.mock.reset();
+    const recovered = await readJson(await fetch(`${server.baseUrl}/health/readiness`));
+    expect(recovered.coze).toMatchObject({ status: 'connected', ready: true, consecutiveFailures: 0 });
+    expect(recovered.coze.lastError).toMatchObject({ code: 'auth' });
+  });
+
+  it('GET /health/liveness reports the process as alive', async () => {
+    const res = await fetch(`${server.baseUrl}/health/liveness`);
+
+    expect(res.status).toBe(200);
+  });
+});
@@ -0,0 +1,117 @@
+import { DEFAULT_SCRIPT } from '../mocks/mockCozeServer';
+import { postJson, readJson, startTestServer, TestServer } from '../helpers/testServer';
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('asynchronous synthesis jobs', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.mock.reset();
+  });
+
+  const getJob = async (jobId: string): Promise<any> => {
+    return (await readJson(await fetch(`${server.baseUrl}/api/tts/jobs/${jobId}`))).data;
+  };
+
+  // 轮询直到任务结束
+  const waitForJob = async (jobId: string): Promise<any> => {
+    for (let i = 0; i < 100; i++) {
+      const job = await getJob(jobId);
+      if (!['queued', 'running'].includes(job.state)) {
+        return job;
+      }
+      await sleep(20);
+    }
+    throw new Error(`job ${jobId} did not finish`);
+  };
+
+  it('returns a job ID immediately and serves the audio once done', async () => {
+    const res = await postJson(server.baseUrl, '/api/tts/jobs', { text: '第一句。第二句。第三句。' });
+    expect(res.status).toBe(202);
+    const { data } = await readJson(res);
+    expect(data.jobId).toMatch(/^job_/);
+    expect(['queued', 'running']).toContain(data.state);
+    expect(res.headers.get('location')).toBe(`/api/tts/jobs/${data.jobId}`);
+
+    const job = await waitForJob(data.jobId);
+    expect(job).toMatchObject({
+      state: 'completed',
+      progress: { segments: 3, completedSegments: 3 },
+      result: { format: 'wav', mimeType: 'audio/wav' },
+      error: null
+    });
+    expect(job.expiresAt).not.toBeNull();
+
+    const audio = await fetch(`${server.baseUrl}/api/tts/jobs/${data.jobId}/audio`);
+    expect(audio.status).toBe(200);
+    expect(audio.headers.get('content-type')).toBe('audio/wav');
+    const body = Buffer.from(await audio.arrayBuffer());
+    expect(body.subarray(0, 4).toString()).toBe('RIFF');
+    expect(body.length).toBe(job.result.size);
+  });
+
+  it('accepts text longer than the synchronous limit', async () => {
+    const res = await postJson(server.baseUrl, '/api/tts/jobs', { text: `${'长'.repeat(5000)}。` });
+    expect(res.status).toBe(202);
+    const sync = await postJson(server.baseUrl, '/api/tts/synthesize', { text: `${'长'.repeat(5000)}。` });
+    expect(sync.status).toBe(400);
+    await fetch(`${server.baseUrl}/api/tts/jobs/${(await readJson(res)).data.jobId}`, { method: 'DELETE' });
+  });
+
+  it('cancels a running job and rejects audio downloads before completion', async () => {
+    server.mock.setScript([{ type: 'hang' }]);
+    const { data } = await readJson(await postJson(server.baseUrl, '/api/tts/jobs', { text: '等待。' }));
+
+    const early = await fetch(`${server.baseUrl}/api/tts/jobs/${data.jobId}/audio`);
+    expect(early.status).toBe(409);
+
+    const cancelled = await fetch(`${server.baseUrl}/api/tts/jobs/${data.jobId}`, { method: 'DELETE' });
+    expect(cancelled.status).toBe(200);
+    expect((await readJson(cancelled)).data.state).toBe('cancelled');
+    expect((await getJob(data.jobId)).state).toBe('cancelled');
+
+    // 再次删除时移除任务
+    expect((await fetch(`${server.baseUrl}/api/tts/jobs/${data.jobId}`, { method: 'DELETE' })).status).toBe(200);
+    expect((await fetch(`${server.baseUrl}/api/tts/jobs/${data.jobId}`)).status).toBe(404);
+  });
+
+  it('records upstream failures on the job', async () => {
+    server.mock.setScript([{ type: 'error', code: 4000, msg: 'bad request' }]);
+    const { data } = await readJson(await postJson(server.baseUrl, '/api/tts/jobs', { text: '失败。' }));
+
+    const job = await waitForJob(data.jobId);
+    expect(job.state).toBe('failed');
+    expect(job.error).toMatchObject({ code: 'upstream_error', statusCode: 502 });
+    server.mock.setScript(DEFAULT_SCRIPT);
+  });
+
+  it('validates parameters and SSML on submission', async () => {
+    const format = await postJson(server.baseUrl, '/api/tts/jobs', { text: '你好。', format: 'flac' });
+    expect(format.status).toBe(400);
+
+    const ssml = await postJson(server.baseUrl, '/api/tts/jobs', { ssml: '<speak><break time="x"/></speak>' });
+    expect(ssml.status).toBe(400);
+    expect((await readJson(ssml)).details).toBeDefined();
+
+    const lexicon = await postJson(server.baseUrl, '/api/tts/jobs', { text: '你好。', lexicons: ['missing'] });
+    expect(lexicon.status).toBe(400);
+
+    // 未配置 WEBHOOK_SECRET 时不接受回调
+    const callback = await postJson(server.baseUrl, '/api/tts/jobs', { text: '你好。', callbackUrl: 'http://127.0.0.1:9/hook' });
+    expect(callback.status).toBe(400);
+  });
+
+  it('returns 404 for unknown jobs', async () => {
+    expect((await fetch(`${server.baseUrl}/api/tts/jobs/job_missing`)).status).toBe(404);
+    expect((await fetch(`${server.baseUrl}/api/tts/jobs/job_missing/audio`)).status).toBe(404);
+  });
+});
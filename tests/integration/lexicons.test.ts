@@ -0,0 +1,98 @@
+import fs from 'fs';
+import { parseEvents, postJson, readJson, startTestServer, TestServer } from '../helpers/testServer';
+
+// 发送 JSON 请求（PUT/DELETE 等）
+const sendJson = (baseUrl: string, method: string, path: string, body?: unknown): Promise<Response> => {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+};
+
+describe('Pronunciation lexicons', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+    await fs.promises.rm(process.env.LEXICON_FILE!, { force: true });
+  });
+
+  beforeEach(() => {
+    server.mock.reset();
+  });
+
+  it('creates, updates and deletes lexicons and their entries', async () => {
+    const created = await postJson(server.baseUrl, '/api/tts/lexicons', {
+      id: 'crud',
+      name: 'CRUD',
+      entries: [{ grapheme: 'SQL', replacement: 'sequel' }]
+    });
+    expect(created.status).toBe(201);
+    expect((await readJson(created)).data).toMatchObject({ id: 'crud', name: 'CRUD', entries: [{ grapheme: 'SQL', replacement: 'sequel' }] });
+
+    const duplicate = await postJson(server.baseUrl, '/api/tts/lexicons', { id: 'crud' });
+    expect(duplicate.status).toBe(409);
+
+    const upserted = await postJson(server.baseUrl, '/api/tts/lexicons/crud/entries', {
+      entries: [{ grapheme: '重庆', pinyin: 'chong2 qing4' }]
+    });
+    expect((await readJson(upserted)).data.entries).toHaveLength(2);
+
+    const updated = await sendJson(server.baseUrl, 'PUT', '/api/tts/lexicons/crud', { description: 'updated' });
+    expect((await readJson(updated)).data).toMatchObject({ name: 'CRUD', description: 'updated' });
+
+    const removed = await sendJson(server.baseUrl, 'DELETE', `/api/tts/lexicons/crud/entries/${encodeURIComponent('重庆')}`);
+    expect((await readJson(removed)).data.entries).toEqual([{ grapheme: 'SQL', replacement: 'sequel' }]);
+
+    const stored = JSON.parse(await fs.promises.readFile(process.env.LEXICON_FILE!, 'utf8'));
+    expect(stored.lexicons.find((lexicon: any) => lexicon.id === 'crud').entries).toHaveLength(1);
+
+    const list = await readJson(await fetch(`${server.baseUrl}/api/tts/lexicons`));
+    expect(list.data).toContainEqual(expect.objectContaining({ id: 'crud', entryCount: 1 }));
+
+    expect((await sendJson(server.baseUrl, 'DELETE', '/api/tts/lexicons/crud')).status).toBe(200);
+    expect((await fetch(`${server.baseUrl}/api/tts/lexicons/crud`)).status).toBe(404);
+  });
+
+  it('rejects entries with both a replacement and pinyin', async () => {
+    const res = await postJson(server.baseUrl, '/api/tts/lexicons', {
+      entries: [{ grapheme: '行', replacement: 'xing', pinyin: 'xing2' }]
+    });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('applies the referenced lexicons before normalization', async () => {
+    await postJson(server.baseUrl, '/api/tts/lexicons', {
+      id: 'synth',
+      entries: [{ grapheme: '重庆', pinyin: 'chong2 qing4' }, { grapheme: 'SQL', replacement: 'sequel 2' }]
+    });
+
+    const res = await postJson(server.baseUrl, '/api/tts/synthesize-stream', { text: '重庆的SQL。', lexicons: ['synth'] });
+    const events = parseEvents(await res.text());
+
+    expect(server.mock.requests[0].text).toBe('chóng qìng的sequel 二。');
+    expect(events.find(event => event.type === 'segmentComplete')?.text).toBe('重庆的SQL。');
+  });
+
+  it('previews lexicon substitutions on /api/tts/normalize', async () => {
+    await postJson(server.baseUrl, '/api/tts/lexicons', { id: 'preview', entries: [{ grapheme: 'GIF', replacement: 'jif' }] });
+
+    const res = await postJson(server.baseUrl, '/api/tts/normalize', { text: 'A GIF file', lexicons: ['preview'] });
+
+    expect((await readJson(res)).data.normalized).toBe('A jif file');
+  });
+
+  it('rejects unknown lexicon ids', async () => {
+    const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。', lexicons: ['missing'] });
+
+    expect(res.status).toBe(400);
+    expect((await readJson(res)).message).toContain('missing');
+    expect(server.mock.requests).toHaveLength(0);
+  });
+});
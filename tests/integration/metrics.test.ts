@@ -0,0 +1,60 @@
+import { postJson, startTestServer, TestServer } from '../helpers/testServer';
+
+// 读取指标文本中某个样本的值
+const getSample = (text: string, sample: string): number | undefined => {
+  const line = text.split('\n').find(row => row.startsWith(`${sample} `));
+  return line === undefined ? undefined : Number(line.slice(sample.length + 1));
+};
+
+describe('GET /metrics', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.mock.reset();
+  });
+
+  const scrape = async (): Promise<string> => {
+    const res = await fetch(`${server.baseUrl}/metrics`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toMatch(/^text\/plain;.*version=0\.0\.4/);
+    return res.text();
+  };
+
+  it('reports requests, latency, characters and audio seconds of a synthesis', async () => {
+    const before = await scrape();
+    const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。' });
+    expect(res.status).toBe(200);
+    const after = await scrape();
+
+    const requests = 'tts_http_requests_total{method="POST",route="/api/tts/synthesize",status="200"}';
+    expect(getSample(after, requests)).toBe((getSample(before, requests) ?? 0) + 1);
+    expect(getSample(after, 'tts_synthesized_characters_total{cache="bypass"}'))
+      .toBe((getSample(before, 'tts_synthesized_characters_total{cache="bypass"}') ?? 0) + 3);
+    expect(getSample(after, 'tts_audio_seconds_total{cache="bypass"}')).toBeGreaterThanOrEqual(0.3);
+    expect(getSample(after, 'tts_synthesis_first_chunk_seconds_count{cache="bypass"}')).toBeGreaterThanOrEqual(1);
+    expect(getSample(after, 'tts_synthesis_duration_seconds_count{cache="bypass"}')).toBeGreaterThanOrEqual(1);
+    expect(getSample(after, 'tts_sessions_total{outcome="completed"}')).toBeGreaterThanOrEqual(1);
+    expect(getSample(after, 'tts_active_sessions')).toBe(0);
+    expect(after).toContain('# TYPE tts_rate_limit_rejections_total counter');
+  });
+
+  it('labels routes by their template and counts upstream errors by type', async () => {
+    await fetch(`${server.baseUrl}/api/tts/lexicons/does-not-exist`);
+    server.mock.setScript([{ type: 'error', code: 4001, msg: 'bad voice' }]);
+    const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。' });
+    expect(res.status).toBe(502);
+
+    const text = await scrape();
+    expect(getSample(text, 'tts_http_requests_total{method="GET",route="/api/tts/lexicons/:id",status="404"}')).toBe(1);
+    expect(getSample(text, 'tts_upstream_errors_total{type="upstream_error",retried="false"}')).toBe(1);
+    expect(getSample(text, 'tts_sessions_total{outcome="failed"}')).toBe(1);
+  });
+});
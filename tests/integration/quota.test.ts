@@ -0,0 +1,130 @@
+import { postJson, readJson, startTestServer, TestServer } from '../helpers/testServer';
+
+describe('usage quotas', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    // 应用在 startTestServer 中才加载，此时读取配额配置
+    process.env.QUOTA_CHARACTERS_PER_MINUTE = '10';
+    server = await startTestServer();
+  });
+
+  afterAll(async () => {
+    delete process.env.QUOTA_CHARACTERS_PER_MINUTE;
+    await server.close();
+  });
+
+  it('meters characters per client and rejects requests over the limit', async () => {
+    for (let i = 0; i < 3; i++) {
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。' });
+      expect(res.status).toBe(200);
+      expect(res.headers.get('x-quota-characters-remaining-minute')).toBe(String(10 - 3 * (i + 1)));
+    }
+
+    const rejected = await postJson(server.baseUrl, '/api/tts/synthesize-stream', { text: '你好。' });
+    expect(rejected.status).toBe(429);
+    expect(Number(rejected.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(rejected.headers.get('x-quota-characters-remaining-minute')).toBe('1');
+    expect(await readJson(rejected)).toMatchObject({
+      success: false,
+      error: '超出用量配额',
+      metric: 'characters',
+      window: 'minute',
+      limit: 10
+    });
+
+    const usage = await readJson(await fetch(`${server.baseUrl}/api/tts/usage`));
+    expect(usage.data.limits.characters.minute).toBe(10);
+    const [client] = usage.data.clients;
+    expect(client.client).toBe(usage.data.client);
+    expect(client.usage.characters.minute).toBe(9);
+    expect(client.usage.audioSeconds.minute).toBeGreaterThan(0);
+    expect(client.totals.rejected).toBe(1);
+  });
+
+  it('rejects a request larger than the limit with 413', async () => {
+    const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '这是一段超过每分钟字符上限的文本。' });
+    expect(res.status).toBe(413);
+    expect(res.headers.get('retry-after')).toBeNull();
+  });
+
+  it('charges a batch for the characters of all items', async () => {
+    const res = await postJson(server.baseUrl, '/api/tts/batch', {
+      items: [{ id: 'a', text: '第一项议程。' }, { id: 'b', text: '第二项议程。' }]
+    });
+    expect(res.status).toBe(413);
+  });
+
+  it('refunds the characters of requests that are rejected or fail', async () => {
+    // 使用单独的客户端 IP，不受前面用例用量的影响
+    const headers = { 'X-Forwarded-For': '10.0.0.2' };
+    const { ttsService } = await import('../../src/services/ttsService');
+
+    const invalidSsml = await postJson(server.baseUrl, '/api/tts/synthesize', { ssml: '<speak>你好' }, headers);
+    expect(invalidSsml.status).toBe(400);
+
+    const unknownLexicon = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。', lexicons: ['missing'] }, headers);
+    expect(unknownLexicon.status).toBe(400);
+
+    const maxConcurrentSessions = ttsService.getConfig().maxConcurrentSessions;
+    ttsService.updateConfig({ maxConcurrentSessions: 0 });
+    try {
+      const busy = await postJson(server.baseUrl, '/api/tts/synthesize-stream', { text: '你好。' }, headers);
+      expect(busy.status).toBe(429);
+      expect(busy.headers.get('retry-after')).toBeNull();
+    } finally {
+      ttsService.updateConfig({ maxConcurrentSessions });
+    }
+
+    server.mock.setScript([{ type: 'error', code: 4000, msg: 'bad request' }]);
+    try {
+      const failed = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。' }, headers);
+      expect(failed.status).toBeGreaterThanOrEqual(400);
+    } finally {
+      server.mock.reset();
+    }
+
+    const usage = await readJson(await fetch(`${server.baseUrl}/api/tts/usage`, { headers }));
+    const client = usage.data.clients.find((item: any) => item.client === 'ip:10.0.0.2');
+    expect(client.usage.characters.minute).toBe(0);
+    expect(client.remaining.characters.minute).toBe(10);
+    expect(client.totals).toMatchObject({ characters: 0, rejected: 0 });
+  });
+
+  it('refunds the sentences a stopped session never spoke', async () => {
+    const getCharacters = async (headers: Record<string, string>): Promise<number> => {
+      const usage = await readJson(await fetch(`${server.baseUrl}/api/tts/usage`, { headers }));
+      return usage.data.clients.find((item: any) => item.client === `ip:${headers['X-Forwarded-For']}`).usage.characters.minute;
+    };
+
+    // 没有输出音频就停止：退还全部字符数
+    server.mock.setScript([{ type: 'hang' }]);
+    const silent = { 'X-Forwarded-For': '10.0.0.3' };
+    const unstarted = await postJson(server.baseUrl, '/api/tts/synthesize-stream', { text: '第一句。第二句。', sessionId: 'quota-silent' }, silent);
+    expect((await postJson(server.baseUrl, '/api/tts/sessions/quota-silent/stop', {})).status).toBe(200);
+    await unstarted.text();
+    expect(await getCharacters(silent)).toBe(0);
+
+    // 第一句输出中途停止：只计第一句
+    server.mock.setScript([{ type: 'audio', count: 3, intervalMs: 100 }, { type: 'completed' }]);
+    const partial = { 'X-Forwarded-For': '10.0.0.4' };
+    const res = await postJson(server.baseUrl, '/api/tts/synthesize-stream', { text: '第一句。第二句。', sessionId: 'quota-partial' }, partial);
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let body = '';
+    while (!body.includes('"type":"audioChunk"')) {
+      body += decoder.decode((await reader.read()).value, { stream: true });
+    }
+    expect((await postJson(server.baseUrl, '/api/tts/sessions/quota-partial/stop', {})).status).toBe(200);
+    while (!(await reader.read()).done) {
+      // 读完剩余的事件
+    }
+    server.mock.reset();
+    expect(await getCharacters(partial)).toBe('第一句。'.length);
+  });
+
+  it('does not charge requests that fail validation', async () => {
+    const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。', speed: 5 });
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,75 @@
+import { postJson, readJson, startTestServer, TestServer } from '../helpers/testServer';
+
+describe('raw audio streaming', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.mock.reset();
+  });
+
+  it('streams WAV bytes with chunked transfer encoding and no compression', async () => {
+    const res = await fetch(`${server.baseUrl}/api/tts/stream.wav?text=${encodeURIComponent('第一句。第二句。')}&speed=1.5`, {
+      headers: { 'Accept-Encoding': 'gzip, deflate, br' }
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('audio/wav');
+    expect(res.headers.get('transfer-encoding')).toBe('chunked');
+    expect(res.headers.get('content-length')).toBeNull();
+    expect(res.headers.get('content-encoding')).toBeNull();
+    expect(res.headers.get('cache-control')).toContain('no-transform');
+    expect(res.headers.get('x-tts-speed')).toBe('1.5');
+
+    const body = Buffer.from(await res.arrayBuffer());
+    expect(body.subarray(0, 4).toString()).toBe('RIFF');
+    // 流式 WAV 文件头的长度字段未知
+    expect(body.readUInt32LE(4)).toBe(0xffffffff);
+    // 2 句 × 3 块 × 2400 采样 × 2 字节
+    expect(body.length).toBe(44 + 2 * 3 * 2400 * 2);
+    expect(server.mock.requests.map(request => request.speed)).toEqual([1.5, 1.5]);
+  });
+
+  it('streams Ogg Opus and MP3 over POST', async () => {
+    const ogg = await postJson(server.baseUrl, '/api/tts/stream.ogg', { text: '你好。', format: 'wav' });
+    expect(ogg.status).toBe(200);
+    expect(ogg.headers.get('content-type')).toBe('audio/ogg; codecs=opus');
+    expect(Buffer.from(await ogg.arrayBuffer()).subarray(0, 4).toString()).toBe('OggS');
+
+    const mp3 = await postJson(server.baseUrl, '/api/tts/stream.mp3', { text: '你好。' });
+    expect(mp3.status).toBe(200);
+    expect(mp3.headers.get('content-type')).toBe('audio/mpeg');
+    const body = Buffer.from(await mp3.arrayBuffer());
+    // MPEG 帧同步字
+    expect(body[0]).toBe(0xff);
+    expect(body[1] & 0xe0).toBe(0xe0);
+  });
+
+  it('reports errors before the first audio byte as JSON', async () => {
+    server.mock.setScript([{ type: 'error', code: 4001, msg: 'invalid voice' }]);
+    const res = await fetch(`${server.baseUrl}/api/tts/stream.wav?text=${encodeURIComponent('你好。')}`);
+    expect(res.status).toBe(502);
+    expect(await readJson(res)).toMatchObject({ success: false, upstreamCode: 4001 });
+  });
+
+  it('aborts the response when synthesis fails after audio was sent', async () => {
+    server.mock.setScript([{ type: 'audio', count: 2 }, { type: 'delay', ms: 100 }, { type: 'error', code: 5000, msg: 'internal' }]);
+    const res = await fetch(`${server.baseUrl}/api/tts/stream.pcm?text=${encodeURIComponent('你好。')}`);
+    expect(res.status).toBe(200);
+    await expect(res.arrayBuffer()).rejects.toThrow();
+  });
+
+  it('validates the request and the extension', async () => {
+    expect((await fetch(`${server.baseUrl}/api/tts/stream.wav`)).status).toBe(400);
+    expect((await fetch(`${server.baseUrl}/api/tts/stream.wav?text=x&normalize=maybe`)).status).toBe(400);
+    expect((await fetch(`${server.baseUrl}/api/tts/stream.flac?text=x`)).status).toBe(404);
+    expect(server.mock.requests).toHaveLength(0);
+  });
+});
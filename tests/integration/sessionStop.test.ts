@@ -0,0 +1,134 @@
+import { MockStep } from '../mocks/mockCozeServer';
+import { parseEvents, postJson, readJson, startTestServer, TestServer } from '../helpers/testServer';
+
+// 每句的音频分三块、间隔发送，使停止请求能在句子中途到达
+const SLOW_SCRIPT: MockStep[] = [
+  { type: 'audio', count: 3, intervalMs: 100 },
+  { type: 'completed' }
+];
+
+// 逐段读取流式响应体
+const openReader = (res: Response) => {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let bytes = 0;
+
+  const read = async (until: () => boolean): Promise<void> => {
+    while (!until()) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return;
+      }
+      bytes += value.length;
+      text += decoder.decode(value, { stream: true });
+    }
+  };
+
+  return {
+    until: (marker: string) => read(() => text.includes(marker)),
+    untilBytes: (count: number) => read(() => bytes >= count),
+    rest: async () => {
+      await read(() => false);
+      return { text, bytes };
+    }
+  };
+};
+
+describe('per-session stop', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    process.env.API_KEYS = 'alice:alice-key:stream,bob:bob-key:stream,ops:ops-key:admin:stop';
+    server = await startTestServer();
+  });
+
+  afterAll(async () => {
+    delete process.env.API_KEYS;
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.mock.reset();
+    server.mock.setScript(SLOW_SCRIPT);
+  });
+
+  const bearer = (key: string) => ({ Authorization: `Bearer ${key}` });
+
+  const startStream = async (sessionId: string, text: string, key: string) => {
+    const res = await postJson(server.baseUrl, '/api/tts/synthesize-stream', { text, sessionId }, bearer(key));
+    expect(res.status).toBe(200);
+    return openReader(res);
+  };
+
+  const stop = (sessionId: string, key: string, body: unknown = {}) =>
+    postJson(server.baseUrl, `/api/tts/sessions/${sessionId}/stop`, body, bearer(key));
+
+  it('stops only the given session and reports the audio delivered before the cut', async () => {
+    const target = await startStream('utterance-1', '第一句。第二句。', 'alice-key');
+    const other = await startStream('utterance-2', '第一句。第二句。', 'bob-key');
+    await target.until('"type":"audioChunk"');
+
+    const res = await stop('utterance-1', 'alice-key');
+    expect(res.status).toBe(200);
+    const { data } = await readJson(res);
+    expect(data).toMatchObject({ sessionId: 'utterance-1', mode: 'immediate', state: 'stopped', completedSegments: 0 });
+    expect(data.deliveredMs).toBeGreaterThan(0);
+    expect(data.deliveredMs).toBeLessThan(200);
+
+    const stopped = parseEvents((await target.rest()).text);
+    expect(stopped[stopped.length - 1]).toMatchObject({ type: 'error', statusCode: 409 });
+
+    const completed = parseEvents((await other.rest()).text);
+    expect(completed[completed.length - 1]).toMatchObject({ type: 'complete', sessionId: 'utterance-2' });
+  });
+
+  it('finishes the current sentence in sentence mode', async () => {
+    const stream = await startStream('utterance-3', '第一句。第二句。第三句。', 'alice-key');
+    await stream.until('"type":"audioChunk"');
+
+    const res = await stop('utterance-3', 'alice-key', { mode: 'sentence' });
+    const { data } = await readJson(res);
+    expect(data).toMatchObject({ mode: 'sentence', state: 'stopped', completedSegments: 1, segmentCount: 3 });
+
+    const events = parseEvents((await stream.rest()).text);
+    const segments = events.filter(event => event.type === 'segmentComplete');
+    expect(segments.map(event => event.segmentIndex)).toEqual([0]);
+    expect(data.deliveredMs).toBe(segments[0].durationMs);
+    expect(events.filter(event => event.type === 'audioChunk')).toHaveLength(3);
+  });
+
+  it('only lets the owner or an admin:stop key stop a session', async () => {
+    const stream = await startStream('utterance-4', '第一句。第二句。', 'alice-key');
+    await stream.until('"type":"audioChunk"');
+
+    const denied = await stop('utterance-4', 'bob-key');
+    expect(denied.status).toBe(404);
+    expect(await readJson(denied)).toMatchObject({ success: false, error: '停止会话失败' });
+
+    const res = await stop('utterance-4', 'ops-key');
+    expect(res.status).toBe(200);
+    expect((await readJson(res)).data.state).toBe('stopped');
+    await stream.rest();
+  });
+
+  it('ends a raw stream normally with the audio sent so far', async () => {
+    const res = await fetch(`${server.baseUrl}/api/tts/stream.pcm?text=${encodeURIComponent('第一句。第二句。')}&sessionId=raw-1`, {
+      headers: bearer('alice-key')
+    });
+    const stream = openReader(res);
+    await stream.untilBytes(1);
+
+    const { data } = await readJson(await stop('raw-1', 'alice-key'));
+    const { bytes } = await stream.rest();
+    expect(bytes).toBe(data.audioBytes);
+  });
+
+  it('validates the mode and the session', async () => {
+    expect((await stop('missing', 'alice-key')).status).toBe(404);
+
+    const res = await stop('missing', 'alice-key', { mode: 'later' });
+    expect(res.status).toBe(400);
+    expect((await readJson(res)).error).toBe('请求参数验证失败');
+  });
+});
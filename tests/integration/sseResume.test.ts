@@ -0,0 +1,132 @@
+import { MockStep } from '../mocks/mockCozeServer';
+import { parseFrames, postJson, readJson, startTestServer, TestServer } from '../helpers/testServer';
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// 每句先发送一个音频块，停顿后再发送两个（停顿短于测试环境的 WS_IDLE_TIMEOUT）
+const SLOW_SCRIPT: MockStep[] = [
+  { type: 'audio', count: 1 },
+  { type: 'delay', ms: 200 },
+  { type: 'audio', count: 2 },
+  { type: 'completed' }
+];
+
+// 读取响应体直到出现 marker，然后断开连接
+const readUntil = async (res: Response, marker: string, abort: AbortController): Promise<string> => {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let body = '';
+  while (!body.includes(marker)) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    body += decoder.decode(value, { stream: true });
+  }
+  abort.abort();
+  return body;
+};
+
+describe('resumable SSE streams', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    process.env.SSE_HEARTBEAT_INTERVAL = '50';
+    process.env.SSE_RESUME_GRACE_MS = '1000';
+    server = await startTestServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+    delete process.env.SSE_HEARTBEAT_INTERVAL;
+    delete process.env.SSE_RESUME_GRACE_MS;
+  });
+
+  beforeEach(() => {
+    server.mock.reset();
+  });
+
+  it('numbers every event and sends heartbeats', async () => {
+    server.mock.setScript(SLOW_SCRIPT);
+    const res = await postJson(server.baseUrl, '/api/tts/synthesize-stream', { text: '你好。', sessionId: 'numbered' });
+    expect(res.headers.get('x-tts-session-id')).toBe('numbered');
+
+    const body = await res.text();
+    expect(body.startsWith('retry: 2000\n\n')).toBe(true);
+    expect(body).toContain(': heartbeat\n\n');
+
+    const frames = parseFrames(body);
+    expect(frames.map(frame => frame.id)).toEqual(frames.map((_, index) => `numbered:${index + 1}`));
+    expect(frames[frames.length - 1].event.type).toBe('complete');
+  });
+
+  it('resumes a dropped stream from Last-Event-ID without synthesizing again', async () => {
+    server.mock.setScript(SLOW_SCRIPT);
+    const abort = new AbortController();
+    const first = await fetch(`${server.baseUrl}/api/tts/synthesize-stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: '第一句。第二句。', sessionId: 'dropped' }),
+      signal: abort.signal
+    });
+    const before = parseFrames(await readUntil(first, '"type":"audioChunk"', abort));
+    const lastEventId = before[before.length - 1].id!;
+
+    // 断开期间会话继续合成
+    await sleep(400);
+
+    const resumed = await postJson(server.baseUrl, '/api/tts/synthesize-stream', { text: '' }, { 'Last-Event-ID': lastEventId });
+    expect(resumed.status).toBe(200);
+    expect(resumed.headers.get('content-type')).toContain('text/event-stream');
+
+    const after = parseFrames(await resumed.text());
+    expect(after[0]).toEqual({ id: null, event: { type: 'resumed', sessionId: 'dropped', lastEventId } });
+
+    const frames = [...before, ...after.slice(1)];
+    expect(frames.map(frame => frame.id)).toEqual(frames.map((_, index) => `dropped:${index + 1}`));
+    expect(frames.filter(frame => frame.event.type === 'audioChunk')).toHaveLength(6);
+    expect(frames[frames.length - 1].event).toMatchObject({ type: 'complete', sessionId: 'dropped' });
+    expect(server.mock.requests).toHaveLength(2);
+
+    // 已收到全部事件后重连返回 204
+    const done = await postJson(server.baseUrl, '/api/tts/synthesize-stream', { text: '' }, { 'Last-Event-ID': frames[frames.length - 1].id! });
+    expect(done.status).toBe(204);
+  });
+
+  it('reattaches by session ID for EventSource clients', async () => {
+    const res = await postJson(server.baseUrl, '/api/tts/synthesize-stream', { text: '你好。', sessionId: 'reattach' });
+    const original = parseFrames(await res.text());
+
+    const replay = await fetch(`${server.baseUrl}/api/tts/synthesize-stream/reattach?lastEventId=reattach:2`);
+    expect(replay.status).toBe(200);
+    const replayed = parseFrames(await replay.text());
+    expect(replayed.slice(1)).toEqual(original.slice(2));
+
+    expect((await fetch(`${server.baseUrl}/api/tts/synthesize-stream/unknown`)).status).toBe(404);
+    const mismatched = await fetch(`${server.baseUrl}/api/tts/synthesize-stream/reattach`, {
+      headers: { 'Last-Event-ID': 'other:1' }
+    });
+    expect(mismatched.status).toBe(400);
+  });
+
+  it('stops the session when the client does not come back within the grace window', async () => {
+    server.mock.setScript([{ type: 'audio', count: 30, intervalMs: 100 }, { type: 'completed' }]);
+    const abort = new AbortController();
+    const res = await fetch(`${server.baseUrl}/api/tts/synthesize-stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: '你好。', sessionId: 'abandoned' }),
+      signal: abort.signal
+    });
+    await readUntil(res, '"type":"audioChunk"', abort);
+
+    await sleep(300);
+    let status = await readJson(await fetch(`${server.baseUrl}/api/tts/status`));
+    expect(status.data.activeSessionCount).toBe(1);
+
+    await sleep(1000);
+    status = await readJson(await fetch(`${server.baseUrl}/api/tts/status`));
+    expect(status.data.activeSessionCount).toBe(0);
+    expect((await fetch(`${server.baseUrl}/api/tts/synthesize-stream/abandoned`)).status).toBe(404);
+  });
+});
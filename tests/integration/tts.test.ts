@@ -0,0 +1,377 @@
+import { DEFAULT_SCRIPT } from '../mocks/mockCozeServer';
+import { parseEvents, postJson, readJson, startTestServer, StreamEvent, TestServer } from '../helpers/testServer';
+
+// 默认脚本输出 3 个 100ms 的音频块（24kHz 单声道 16 位）
+const DEFAULT_PCM_BYTES = 3 * 2400 * 2;
+const WAV_HEADER_BYTES = 44;
+
+// 将 16 位 PCM 压缩为连续相同采样值的序列，用于校验片段顺序
+const getSampleRuns = (pcm: Buffer): number[] => {
+  const runs: number[] = [];
+  for (let i = 0; i + 1 < pcm.length; i += 2) {
+    const value = pcm.readInt16LE(i);
+    if (runs[runs.length - 1] !== value) {
+      runs.push(value);
+    }
+  }
+  return runs;
+};
+
+describe('TTS API against a mock Coze server', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.mock.reset();
+  });
+
+  describe('POST /api/tts/synthesize', () => {
+    it('returns the synthesized audio as WAV', async () => {
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好，世界。' });
+      const audio = Buffer.from(await res.arrayBuffer());
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toBe('audio/wav');
+      expect(res.headers.get('x-tts-session-id')).toBeTruthy();
+      expect(audio.subarray(0, 4).toString()).toBe('RIFF');
+      expect(audio.length).toBe(WAV_HEADER_BYTES + DEFAULT_PCM_BYTES);
+    });
+
+    it('sends the text, voice and token upstream', async () => {
+      await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。', voiceId: 'voice-a', speed: 1.5 });
+
+      expect(server.mock.requests).toHaveLength(1);
+      expect(server.mock.requests[0]).toMatchObject({
+        text: '你好。',
+        voice_id: 'voice-a',
+        speed: 1.5,
+        token: 'test-token'
+      });
+    });
+
+    it('returns raw PCM when requested', async () => {
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。', format: 'pcm' });
+      const audio = Buffer.from(await res.arrayBuffer());
+
+      expect(res.status).toBe(200);
+      expect(audio.length).toBe(DEFAULT_PCM_BYTES);
+    });
+
+    it('delivers sentences in order even when a later one finishes first', async () => {
+      const values: Record<string, number> = { '一。': 100, '二。': 200, '三。': 300 };
+      server.mock.setScript((request) => [
+        { type: 'delay', ms: request.text === '一。' ? 150 : 0 },
+        { type: 'audio', count: 2, value: values[request.text] },
+        { type: 'completed' }
+      ]);
+
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '一。二。三。', format: 'pcm' });
+
+      expect(res.status).toBe(200);
+      expect(getSampleRuns(Buffer.from(await res.arrayBuffer()))).toEqual([100, 200, 300]);
+    });
+
+    it('ignores unknown upstream events', async () => {
+      server.mock.setScript([{ type: 'event', event: { event_type: 'speech.mystery' } }, ...DEFAULT_SCRIPT]);
+
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。' });
+
+      expect(res.status).toBe(200);
+    });
+
+    it('retries a sentence whose connection drops before any audio', async () => {
+      server.mock.setScript((_request, attempt) => attempt === 1 ? [{ type: 'terminate' }] : DEFAULT_SCRIPT);
+
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。' });
+
+      expect(res.status).toBe(200);
+      expect(server.mock.requests).toHaveLength(2);
+    });
+
+    it('rejects empty text', async () => {
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '' });
+
+      expect(res.status).toBe(400);
+      expect(server.mock.requests).toHaveLength(0);
+    });
+
+    it('maps an upstream error event to 502 with the upstream code', async () => {
+      server.mock.setScript([{ type: 'error', code: 4008, msg: 'quota exceeded' }]);
+
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。' });
+      const body = await readJson(res);
+
+      expect(res.status).toBe(502);
+      expect(body).toMatchObject({ code: 'upstream_error', upstreamCode: 4008 });
+      expect(body.message).toContain('quota exceeded');
+    });
+
+    it('fails without retrying when the upstream closes after sending audio', async () => {
+      server.mock.setScript([{ type: 'audio', count: 1 }, { type: 'close', code: 4001, reason: 'bye' }]);
+
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。' });
+      const body = await readJson(res);
+
+      expect(res.status).toBe(502);
+      expect(body).toMatchObject({ code: 'upstream_closed', upstreamCode: 4001 });
+      expect(server.mock.requests).toHaveLength(1);
+    });
+
+    it('maps a malformed upstream frame to a protocol error', async () => {
+      server.mock.setScript([{ type: 'raw', data: '{not json' }]);
+
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。' });
+
+      expect(res.status).toBe(502);
+      expect((await readJson(res)).code).toBe('protocol');
+    });
+
+    it('treats binary frames as audio even when they start with a brace', async () => {
+      const pcm = Buffer.alloc(4800, 0x10);
+      pcm[0] = 0x7b; // '{'
+      server.mock.setScript([{ type: 'raw', data: pcm }, { type: 'completed' }]);
+
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。', format: 'pcm' });
+
+      expect(res.status).toBe(200);
+      expect(Buffer.from(await res.arrayBuffer()).equals(pcm)).toBe(true);
+    });
+
+    it('times out and retries when the upstream never answers', async () => {
+      server.mock.setScript([{ type: 'hang' }]);
+
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。' });
+
+      expect(res.status).toBe(504);
+      expect((await readJson(res)).code).toBe('timeout');
+      expect(server.mock.requests).toHaveLength(3);
+    });
+
+    it('reports a rejected handshake as an auth error', async () => {
+      server.mock.handshakeStatus = 401;
+
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。' });
+
+      expect(res.status).toBe(502);
+      expect((await readJson(res)).code).toBe('auth');
+    });
+  });
+
+  describe('POST /api/tts/synthesize-stream', () => {
+    it('streams format, audio, sentence and completion events', async () => {
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize-stream', { text: '第一句。第二句。' });
+      const events = parseEvents(await res.text());
+      const types = events.map(event => event.type);
+
+      expect(res.headers.get('content-type')).toContain('text/event-stream');
+      expect(types[0]).toBe('connected');
+      expect(types[1]).toBe('audioFormat');
+      expect(types[types.length - 1]).toBe('complete');
+      expect(events.filter(event => event.type === 'segmentComplete').map(event => event.text))
+        .toEqual(['第一句。', '第二句。']);
+
+      const chunks = events.filter(event => event.type === 'audioChunk');
+      const total = chunks.reduce((sum, event) => sum + Buffer.from(event.data, 'base64').length, 0);
+      expect(total).toBe(events[events.length - 1].totalSize);
+    });
+
+    it('ends the stream with an error event when the upstream fails', async () => {
+      server.mock.setScript([{ type: 'error', code: 4000, msg: 'bad request' }]);
+
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize-stream', { text: '你好。' });
+      const events = parseEvents(await res.text());
+
+      expect(events[events.length - 1]).toMatchObject({ type: 'error', code: 'upstream_error', upstreamCode: 4000 });
+    });
+  });
+
+  describe('SSML input', () => {
+    it('renders <break> as generated silence between sentences', async () => {
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', {
+        ssml: '<speak>一。<break time="500ms"/>二。</speak>',
+        format: 'pcm'
+      });
+      const audio = Buffer.from(await res.arrayBuffer());
+
+      expect(res.status).toBe(200);
+      expect(audio.length).toBe(2 * DEFAULT_PCM_BYTES + 12000 * 2);
+      expect(getSampleRuns(audio)).toEqual([1000, 0, 1000]);
+      expect(server.mock.requests.map(request => request.text)).toEqual(['一。', '二。']);
+    });
+
+    it('sends per-span speed and voice upstream', async () => {
+      await postJson(server.baseUrl, '/api/tts/synthesize', {
+        ssml: '<speak>正常。<prosody rate="fast">快。</prosody><voice name="voice-b">换人。</voice></speak>',
+        speed: 1.2
+      });
+
+      const requests = [...server.mock.requests].sort((a, b) => a.text.localeCompare(b.text));
+      expect(requests.map(({ text, speed, voice_id }) => ({ text, speed, voice_id }))).toEqual(
+        [
+          { text: '正常。', speed: 1.2, voice_id: 'test-voice' },
+          { text: '快。', speed: 1.5, voice_id: 'test-voice' },
+          { text: '换人。', speed: 1.2, voice_id: 'voice-b' }
+        ].sort((a, b) => a.text.localeCompare(b.text))
+      );
+    });
+
+    it('expands say-as and sub before sending text upstream', async () => {
+      await postJson(server.baseUrl, '/api/tts/synthesize', {
+        ssml: '<speak>会议在<say-as interpret-as="date" format="md">3-15</say-as>，<sub alias="世界卫生组织">WHO</sub>出席。</speak>'
+      });
+
+      expect(server.mock.requests[0].text).toBe('会议在三月十五日，世界卫生组织出席。');
+    });
+
+    it('streams silence segments over SSE', async () => {
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize-stream', {
+        ssml: '<speak>你好。<break time="1s"/></speak>'
+      });
+      const events = parseEvents(await res.text());
+      const segments = events.filter(event => event.type === 'segmentComplete');
+
+      expect(segments.map(event => event.text)).toEqual(['你好。', '']);
+      expect(segments[1].durationMs).toBe(1000);
+    });
+
+    it('rejects invalid markup with the issues and their positions', async () => {
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', {
+        ssml: '<speak><prosody rate="warp">快</prosody><audio/></speak>'
+      });
+      const body = await readJson(res);
+
+      expect(res.status).toBe(400);
+      expect(body.details).toEqual([
+        { message: '无效的语速 rate="warp"', line: 1, column: 8, element: 'prosody' },
+        { message: '不支持的元素 <audio>', line: 1, column: 40, element: 'audio' }
+      ]);
+      expect(server.mock.requests).toHaveLength(0);
+    });
+
+    it('rejects requests with both text and ssml', async () => {
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', {
+        text: '你好',
+        ssml: '<speak>你好</speak>'
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('text normalization', () => {
+    it('sends normalized text upstream and reports the original text', async () => {
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize-stream', { text: '增长3.5%。' });
+      const events = parseEvents(await res.text());
+
+      expect(server.mock.requests[0].text).toBe('增长百分之三点五。');
+      expect(events.find(event => event.type === 'segmentComplete')?.text).toBe('增长3.5%。');
+    });
+
+    it('sends the raw text when normalization is turned off', async () => {
+      await postJson(server.baseUrl, '/api/tts/synthesize', { text: '增长3.5%。', normalize: false });
+
+      expect(server.mock.requests[0].text).toBe('增长3.5%。');
+    });
+
+    it('skips the upstream for sentences that normalize to nothing', async () => {
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。😀', format: 'pcm' });
+
+      expect(res.status).toBe(200);
+      expect(Buffer.from(await res.arrayBuffer()).length).toBe(DEFAULT_PCM_BYTES);
+      expect(server.mock.requests.map(request => request.text)).toEqual(['你好。']);
+    });
+
+    it('rejects an unknown locale', async () => {
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text: '你好。', locale: 'fr' });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/tts/normalize', () => {
+    it('returns the normalized text without synthesizing', async () => {
+      const res = await postJson(server.baseUrl, '/api/tts/normalize', { text: 'Meet at 9:05, $5.' });
+      const body = await readJson(res);
+
+      expect(res.status).toBe(200);
+      expect(body.data).toEqual({
+        text: 'Meet at 9:05, $5.',
+        normalized: 'Meet at nine oh five, five dollars.',
+        locale: 'en',
+        segments: [{ text: 'Meet at 9:05, $5.', normalized: 'Meet at nine oh five, five dollars.' }]
+      });
+      expect(server.mock.requests).toHaveLength(0);
+    });
+
+    it.each([
+      ['请访问 https://a.com/x?y=1&z=2 查看！', ['请访问 查看！']],
+      ['会议现在开始。Revenue grew 3.5%.', ['会议现在开始。', 'Revenue grew 百分之三点五.']]
+    ])('returns the text each sentence sends upstream: %s', async (text, expected) => {
+      const preview = await readJson(await postJson(server.baseUrl, '/api/tts/normalize', { text }));
+      expect(preview.data.segments.map((segment: { normalized: string }) => segment.normalized)).toEqual(expected);
+      expect(preview.data.normalized).toBe(expected.join(''));
+
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize', { text, format: 'pcm' });
+      expect(res.status).toBe(200);
+      expect(server.mock.requests.map(request => request.text)).toEqual(expected);
+    });
+
+    it('uses the requested locale', async () => {
+      const res = await postJson(server.baseUrl, '/api/tts/normalize', { text: '5km', locale: 'zh' });
+
+      expect((await readJson(res)).data).toMatchObject({ normalized: '五千米', locale: 'zh' });
+    });
+  });
+
+  describe('POST /api/tts/stop', () => {
+    it('stops a streaming session by sessionId', async () => {
+      server.mock.setScript([{ type: 'audio', count: 100, intervalMs: 20 }, { type: 'completed' }]);
+
+      const res = await postJson(server.baseUrl, '/api/tts/synthesize-stream', { text: '你好。', sessionId: 'stop-me' });
+      const reader = res.body!.getReader();
+      const decoder = new TextDecoder();
+      let body = '';
+
+      // 收到第一个音频块后停止会话
+      while (!body.includes('"audioChunk"')) {
+        const { value, done } = await reader.read();
+        if (done) {
+          break;
+        }
+        body += decoder.decode(value, { stream: true });
+      }
+
+      const stopRes = await postJson(server.baseUrl, '/api/tts/stop', { sessionId: 'stop-me' });
+      expect((await readJson(stopRes)).stopped).toBe(1);
+
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) {
+          break;
+        }
+        body += decoder.decode(value, { stream: true });
+      }
+
+      const events: StreamEvent[] = parseEvents(body);
+      expect(events[events.length - 1]).toMatchObject({ type: 'error', statusCode: 409 });
+      expect(events.some(event => event.type === 'complete')).toBe(false);
+
+      const status = await readJson(await fetch(`${server.baseUrl}/api/tts/status`));
+      expect(status.data.activeSessionCount).toBe(0);
+    });
+
+    it('reports zero stopped sessions when nothing is running', async () => {
+      const res = await postJson(server.baseUrl, '/api/tts/stop', {});
+
+      expect(res.status).toBe(200);
+      expect((await readJson(res)).stopped).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { DeadLetter, verifyWebhook } from '../../src/jobs/WebhookNotifier';
+import { postJson, readJson, startTestServer, TestServer } from '../helpers/testServer';
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('job webhooks', () => {
+  const secret = 'webhook-secret';
+  const deadLetterFile = path.join(os.tmpdir(), `tts-webhooks-${process.pid}-${Date.now()}.jsonl`);
+  let server: TestServer;
+  let receiver: http.Server;
+  let receiverUrl: string;
+  let received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+  let status = 200;
+
+  beforeAll(async () => {
+    process.env.WEBHOOK_SECRET = secret;
+    process.env.WEBHOOK_MAX_ATTEMPTS = '2';
+    process.env.WEBHOOK_RETRY_DELAY = '10';
+    process.env.WEBHOOK_DEAD_LETTER_FILE = deadLetterFile;
+
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = status;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', () => resolve()));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+
+    server = await startTestServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+    await new Promise<void>(resolve => receiver.close(() => resolve()));
+    fs.rmSync(deadLetterFile, { force: true });
+    delete process.env.WEBHOOK_SECRET;
+    delete process.env.WEBHOOK_MAX_ATTEMPTS;
+    delete process.env.WEBHOOK_RETRY_DELAY;
+    delete process.env.WEBHOOK_DEAD_LETTER_FILE;
+  });
+
+  beforeEach(() => {
+    server.mock.reset();
+    received = [];
+    status = 200;
+  });
+
+  // 等待接收方收到 count 次投递
+  const waitForDeliveries = async (count: number): Promise<void> => {
+    for (let i = 0; i < 100 && received.length < count; i++) {
+      await sleep(20);
+    }
+    expect(received).toHaveLength(count);
+  };
+
+  it('posts a signed notification with a download URL when the job completes', async () => {
+    const res = await postJson(server.baseUrl, '/api/tts/jobs', { text: '回调测试。', callbackUrl: receiverUrl });
+    expect(res.status).toBe(202);
+    const { data } = await readJson(res);
+    expect(data.callback).toEqual({ url: receiverUrl, audio: 'url' });
+
+    await waitForDeliveries(1);
+    const [{ headers, body }] = received;
+    expect(verifyWebhook(secret, Number(headers['x-tts-timestamp']), body, headers['x-tts-signature'] as string)).toBe(true);
+
+    const payload = JSON.parse(body);
+    expect(payload).toMatchObject({
+      event: 'job.completed',
+      job: { jobId: data.jobId, state: 'completed' },
+      audio: { format: 'wav', mimeType: 'audio/wav', url: `${server.baseUrl}/api/tts/jobs/${data.jobId}/audio`, data: null }
+    });
+
+    const audio = await fetch(payload.audio.url);
+    expect(audio.status).toBe(200);
+    expect(Buffer.from(await audio.arrayBuffer()).length).toBe(payload.audio.size);
+  });
+
+  it('inlines the audio when requested', async () => {
+    const { data } = await readJson(await postJson(server.baseUrl, '/api/tts/jobs', {
+      text: '内嵌音频。',
+      callbackUrl: receiverUrl,
+      callbackAudio: 'inline'
+    }));
+
+    await waitForDeliveries(1);
+    const { audio } = JSON.parse(received[0].body);
+    const wav = Buffer.from(audio.data, 'base64');
+    expect(wav.subarray(0, 4).toString()).toBe('RIFF');
+    expect(wav.length).toBe(audio.size);
+    expect(audio.url).toBeNull();
+    expect(data.callback.audio).toBe('inline');
+  });
+
+  it('notifies failed and cancelled jobs', async () => {
+    server.mock.setScript([{ type: 'error', code: 4001, msg: 'invalid voice' }]);
+    await postJson(server.baseUrl, '/api/tts/jobs', { text: '失败。', callbackUrl: receiverUrl });
+    await waitForDeliveries(1);
+    expect(JSON.parse(received[0].body)).toMatchObject({ event: 'job.failed', job: { state: 'failed' }, audio: null });
+
+    server.mock.setScript([{ type: 'hang' }]);
+    const { data } = await readJson(await postJson(server.baseUrl, '/api/tts/jobs', { text: '取消。', callbackUrl: receiverUrl }));
+    await fetch(`${server.baseUrl}/api/tts/jobs/${data.jobId}`, { method: 'DELETE' });
+    await waitForDeliveries(2);
+    expect(JSON.parse(received[1].body)).toMatchObject({ event: 'job.cancelled', job: { jobId: data.jobId } });
+  });
+
+  it('dead-letters deliveries the receiver keeps rejecting', async () => {
+    status = 503;
+    // 与测试服务器共用同一个模块实例
+    const { webhookNotifier } = await import('../../src/services/ttsService');
+    const deadLettered = new Promise<DeadLetter>(resolve => webhookNotifier.once('deadLettered', resolve));
+    const { data } = await readJson(await postJson(server.baseUrl, '/api/tts/jobs', { text: '死信。', callbackUrl: receiverUrl }));
+
+    await waitForDeliveries(2);
+    expect(await deadLettered).toMatchObject({ jobId: data.jobId, attempts: 2 });
+    const records = fs.readFileSync(deadLetterFile, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(records[records.length - 1]).toMatchObject({ jobId: data.jobId, attempts: 2, lastError: '接收方返回 HTTP 503' });
+  });
+
+  it('rejects invalid callback options', async () => {
+    const res = await postJson(server.baseUrl, '/api/tts/jobs', { text: '无效。', callbackUrl: 'ftp://example.com/hook', callbackAudio: 'stream' });
+    expect(res.status).toBe(400);
+    const fields = (await readJson(res)).details.map((detail: { path: string }) => detail.path);
+    expect(fields).toEqual(expect.arrayContaining(['callbackUrl', 'callbackAudio']));
+  });
+});
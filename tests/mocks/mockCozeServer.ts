@@ -0,0 +1,176 @@
+// 本地 Coze TTS WebSocket 模拟服务 - 按脚本返回音频块、延迟、错误事件、异常关闭和畸形消息
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+
+// 脚本步骤
+export type MockStep =
+  // 发送 count 个音频块，每块 samples 个采样，采样值均为 value（便于校验输出顺序）
+  | { type: 'audio'; count?: number; samples?: number; value?: number; intervalMs?: number }
+  | { type: 'completed' }
+  | { type: 'error'; code: number | string; msg: string }
+  // 服务端正常关闭连接（带关闭码）
+  | { type: 'close'; code?: number; reason?: string }
+  // 直接断开底层连接
+  | { type: 'terminate' }
+  // 原样发送一帧（如畸形JSON）
+  | { type: 'raw'; data: string | Buffer }
+  // 发送任意事件
+  | { type: 'event'; event: Record<string, unknown> }
+  | { type: 'delay'; ms: number }
+  // 不再发送任何消息
+  | { type: 'hang' };
+
+// 模拟服务收到的合成请求
+export interface MockRequest {
+  text: string;
+  voice_id: string;
+  sample_rate: number;
+  channels: number;
+  speed: number;
+  format: string;
+  token: string | null;
+}
+
+// 脚本：固定步骤，或根据请求和该文本的第几次请求（从 1 开始）生成步骤
+export type MockScript = MockStep[] | ((request: MockRequest, attempt: number) => MockStep[]);
+
+export const DEFAULT_SCRIPT: MockStep[] = [
+  { type: 'audio', count: 3 },
+  { type: 'completed' }
+];
+
+// 默认每个音频块 100ms（24kHz 单声道）
+const DEFAULT_CHUNK_SAMPLES = 2400;
+const DEFAULT_SAMPLE_VALUE = 1000;
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+export class MockCozeServer {
+  readonly requests: MockRequest[] = [];
+  // 非空时以该 HTTP 状态码拒绝握手
+  handshakeStatus: number | null = null;
+  private script: MockScript = DEFAULT_SCRIPT;
+  private readonly wss: WebSocketServer;
+  private readonly attempts: Map<string, number> = new Map();
+
+  private constructor(wss: WebSocketServer) {
+    this.wss = wss;
+    this.wss.on('connection', (ws, req) => {
+      const token = new URL(req.url || '/', 'http://localhost').searchParams.get('token');
+      ws.on('message', (data: Buffer) => {
+        const request: MockRequest = { ...JSON.parse(data.toString()), token };
+        this.requests.push(request);
+        const attempt = (this.attempts.get(request.text) || 0) + 1;
+        this.attempts.set(request.text, attempt);
+
+        const steps = typeof this.script === 'function' ? this.script(request, attempt) : this.script;
+        this.run(ws, request, steps).catch(() => ws.terminate());
+      });
+    });
+  }
+
+  // 在随机端口启动
+  static start(): Promise<MockCozeServer> {
+    return new Promise((resolve) => {
+      let server: MockCozeServer;
+      const wss = new WebSocketServer({
+        host: '127.0.0.1',
+        port: 0,
+        verifyClient: (_info, callback) => {
+          if (server.handshakeStatus) {
+            callback(false, server.handshakeStatus);
+          } else {
+            callback(true);
+          }
+        }
+      }, () => resolve(server));
+      server = new MockCozeServer(wss);
+    });
+  }
+
+  get url(): string {
+    const { port } = this.wss.address() as AddressInfo;
+    return `ws://127.0.0.1:${port}`;
+  }
+
+  setScript(script: MockScript): void {
+    this.script = script;
+  }
+
+  // 恢复默认脚本并清空请求记录
+  reset(): void {
+    this.script = DEFAULT_SCRIPT;
+    this.handshakeStatus = null;
+    this.requests.length = 0;
+    this.attempts.clear();
+  }
+
+  close(): Promise<void> {
+    for (const client of this.wss.clients) {
+      client.terminate();
+    }
+    return new Promise(resolve => this.wss.close(() => resolve()));
+  }
+
+  private async run(ws: WebSocket, request: MockRequest, steps: MockStep[]): Promise<void> {
+    for (const step of steps) {
+      if (ws.readyState !== WebSocket.OPEN) {
+        return;
+      }
+
+      switch (step.type) {
+        case 'audio':
+          for (let i = 0; i < (step.count ?? 1); i++) {
+            if (i > 0 && step.intervalMs) {
+              await sleep(step.intervalMs);
+            }
+            if (ws.readyState !== WebSocket.OPEN) {
+              return;
+            }
+            ws.send(JSON.stringify({
+              event_type: 'speech.audio.update',
+              data: {
+                delta: createPcm(request, step.samples ?? DEFAULT_CHUNK_SAMPLES, step.value ?? DEFAULT_SAMPLE_VALUE)
+                  .toString('base64'),
+                pcm_config: { sample_rate: request.sample_rate, channels: request.channels }
+              }
+            }));
+          }
+          break;
+        case 'completed':
+          ws.send(JSON.stringify({ event_type: 'speech.completed', data: {} }));
+          break;
+        case 'error':
+          ws.send(JSON.stringify({ event_type: 'error', data: { code: step.code, msg: step.msg } }));
+          break;
+        case 'close':
+          ws.close(step.code ?? 1000, step.reason);
+          return;
+        case 'terminate':
+          ws.terminate();
+          return;
+        case 'raw':
+          ws.send(step.data);
+          break;
+        case 'event':
+          ws.send(JSON.stringify(step.event));
+          break;
+        case 'delay':
+          await sleep(step.ms);
+          break;
+        case 'hang':
+          return;
+      }
+    }
+  }
+}
+
+// 生成所有采样值相同的 16 位 PCM
+const createPcm = (request: MockRequest, samples: number, value: number): Buffer => {
+  const channels = request.channels || 1;
+  const pcm = Buffer.alloc(samples * channels * 2);
+  for (let i = 0; i < samples * channels; i++) {
+    pcm.writeInt16LE(value, i * 2);
+  }
+  return pcm;
+};
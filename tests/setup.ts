@@ -0,0 +1,21 @@
+// 测试环境配置 - 在加载服务配置之前设置环境变量，上游地址由各测试启动模拟服务后设置
+import os from 'os';
+import path from 'path';
+import { logger } from '../src/utils/logger';
+
+process.env.COZE_API_TOKEN = 'test-token';
+process.env.COZE_VOICE_ID = 'test-voice';
+process.env.CACHE_STORE = 'none';
+process.env.LEXICON_FILE = path.join(os.tmpdir(), `tts-lexicons-${process.pid}-${Date.now()}.json`);
+process.env.WS_TIMEOUT = '1000';
+process.env.WS_FIRST_CHUNK_TIMEOUT = '300';
+process.env.WS_IDLE_TIMEOUT = '300';
+process.env.WS_RECONNECT_ATTEMPTS = '2';
+process.env.WS_RECONNECT_DELAY = '10';
+process.env.WS_RECONNECT_MAX_DELAY = '50';
+process.env.HEALTH_CHECK_TIMEOUT = '500';
+process.env.HEALTH_PROBE_INTERVAL = '0';
+process.env.HEALTH_FAILURE_THRESHOLD = '2';
+
+// 测试中预期的错误日志不输出
+logger.silent = true;
@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import { ApiKeyRegistry, hasScope, parseApiKeys } from '../../src/auth/apiKeys';
+import { redactApiKey } from '../../src/middleware/auth';
+
+describe('parseApiKeys', () => {
+  it('parses client IDs, keys and scopes', () => {
+    expect(parseApiKeys('web:k1:synthesize|stream, ops:k2:admin:config|admin:stop')).toEqual([
+      { id: 'web', key: 'k1', scopes: ['synthesize', 'stream'] },
+      { id: 'ops', key: 'k2', scopes: ['admin:config', 'admin:stop'] }
+    ]);
+  });
+
+  it('grants all scopes when none are listed', () => {
+    expect(parseApiKeys('root:secret')).toEqual([{ id: 'root', key: 'secret', scopes: ['*'] }]);
+  });
+
+  it('rejects entries without a key', () => {
+    expect(() => parseApiKeys('web')).toThrow('API_KEYS 格式错误');
+  });
+
+  it('returns nothing for an empty value', () => {
+    expect(parseApiKeys('')).toEqual([]);
+  });
+});
+
+describe('ApiKeyRegistry', () => {
+  const registry = new ApiKeyRegistry([
+    { id: 'web', key: 'web-key', scopes: ['synthesize', 'stream'] },
+    { id: 'ops', keySha256: crypto.createHash('sha256').update('ops-key').digest('hex'), scopes: ['*'] }
+  ]);
+
+  it('authenticates plain and hashed keys', () => {
+    expect(registry.enabled).toBe(true);
+    expect(registry.authenticate('web-key')).toEqual({ id: 'web', scopes: ['synthesize', 'stream'] });
+    expect(registry.authenticate('ops-key')?.id).toBe('ops');
+    expect(registry.authenticate('unknown')).toBeNull();
+  });
+
+  it('checks scopes, with * granting everything', () => {
+    const web = registry.authenticate('web-key')!;
+    const ops = registry.authenticate('ops-key')!;
+    expect(hasScope(web, 'stream')).toBe(true);
+    expect(hasScope(web, 'admin:config')).toBe(false);
+    expect(hasScope(ops, 'admin:stop')).toBe(true);
+  });
+
+  it('is disabled without definitions', () => {
+    expect(new ApiKeyRegistry([]).enabled).toBe(false);
+  });
+
+  it('rejects unknown scopes, duplicate IDs and missing keys', () => {
+    expect(() => new ApiKeyRegistry([{ id: 'a', key: 'k', scopes: ['admin'] }])).toThrow('权限无效');
+    expect(() => new ApiKeyRegistry([
+      { id: 'a', key: 'k1', scopes: ['*'] },
+      { id: 'a', key: 'k2', scopes: ['*'] }
+    ])).toThrow('ID重复');
+    expect(() => new ApiKeyRegistry([{ id: 'a', keySha256: 'abc', scopes: ['*'] }])).toThrow('keySha256');
+  });
+});
+
+describe('redactApiKey', () => {
+  it('removes the key from query strings', () => {
+    expect(redactApiKey('/api/tts/ws?api_key=secret&x=1')).toBe('/api/tts/ws?api_key=[REDACTED]&x=1');
+    expect(redactApiKey('/api/tts/status')).toBe('/api/tts/status');
+  });
+});
@@ -0,0 +1,81 @@
+import { SynthesisJobQueue, JobInfo } from '../../src/jobs/SynthesisJobQueue';
+import { StreamingTTSService } from '../../src/services/StreamingTTSService';
+import { OfflineProvider } from '../../src/providers/OfflineProvider';
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('SynthesisJobQueue', () => {
+  let service: StreamingTTSService;
+
+  beforeEach(() => {
+    service = new StreamingTTSService(new OfflineProvider(), { voiceId: 'offline', maxConcurrentSessions: 2 });
+  });
+
+  afterEach(async () => {
+    await service.cleanup();
+  });
+
+  const finished = (queue: SynthesisJobQueue, jobId: string): Promise<JobInfo> => {
+    return new Promise((resolve) => {
+      const listener = (info: JobInfo) => {
+        if (info.jobId === jobId) {
+          queue.off('finished', listener);
+          resolve(info);
+        }
+      };
+      queue.on('finished', listener);
+    });
+  };
+
+  it('runs jobs in order within the concurrency limit', async () => {
+    const queue = new SynthesisJobQueue(service, { concurrency: 1, maxQueued: 10, retentionMs: 60000 });
+    const first = queue.submit({ text: '第一个任务。', options: {}, owner: null });
+    const second = queue.submit({ text: '第二个任务。', options: {}, owner: null });
+    expect(second).toMatchObject({ state: 'queued', queuePosition: 0 });
+
+    const firstDone = finished(queue, first.jobId);
+    const secondDone = finished(queue, second.jobId);
+    expect((await firstDone).state).toBe('completed');
+    expect((await secondDone).state).toBe('completed');
+    expect(new Date((await secondDone).startedAt!).getTime())
+      .toBeGreaterThanOrEqual(new Date((await firstDone).finishedAt!).getTime());
+    expect(queue.getResult(first.jobId).audioData.length).toBeGreaterThan(0);
+    queue.close();
+  });
+
+  it('rejects submissions when the queue is full', () => {
+    const queue = new SynthesisJobQueue(service, { concurrency: 1, maxQueued: 1, retentionMs: 60000 });
+    queue.submit({ text: '运行。', options: {}, owner: null });
+    queue.submit({ text: '排队。', options: {}, owner: null });
+    expect(() => queue.submit({ text: '拒绝。', options: {}, owner: null })).toThrow('排队的合成任务数已达上限');
+    queue.close();
+  });
+
+  it('waits for a free session slot instead of failing', async () => {
+    const busy = new StreamingTTSService(new OfflineProvider(), { voiceId: 'offline', maxConcurrentSessions: 1 });
+    const queue = new SynthesisJobQueue(busy, { concurrency: 1, maxQueued: 10, retentionMs: 60000 });
+    const holder = busy.createStreamingSession();
+
+    const job = queue.submit({ text: '稍后合成。', options: {}, owner: null });
+    const done = finished(queue, job.jobId);
+    await sleep(50);
+    expect(queue.get(job.jobId).state).toBe('queued');
+
+    holder.stop();
+    expect((await done).state).toBe('completed');
+    queue.close();
+    await busy.cleanup();
+  });
+
+  it('hides jobs of other owners and removes jobs after the retention time', async () => {
+    const queue = new SynthesisJobQueue(service, { concurrency: 1, maxQueued: 10, retentionMs: 30 });
+    const job = queue.submit({ text: '保留。', options: {}, owner: 'web' });
+    expect(() => queue.get(job.jobId, 'ops')).toThrow('任务不存在');
+
+    await finished(queue, job.jobId);
+    expect(queue.get(job.jobId, 'web').state).toBe('completed');
+    await sleep(60);
+    expect(() => queue.get(job.jobId)).toThrow('任务不存在');
+    queue.close();
+  });
+});
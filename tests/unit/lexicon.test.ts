@@ -0,0 +1,109 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { checkPinyin, LexiconMatcher, toToneMarks } from '../../src/text/lexicon';
+import { LexiconStore } from '../../src/lexicon/LexiconStore';
+
+describe('LexiconMatcher', () => {
+  it('prefers the longest matching grapheme', () => {
+    const matcher = new LexiconMatcher([
+      { grapheme: '银行', replacement: 'yin hang' },
+      { grapheme: '银行行长', replacement: '行长先生' }
+    ]);
+
+    expect(matcher.apply('银行行长去了银行')).toBe('行长先生去了yin hang');
+  });
+
+  it('matches alphanumeric graphemes as whole words only', () => {
+    const matcher = new LexiconMatcher([{ grapheme: 'SQL', replacement: 'sequel' }]);
+
+    expect(matcher.apply('SQL, MySQL and SQL_X; 用SQL查询')).toBe('sequel, MySQL and SQL_X; 用sequel查询');
+  });
+
+  it('does not substitute inside a replacement', () => {
+    const matcher = new LexiconMatcher([
+      { grapheme: 'a', replacement: 'b' },
+      { grapheme: 'b', replacement: 'c' }
+    ]);
+
+    expect(matcher.apply('a b')).toBe('b c');
+  });
+
+  it('lets later entries override earlier ones and changes the fingerprint with the content', () => {
+    const first = new LexiconMatcher([{ grapheme: '行', replacement: 'xing' }]);
+    const second = new LexiconMatcher([{ grapheme: '行', replacement: 'xing' }, { grapheme: '行', pinyin: 'hang2' }]);
+
+    expect(second.size).toBe(1);
+    expect(second.apply('行')).toBe('háng');
+    expect(second.fingerprint).not.toBe(first.fingerprint);
+    expect(new LexiconMatcher([{ grapheme: '行', replacement: 'xing' }]).fingerprint).toBe(first.fingerprint);
+  });
+});
+
+describe('pinyin', () => {
+  it.each([
+    ['chong2 qing4', 'chóng qìng'],
+    ['lv4 nv3', 'lǜ nǚ'],
+    ['gou3 liu2 shui3', 'gǒu liú shuǐ'],
+    ['ma5 de0', 'ma de']
+  ])('converts %s to tone marks', (pinyin, expected) => {
+    expect(toToneMarks(pinyin)).toBe(expected);
+  });
+
+  it('rejects syllables without a tone number', () => {
+    expect(checkPinyin('chong2 qing4')).toBeNull();
+    expect(checkPinyin('chong qing4')).toContain('chong');
+    expect(checkPinyin('xyz1')).toContain('xyz1');
+  });
+});
+
+describe('LexiconStore', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'lexicon-store-'));
+    filePath = path.join(directory, 'nested', 'lexicons.json');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('persists changes and reloads them from the file', async () => {
+    const store = new LexiconStore(filePath);
+    await store.create({ id: 'names', entries: [{ grapheme: '重庆', pinyin: 'chong2  qing4' }] });
+    await store.upsertEntries('names', [{ grapheme: 'SQL', replacement: 'sequel' }, { grapheme: '重庆', replacement: 'Chongqing' }]);
+    await store.deleteEntry('names', 'SQL');
+
+    const reloaded = new LexiconStore(filePath);
+    expect(reloaded.get('names')?.entries).toEqual([{ grapheme: '重庆', replacement: 'Chongqing' }]);
+    expect(reloaded.list()).toEqual([expect.objectContaining({ id: 'names', name: 'names', entryCount: 1 })]);
+  });
+
+  it('rejects invalid entries without changing the stored lexicon', async () => {
+    const store = new LexiconStore(filePath);
+    await store.create({ id: 'names' });
+
+    await expect(store.upsertEntries('names', [{ grapheme: '行', replacement: 'xing', pinyin: 'xing2' }]))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(store.upsertEntries('names', [{ grapheme: '行', pinyin: 'xing' }]))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(store.create({ id: 'other', entries: [{ grapheme: 'a', replacement: 'b' }, { grapheme: 'a', replacement: 'c' }] }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(store.create({ id: 'names' })).rejects.toMatchObject({ statusCode: 409 });
+
+    expect(store.get('names')?.entries).toEqual([]);
+    expect(store.get('other')).toBeUndefined();
+  });
+
+  it('compiles lexicons in order and rejects unknown ids', async () => {
+    const store = new LexiconStore(filePath);
+    await store.create({ id: 'a', entries: [{ grapheme: '行', replacement: 'xing' }] });
+    await store.create({ id: 'b', entries: [{ grapheme: '行', replacement: 'hang' }] });
+
+    expect(store.compile(['a', 'b']).apply('行')).toBe('hang');
+    expect(store.compile(['b', 'a']).apply('行')).toBe('xing');
+    expect(() => store.compile(['a', 'missing'])).toThrow('missing');
+  });
+});
@@ -0,0 +1,49 @@
+import { MetricsRegistry } from '../../src/metrics/registry';
+
+describe('MetricsRegistry', () => {
+  it('renders counters and gauges in the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('requests_total', 'Requests', ['route', 'status']);
+    registry.gauge('active', 'Active sessions', [], gauge => gauge.set({}, 3));
+
+    requests.inc({ route: '/a', status: 200 });
+    requests.inc({ route: '/a', status: 200 }, 2);
+    requests.inc({ route: 'say "hi"\n', status: 500 });
+
+    expect(registry.render()).toBe([
+      '# HELP requests_total Requests',
+      '# TYPE requests_total counter',
+      'requests_total{route="/a",status="200"} 3',
+      'requests_total{route="say \\"hi\\"\\n",status="500"} 1',
+      '# HELP active Active sessions',
+      '# TYPE active gauge',
+      'active 3',
+      ''
+    ].join('\n'));
+  });
+
+  it('renders histograms with cumulative buckets, sum and count', () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram('latency_seconds', 'Latency', ['cache'], [1, 0.5]);
+
+    latency.observe({ cache: 'miss' }, 0.2);
+    latency.observe({ cache: 'miss' }, 0.7);
+    latency.observe({ cache: 'miss' }, 3);
+
+    expect(registry.render().split('\n').slice(2, 7)).toEqual([
+      'latency_seconds_bucket{cache="miss",le="0.5"} 1',
+      'latency_seconds_bucket{cache="miss",le="1"} 2',
+      'latency_seconds_bucket{cache="miss",le="+Inf"} 3',
+      'latency_seconds_sum{cache="miss"} 3.9',
+      'latency_seconds_count{cache="miss"} 3'
+    ]);
+  });
+
+  it('rejects duplicate metric names and negative counter increments', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('events_total', 'Events');
+
+    expect(() => registry.gauge('events_total', 'Events')).toThrow();
+    expect(() => counter.inc({}, -1)).toThrow();
+  });
+});
@@ -0,0 +1,36 @@
+import { normalizeText, resolveLocale } from '../../src/text/normalizer';
+
+describe('normalizeText', () => {
+  it.each([
+    ['会议定在2026-10-19 14:30。', '会议定在二零二六年十月十九日 十四点三十分。'],
+    ['预算¥1,250.50，增长3.5%。', '预算一千二百五十元五角，增长百分之三点五。'],
+    ['价格¥1,250.50元，运费$5 美元，押金￥30块钱。', '价格一千二百五十元五角，运费五美元，押金三十元。'],
+    ['温度-5℃，速度120 km/h，容量16GB。', '温度负五摄氏度，速度一百二十千米每小时，容量十六吉字节。'],
+    ['2026年第1季度，3-5人。', '二零二六年第一季度，三-五人。'],
+    ['拨打010-12345678或13800138000。', '拨打零幺零，幺二三四五六七八或幺三八零零幺三八零零零。'],
+    ['请调用API，详见https://example.com/docs?a=1。谢谢😀👍🏽', '请调用A P I，详见。谢谢']
+  ])('normalizes Mandarin: %s', (text, expected) => {
+    expect(normalizeText(text, 'zh')).toBe(expected);
+  });
+
+  it.each([
+    ['The launch is on 2026-10-19 at 9:05.', 'The launch is on October nineteenth, twenty twenty-six at nine oh five.'],
+    ['It costs $1,250.50, up 3.5%.', 'It costs one thousand two hundred fifty dollars and fifty cents, up three point five percent.'],
+    ['Run 5km at 36.5°C on the 21st.', 'Run five kilometers at thirty-six point five degrees Celsius on the twenty-first.'],
+    ['NASA uses the SDK from iPhone15 🚀 www.example.com', 'NASA uses the S D K from iPhone fifteen']
+  ])('normalizes English: %s', (text, expected) => {
+    expect(normalizeText(text, 'en')).toBe(expected);
+  });
+
+  it('picks the reading language from the text when the locale is auto', () => {
+    expect(resolveLocale('共3人', 'auto')).toBe('zh');
+    expect(resolveLocale('3 people', 'auto')).toBe('en');
+    expect(normalizeText('共3人', 'auto')).toBe('共三人');
+    expect(normalizeText('3 people', 'auto')).toBe('three people');
+  });
+
+  it('leaves invalid dates and times to the number rules', () => {
+    expect(normalizeText('2026-13-45', 'zh')).toBe('二千零二十六-十三-四十五');
+    expect(normalizeText('25:61', 'en')).toBe('twenty-five:sixty-one');
+  });
+});
@@ -0,0 +1,94 @@
+import { QuotaManager } from '../../src/quota/QuotaManager';
+
+describe('QuotaManager', () => {
+  const limits = {
+    characters: { minute: 100, day: 250 },
+    audioSeconds: { minute: 10, day: 0 }
+  };
+  const start = 1_700_000_000_000;
+
+  it('admits usage within the limits and reports the remaining budget', () => {
+    const quotas = new QuotaManager(limits);
+    const decision = quotas.consume('key:web', 40, start);
+    expect(decision.allowed).toBe(true);
+    expect(decision.remaining).toEqual({
+      characters: { minute: 60, day: 210 },
+      audioSeconds: { minute: 10, day: null }
+    });
+  });
+
+  it('rejects characters over the minute window until old usage slides out', () => {
+    const quotas = new QuotaManager(limits);
+    expect(quotas.consume('key:web', 60, start).allowed).toBe(true);
+    expect(quotas.consume('key:web', 30, start + 20_000).allowed).toBe(true);
+
+    const rejected = quotas.consume('key:web', 20, start + 30_000);
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.exceeded).toEqual({ metric: 'characters', window: 'minute', limit: 100 });
+    // 60 个字符在 start + 60s 移出窗口
+    expect(rejected.retryAfterSeconds).toBe(30);
+
+    expect(quotas.consume('key:web', 20, start + 60_000).allowed).toBe(true);
+  });
+
+  it('keeps counting over the day window', () => {
+    const quotas = new QuotaManager(limits);
+    for (let minute = 0; minute < 3; minute++) {
+      expect(quotas.consume('key:web', 80, start + minute * 60_000).allowed).toBe(true);
+    }
+    const rejected = quotas.consume('key:web', 20, start + 3 * 60_000);
+    expect(rejected.exceeded?.window).toBe('day');
+    expect(rejected.retryAfterSeconds).toBeGreaterThan(23 * 60 * 60);
+  });
+
+  it('rejects a single request larger than a limit without a retry time', () => {
+    const quotas = new QuotaManager(limits);
+    const rejected = quotas.consume('key:web', 101, start);
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.retryAfterSeconds).toBeNull();
+  });
+
+  it('rejects new requests once the audio budget is used up', () => {
+    const quotas = new QuotaManager(limits);
+    expect(quotas.consume('ip:1.2.3.4', 10, start).allowed).toBe(true);
+    quotas.recordAudio('ip:1.2.3.4', 10.5, start + 1000);
+
+    const rejected = quotas.consume('ip:1.2.3.4', 10, start + 2000);
+    expect(rejected.exceeded).toEqual({ metric: 'audioSeconds', window: 'minute', limit: 10 });
+    expect(rejected.retryAfterSeconds).toBe(59);
+  });
+
+  it('tracks clients separately and lists their usage', () => {
+    const quotas = new QuotaManager(limits);
+    quotas.consume('key:web', 30, start);
+    quotas.consume('key:ops', 5, start + 1000);
+    quotas.consume('key:ops', 500, start + 2000);
+    quotas.recordAudio('key:web', 1.25, start + 3000);
+
+    const usage = quotas.listUsage(start + 4000);
+    expect(usage.map(entry => entry.client)).toEqual(['key:web', 'key:ops']);
+    expect(usage[0].usage.audioSeconds).toEqual({ minute: 1.25, day: 1.25 });
+    expect(quotas.getUsage('key:ops', start + 4000)?.totals).toEqual({ rejected: 1, characters: 5, audioSeconds: 0 });
+    expect(quotas.getUsage('key:none')).toBeNull();
+  });
+
+  it('refunds characters into the buckets they were charged to', () => {
+    const quotas = new QuotaManager(limits);
+    quotas.consume('key:web', 60, start);
+    quotas.consume('key:web', 30, start + 20_000);
+    quotas.refund('key:web', 30, start + 20_000);
+    // 超过已记录的数量时只退还到 0
+    quotas.refund('key:web', 100, start);
+
+    const usage = quotas.getUsage('key:web', start + 30_000)!;
+    expect(usage.usage.characters).toEqual({ minute: 0, day: 0 });
+    expect(usage.totals.characters).toBe(0);
+    expect(quotas.consume('key:web', 100, start + 30_000).allowed).toBe(true);
+  });
+
+  it('is disabled when every limit is zero', () => {
+    const quotas = new QuotaManager({ characters: { minute: 0, day: 0 }, audioSeconds: { minute: 0, day: 0 } });
+    expect(quotas.enabled).toBe(false);
+    expect(quotas.consume('key:web', 1_000_000, start).allowed).toBe(true);
+  });
+});
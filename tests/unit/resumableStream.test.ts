@@ -0,0 +1,109 @@
+import { EventEmitter } from 'events';
+import { ServerResponse } from 'http';
+import { parseEventId, ResumableStreamRegistry } from '../../src/sse/ResumableStream';
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// 记录写入内容的响应对象
+class FakeResponse extends EventEmitter {
+  body = '';
+  ended = false;
+
+  write(chunk: string): boolean {
+    this.body += chunk;
+    return true;
+  }
+
+  end(): void {
+    this.ended = true;
+  }
+
+  disconnect(): void {
+    this.emit('close');
+  }
+}
+
+const asResponse = (res: FakeResponse): ServerResponse => res as unknown as ServerResponse;
+
+describe('ResumableStream', () => {
+  const config = { heartbeatInterval: 0, graceMs: 50, replayMaxBytes: 1024, retryMs: 1000 };
+  let registry: ResumableStreamRegistry;
+
+  beforeEach(() => {
+    registry = new ResumableStreamRegistry(config);
+  });
+
+  afterEach(() => {
+    registry.close();
+  });
+
+  it('parses event IDs whose session ID contains colons', () => {
+    expect(parseEventId('abc:3')).toEqual({ sessionId: 'abc', seq: 3 });
+    expect(parseEventId('urn:call:7:12')).toEqual({ sessionId: 'urn:call:7', seq: 12 });
+    expect(parseEventId('abc')).toBeNull();
+    expect(parseEventId(':1')).toBeNull();
+    expect(parseEventId('abc:-1')).toBeNull();
+    expect(parseEventId('abc:x')).toBeNull();
+  });
+
+  it('replays the events after the given sequence to a new connection', () => {
+    const stream = registry.create('s1', null, () => undefined);
+    const first = new FakeResponse();
+    stream.attach(asResponse(first), 0);
+    stream.send({ n: 1 });
+    first.disconnect();
+    stream.send({ n: 2 });
+    stream.send({ n: 3 });
+
+    expect(first.body).toBe('retry: 1000\n\nid: s1:1\ndata: {"n":1}\n\n');
+    expect(stream.attached).toBe(false);
+    expect(stream.check(1)).toBe('ok');
+
+    const second = new FakeResponse();
+    stream.attach(asResponse(second), 1, 'data: {"type":"resumed"}\n\n');
+    expect(second.body).toBe('retry: 1000\n\ndata: {"type":"resumed"}\n\nid: s1:2\ndata: {"n":2}\n\nid: s1:3\ndata: {"n":3}\n\n');
+
+    stream.finish();
+    expect(second.ended).toBe(true);
+    expect(stream.check(3)).toBe('done');
+    expect(stream.check(4)).toBe('gap');
+  });
+
+  it('reports a gap once events were dropped from the replay buffer', () => {
+    const stream = registry.create('s2', null, () => undefined);
+    for (let i = 0; i < 20; i++) {
+      stream.send({ data: 'x'.repeat(100) });
+    }
+    expect(stream.check(0)).toBe('gap');
+    expect(stream.check(19)).toBe('ok');
+  });
+
+  it('abandons the session when nobody reconnects within the grace window', async () => {
+    const onAbandon = jest.fn();
+    const stream = registry.create('s3', 'client-a', onAbandon);
+    const res = new FakeResponse();
+    stream.attach(asResponse(res), 0);
+    res.disconnect();
+
+    expect(registry.get('s3', 'client-b')).toBeNull();
+    expect(registry.get('s3', 'client-a')).toBe(stream);
+
+    await sleep(100);
+    expect(onAbandon).toHaveBeenCalledTimes(1);
+    expect(registry.get('s3')).toBeNull();
+  });
+
+  it('does not abandon a session that reconnected in time', async () => {
+    const onAbandon = jest.fn();
+    const stream = registry.create('s4', null, onAbandon);
+    const first = new FakeResponse();
+    stream.attach(asResponse(first), 0);
+    first.disconnect();
+
+    await sleep(20);
+    stream.attach(asResponse(new FakeResponse()), 0);
+    await sleep(100);
+    expect(onAbandon).not.toHaveBeenCalled();
+    expect(registry.size).toBe(1);
+  });
+});
@@ -0,0 +1,112 @@
+import { parseSsml, SsmlError } from '../../src/text/ssml';
+import { cardinalToWords, dateToWords, ordinalToWords, telephoneToWords } from '../../src/text/numbers';
+
+// 取出解析失败时的校验问题
+const getIssues = (ssml: string): SsmlError['issues'] => {
+  try {
+    parseSsml(ssml);
+  } catch (error) {
+    if (error instanceof SsmlError) {
+      return error.issues;
+    }
+    throw error;
+  }
+  throw new Error('SSML 应当无效');
+};
+
+describe('number readings', () => {
+  it.each([
+    ['0', '零'],
+    ['10', '十'],
+    ['15', '十五'],
+    ['105', '一百零五'],
+    ['10050', '一万零五十'],
+    ['120000000', '一亿二千万'],
+    ['-3.14', '负三点一四']
+  ])('reads %s in Chinese as %s', (value, expected) => {
+    expect(cardinalToWords(value, 'zh')).toBe(expected);
+  });
+
+  it('reads cardinals and ordinals in English', () => {
+    expect(cardinalToWords('1,234', 'en')).toBe('one thousand two hundred thirty-four');
+    expect(ordinalToWords('23', 'en')).toBe('twenty-third');
+    expect(ordinalToWords('12', 'en')).toBe('twelfth');
+    expect(ordinalToWords('3', 'zh')).toBe('第三');
+  });
+
+  it('reads dates and telephone numbers', () => {
+    expect(dateToWords('2024-03-05', 'ymd', 'zh')).toBe('二零二四年三月五日');
+    expect(dateToWords('03/05/1999', 'mdy', 'en')).toBe('March fifth, nineteen ninety-nine');
+    expect(dateToWords('2024-13-05', 'ymd', 'zh')).toBeNull();
+    expect(telephoneToWords('110-123', 'zh')).toBe('幺幺零，幺二三');
+  });
+});
+
+describe('parseSsml', () => {
+  it('merges plain text into a single span', () => {
+    expect(parseSsml('<speak>你好，\n  世界。</speak>')).toEqual([
+      { type: 'text', text: '你好， 世界。', voiceId: undefined, rate: 1 }
+    ]);
+  });
+
+  it('splits spans at breaks, prosody and voice changes', () => {
+    const spans = parseSsml(
+      '<?xml version="1.0"?><speak>开始<break time="500ms"/><prosody rate="slow">慢一点</prosody>' +
+      '<voice name="voice-b">换个声音</voice><break strength="strong"/>结束</speak>'
+    );
+
+    expect(spans).toEqual([
+      { type: 'text', text: '开始', voiceId: undefined, rate: 1 },
+      { type: 'break', durationMs: 500 },
+      { type: 'text', text: '慢一点', voiceId: undefined, rate: 0.8 },
+      { type: 'text', text: '换个声音', voiceId: 'voice-b', rate: 1 },
+      { type: 'break', durationMs: 700 },
+      { type: 'text', text: '结束', voiceId: undefined, rate: 1 }
+    ]);
+  });
+
+  it('combines nested prosody and emphasis rates', () => {
+    const [span] = parseSsml('<speak><prosody rate="150%"><emphasis level="strong">重要</emphasis></prosody></speak>');
+
+    expect(span).toMatchObject({ type: 'text', rate: 1.5 * 0.85 });
+  });
+
+  it('expands say-as, sub and entities into text', () => {
+    const spans = parseSsml(
+      '<speak>第<say-as interpret-as="cardinal">12</say-as>期 &amp; <sub alias="世界卫生组织">WHO</sub>，' +
+      '日期<say-as interpret-as="date" format="ymd">2024-03-05</say-as></speak>'
+    );
+
+    expect(spans).toEqual([
+      { type: 'text', text: '第十二期 & 世界卫生组织，日期二零二四年三月五日', voiceId: undefined, rate: 1 }
+    ]);
+  });
+
+  it('reads say-as in the language given by xml:lang', () => {
+    const [span] = parseSsml('<speak xml:lang="en-US">Room <say-as interpret-as="ordinal">21</say-as></speak>');
+
+    expect(span).toMatchObject({ text: 'Room twenty-first' });
+  });
+
+  it('reports syntax errors with their position', () => {
+    expect(getIssues('<speak>\n  你好<break time="1s"></speak>')).toEqual([
+      { message: '结束标签 </speak> 与开始标签 <break> 不匹配', line: 2, column: 22 }
+    ]);
+    expect(getIssues('你好')[0].message).toBe('SSML 必须以 <speak> 元素开始');
+    expect(getIssues('<speak>A & B</speak>')[0].message).toBe('& 必须写作 &amp;');
+  });
+
+  it('collects every unsupported element and attribute', () => {
+    const issues = getIssues(
+      '<speak><audio src="a.wav"/><prosody pitch="high">高</prosody>' +
+      '<break time="20s"/><say-as interpret-as="cardinal">abc</say-as></speak>'
+    );
+
+    expect(issues.map(issue => issue.element)).toEqual(['audio', 'prosody', 'break', 'say-as']);
+    expect(issues[0]).toMatchObject({ message: '不支持的元素 <audio>', line: 1, column: 8 });
+  });
+
+  it('rejects a document without any text to synthesize', () => {
+    expect(getIssues('<speak><break time="1s"/></speak>')[0].message).toBe('SSML 中没有可合成的文本');
+  });
+});
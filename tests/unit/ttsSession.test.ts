@@ -0,0 +1,111 @@
+import { StreamingTTSService } from '../../src/services/StreamingTTSService';
+import { OfflineProvider } from '../../src/providers/OfflineProvider';
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('TTSSession backpressure', () => {
+  let service: StreamingTTSService;
+
+  beforeEach(() => {
+    service = new StreamingTTSService(new OfflineProvider(), { voiceId: 'offline', lookahead: 1 });
+  });
+
+  afterEach(async () => {
+    await service.cleanup();
+  });
+
+  it('does not start new segments while paused', async () => {
+    const session = await service.createSession('第一句。第二句。第三句。');
+    const completed: number[] = [];
+    let chunks = 0;
+    session.on('segmentComplete', (data: { segmentIndex: number }) => completed.push(data.segmentIndex));
+    session.on('audioChunk', () => chunks++);
+
+    session.pause();
+    const done = session.start();
+    await sleep(200);
+    expect(chunks).toBe(0);
+    expect(session.isFinished()).toBe(false);
+
+    session.resume();
+    const result = await done;
+    expect(completed).toEqual([0, 1, 2]);
+    expect(result.segments).toHaveLength(3);
+  });
+
+  it('holds the audio of the sentence in flight until resumed', async () => {
+    const session = await service.createSession('只有一句，但是足够长，可以分成好几个音频块。');
+    let chunks = 0;
+    const first = new Promise<void>((resolve) => session.on('audioChunk', () => {
+      chunks++;
+      session.pause();
+      resolve();
+    }));
+
+    const done = session.start();
+    await first;
+    await sleep(200);
+    expect(chunks).toBe(1);
+    expect(session.isFinished()).toBe(false);
+
+    session.removeAllListeners('audioChunk');
+    session.on('audioChunk', () => chunks++);
+    session.resume();
+    const result = await done;
+    expect(chunks).toBeGreaterThan(1);
+    expect(result.audioData.length).toBe(session.getInfo().audioBytes);
+  });
+
+  it('stops a paused session', async () => {
+    const session = await service.createSession('第一句。第二句。');
+    session.pause();
+    const done = session.start();
+    await sleep(50);
+
+    session.stop();
+    await expect(done).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
+
+describe('TTSSession stop modes', () => {
+  let service: StreamingTTSService;
+
+  beforeEach(() => {
+    service = new StreamingTTSService(new OfflineProvider(), { voiceId: 'offline', lookahead: 2 });
+  });
+
+  afterEach(async () => {
+    await service.cleanup();
+  });
+
+  it('finishes the current sentence before stopping in sentence mode', async () => {
+    const session = await service.createSession('第一句。第二句。第三句。');
+    const completed: Array<{ segmentIndex: number; startMs: number; durationMs: number }> = [];
+    session.on('segmentComplete', (data) => completed.push(data));
+    session.once('audioChunk', () => session.stop('sentence'));
+
+    await expect(session.start()).rejects.toMatchObject({ statusCode: 409 });
+    expect(completed.map(segment => segment.segmentIndex)).toEqual([0]);
+    expect(session.getInfo()).toMatchObject({ state: 'stopped', deliveredMs: completed[0].durationMs });
+    // 停止后释放音频缓冲区，块数仍按已输出的计算
+    expect(session.getInfo().audioChunks).toBeGreaterThan(0);
+    expect(session.getInfo().audioBytes).toBeGreaterThan(0);
+  });
+
+  it('completes normally when the current sentence is the last one', async () => {
+    const session = await service.createSession('只有一句。');
+    session.once('audioChunk', () => session.stop('sentence'));
+
+    const result = await session.start();
+    expect(session.getInfo()).toMatchObject({ state: 'completed', deliveredMs: result.durationMs });
+  });
+
+  it('stops right away when no audio has been sent yet', async () => {
+    const session = await service.createSession('第一句。第二句。');
+    const done = session.start();
+    session.stop('sentence');
+
+    await expect(done).rejects.toMatchObject({ statusCode: 409 });
+    expect(session.getInfo().deliveredMs).toBe(0);
+  });
+});
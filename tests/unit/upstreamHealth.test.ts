@@ -0,0 +1,58 @@
+import { UpstreamHealthMonitor } from '../../src/services/UpstreamHealth';
+import { TTSError } from '../../src/services/TTSError';
+import type { TTSProvider } from '../../src/providers/TTSProvider';
+
+// 探测结果由测试控制的提供方
+const createProvider = (probe: () => Promise<void>): TTSProvider & { probes: number } => {
+  const provider = {
+    name: 'fake',
+    probes: 0,
+    getCapabilities: () => ({ sampleRates: null, channels: [1], voices: null, requiresCredentials: false }),
+    connect: () => {
+      throw new Error('not used');
+    },
+    probe: () => {
+      provider.probes++;
+      return probe();
+    }
+  };
+  return provider;
+};
+
+describe('UpstreamHealthMonitor', () => {
+  it('reuses the last result within the probe interval and shares a probe in flight', async () => {
+    const provider = createProvider(() => new Promise(resolve => setTimeout(resolve, 20)));
+    const monitor = new UpstreamHealthMonitor(provider, { timeout: 100, interval: 60000, failureThreshold: 2, getVoiceId: () => 'v' });
+
+    expect(monitor.getStatus()).toMatchObject({ status: 'unknown', ready: true, lastCheck: null });
+
+    const [first, second] = await Promise.all([monitor.check(), monitor.check()]);
+    const third = await monitor.check();
+
+    expect(provider.probes).toBe(1);
+    expect(first).toEqual(second);
+    expect(third).toMatchObject({ status: 'connected', ready: true });
+    expect(third.latencyMs).toBeGreaterThanOrEqual(15);
+  });
+
+  it('reports degraded until the consecutive failure threshold is reached', async () => {
+    let failing = true;
+    const provider = createProvider(() => failing ? Promise.reject(new TTSError('timeout', 'slow')) : Promise.resolve());
+    const monitor = new UpstreamHealthMonitor(provider, { timeout: 100, interval: 0, failureThreshold: 3, getVoiceId: () => 'v' });
+
+    expect(await monitor.check()).toMatchObject({ status: 'degraded', ready: true, consecutiveFailures: 1 });
+    expect(await monitor.check()).toMatchObject({ status: 'degraded', ready: true, consecutiveFailures: 2 });
+    expect(await monitor.check()).toMatchObject({
+      status: 'disconnected',
+      ready: false,
+      consecutiveFailures: 3,
+      lastSuccess: null,
+      lastError: { code: 'timeout', message: 'slow' }
+    });
+
+    failing = false;
+    const recovered = await monitor.check();
+    expect(recovered).toMatchObject({ status: 'connected', ready: true, consecutiveFailures: 0 });
+    expect(recovered.lastSuccess).toBeTruthy();
+  });
+});
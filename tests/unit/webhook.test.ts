@@ -0,0 +1,179 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookNotifier, WebhookConfig, signWebhook, verifyWebhook } from '../../src/jobs/WebhookNotifier';
+import type { JobInfo } from '../../src/jobs/SynthesisJobQueue';
+import type { SynthesisResult } from '../../src/types/tts';
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// 本地接收方：按顺序返回 statuses 中的状态码，用完后返回最后一个
+const startReceiver = async (statuses: number[]): Promise<{ url: string; received: Received[]; close(): Promise<void> }> => {
+  const received: Received[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses[Math.min(received.length, statuses.length) - 1];
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    received,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+};
+
+const job = (state: JobInfo['state']): JobInfo => ({
+  jobId: 'job_1',
+  state,
+  progress: { segments: 1, completedSegments: 1, audioDurationMs: 500 },
+  queuePosition: null,
+  params: null,
+  result: null,
+  error: null,
+  callback: null,
+  createdAt: new Date().toISOString(),
+  startedAt: null,
+  finishedAt: new Date().toISOString(),
+  expiresAt: null
+});
+
+const result = {
+  format: 'wav',
+  mimeType: 'audio/wav',
+  extension: 'wav',
+  audioData: Buffer.from('RIFF-audio'),
+  durationMs: 500,
+  params: { sampleRate: 24000, channels: 1 }
+} as unknown as SynthesisResult;
+
+describe('WebhookNotifier', () => {
+  let deadLetterFile: string;
+  let config: WebhookConfig;
+
+  beforeEach(() => {
+    deadLetterFile = path.join(os.tmpdir(), `tts-dead-letter-${process.pid}-${Date.now()}.jsonl`);
+    config = {
+      secret: 'secret',
+      maxAttempts: 3,
+      retryDelay: 10,
+      retryMaxDelay: 20,
+      timeout: 1000,
+      inlineMaxBytes: 1024,
+      publicBaseUrl: '',
+      deadLetterFile
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(deadLetterFile, { force: true });
+  });
+
+  it('signs the payload and links the audio download', async () => {
+    const receiver = await startReceiver([204]);
+    const notifier = new WebhookNotifier(config);
+
+    const delivered = await notifier.notify(job('completed'), { url: receiver.url, audio: 'url', baseUrl: 'http://tts.local/' }, result);
+    await receiver.close();
+
+    expect(delivered).toBe(true);
+    const [{ headers, body }] = receiver.received;
+    expect(verifyWebhook('secret', Number(headers['x-tts-timestamp']), body, headers['x-tts-signature'] as string)).toBe(true);
+    expect(verifyWebhook('other', Number(headers['x-tts-timestamp']), body, headers['x-tts-signature'] as string)).toBe(false);
+    expect(headers['x-tts-event']).toBe('job.completed');
+    expect(JSON.parse(body)).toMatchObject({
+      event: 'job.completed',
+      job: { jobId: 'job_1', state: 'completed' },
+      audio: { size: 10, sampleRate: 24000, url: 'http://tts.local/api/tts/jobs/job_1/audio', data: null }
+    });
+  });
+
+  it('inlines audio within the size limit', async () => {
+    const receiver = await startReceiver([200]);
+    const notifier = new WebhookNotifier({ ...config, publicBaseUrl: 'https://tts.example.com' });
+
+    await notifier.notify(job('completed'), { url: receiver.url, audio: 'inline', baseUrl: 'http://tts.local' }, result);
+    await notifier.notify(job('completed'), { url: receiver.url, audio: 'inline', baseUrl: 'http://tts.local' },
+      { ...result, audioData: Buffer.alloc(2048) });
+    await receiver.close();
+
+    const [small, large] = receiver.received.map(({ body }) => JSON.parse(body));
+    expect(small.audio).toMatchObject({ url: null, data: Buffer.from('RIFF-audio').toString('base64') });
+    expect(large.audio).toMatchObject({ url: 'https://tts.example.com/api/tts/jobs/job_1/audio', data: null });
+  });
+
+  it('retries server errors and succeeds with the same delivery ID', async () => {
+    const receiver = await startReceiver([503, 500, 200]);
+    const notifier = new WebhookNotifier(config);
+
+    expect(await notifier.notify(job('failed'), { url: receiver.url, audio: 'url', baseUrl: '' }, null)).toBe(true);
+    await receiver.close();
+
+    expect(receiver.received).toHaveLength(3);
+    expect(new Set(receiver.received.map(({ headers }) => headers['x-tts-delivery'])).size).toBe(1);
+    expect(JSON.parse(receiver.received[0].body)).toMatchObject({ event: 'job.failed', audio: null });
+    expect(fs.existsSync(deadLetterFile)).toBe(false);
+  });
+
+  it('writes a dead letter once attempts are exhausted', async () => {
+    const receiver = await startReceiver([500]);
+    const notifier = new WebhookNotifier(config);
+
+    expect(await notifier.notify(job('cancelled'), { url: receiver.url, audio: 'url', baseUrl: '' }, null)).toBe(false);
+    await receiver.close();
+
+    expect(receiver.received).toHaveLength(3);
+    const [record] = fs.readFileSync(deadLetterFile, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(record).toMatchObject({
+      event: 'job.cancelled',
+      jobId: 'job_1',
+      url: receiver.url,
+      attempts: 3,
+      lastError: '接收方返回 HTTP 500',
+      payload: { event: 'job.cancelled' }
+    });
+  });
+
+  it('does not retry client errors', async () => {
+    const receiver = await startReceiver([410]);
+    const notifier = new WebhookNotifier(config);
+
+    expect(await notifier.notify(job('completed'), { url: receiver.url, audio: 'inline', baseUrl: '' }, result)).toBe(false);
+    await receiver.close();
+
+    expect(receiver.received).toHaveLength(1);
+    const record = JSON.parse(fs.readFileSync(deadLetterFile, 'utf8'));
+    expect(record.attempts).toBe(1);
+    // 死信日志不保存内嵌音频
+    expect(record.payload.audio.data).toBeNull();
+  });
+
+  it('dead-letters unreachable receivers and pending retries on close', async () => {
+    const receiver = await startReceiver([200]);
+    await receiver.close();
+    const notifier = new WebhookNotifier({ ...config, retryDelay: 60000, retryMaxDelay: 60000 });
+
+    const delivery = notifier.notify(job('completed'), { url: receiver.url, audio: 'url', baseUrl: '' }, null);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    notifier.close();
+
+    expect(await delivery).toBe(false);
+    expect(JSON.parse(fs.readFileSync(deadLetterFile, 'utf8'))).toMatchObject({ attempts: 1 });
+  });
+
+  it('rejects stale timestamps', () => {
+    const body = '{}';
+    const timestamp = Math.floor(Date.now() / 1000) - 600;
+    expect(verifyWebhook('secret', timestamp, body, `sha256=${signWebhook('secret', timestamp, body)}`)).toBe(false);
+  });
+});
@@ -0,0 +1,30 @@
+import { createZip, crc32 } from '../../src/utils/zip';
+import { readZip } from '../helpers/zip';
+
+describe('createZip', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+
+  it('stores entries with UTF-8 names and checksums', () => {
+    const entries = [
+      { name: 'manifest.json', data: Buffer.from('{"ok":true}') },
+      { name: '议程-1.wav', data: Buffer.from([0, 1, 2, 3, 255]) },
+      { name: 'empty.pcm', data: Buffer.alloc(0) }
+    ];
+    const files = readZip(createZip(entries));
+
+    expect(files.map(file => file.name)).toEqual(['manifest.json', '议程-1.wav', 'empty.pcm']);
+    files.forEach((file, i) => {
+      expect(file.data.equals(entries[i].data)).toBe(true);
+      expect(file.crc).toBe(crc32(entries[i].data));
+    });
+  });
+
+  it('writes an empty archive', () => {
+    const archive = createZip([]);
+    expect(archive.length).toBe(22);
+    expect(readZip(archive)).toEqual([]);
+  });
+});